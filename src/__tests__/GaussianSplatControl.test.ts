@@ -1,55 +1,250 @@
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect, vi, afterEach } from 'vitest';
 
 // Mock maplibre-gl
 vi.mock('maplibre-gl', () => ({
   default: {},
 }));
 
-// Mock THREE
-vi.mock('three', () => ({
-  AmbientLight: vi.fn(),
-  DirectionalLight: vi.fn(),
-  Group: vi.fn().mockImplementation(() => ({
-    scale: { setScalar: vi.fn() },
-  })),
-  MathUtils: {
-    degToRad: (deg: number) => deg * (Math.PI / 180),
-  },
-}));
+// Mock THREE, keeping the math and scene graph classes
+vi.mock('three', async (importOriginal) => {
+  const three = await importOriginal<typeof import('three')>();
+  const { Box3, BufferGeometry, Euler, LineBasicMaterial, LineSegments, Matrix3, Matrix4, Object3D } = three;
+  const { Plane, Points, PointsMaterial, Quaternion, Raycaster, Vector3, Vector4 } = three;
+  const { AmbientLight, AnimationMixer, DirectionalLight, HemisphereLight, LoopOnce, LoopRepeat } = three;
+  const { PCFSoftShadowMap, Sphere } = three;
+  return {
+    AmbientLight,
+    AnimationMixer,
+    LoopOnce,
+    LoopRepeat,
+    DirectionalLight,
+    HemisphereLight,
+    PCFSoftShadowMap,
+    Sphere,
+    Box3,
+    BufferGeometry,
+    Group: vi.fn().mockImplementation(() => ({
+      scale: { setScalar: vi.fn() },
+    })),
+    MathUtils: {
+      degToRad: (deg: number) => deg * (Math.PI / 180),
+    },
+    LoaderUtils: {
+      extractUrlBase: (url: string) => url.slice(0, url.lastIndexOf('/') + 1),
+      resolveURL: (url: string, path: string) => (/^https?:\/\//.test(url) ? url : path + url),
+    },
+    LoadingManager: vi.fn().mockImplementation(() => ({
+      setURLModifier: vi.fn(),
+    })),
+    Euler,
+    LineBasicMaterial,
+    LineSegments,
+    Matrix3,
+    Matrix4,
+    Object3D,
+    Plane,
+    Points,
+    PointsMaterial,
+    Quaternion,
+    Raycaster,
+    Vector3,
+    Vector4,
+  };
+});
 
 // Mock GLTFLoader
-vi.mock('three/addons/loaders/GLTFLoader.js', () => ({
-  GLTFLoader: vi.fn().mockImplementation(() => ({
-    loadAsync: vi.fn().mockResolvedValue({
-      scene: {
-        scale: { setScalar: vi.fn() },
-      },
-    }),
-  })),
+vi.mock('three/addons/loaders/GLTFLoader.js', async () => {
+  const { Matrix4 } = await vi.importActual<typeof import('three')>('three');
+  return {
+    GLTFLoader: vi.fn().mockImplementation(() => ({
+      parseAsync: vi.fn().mockResolvedValue({
+        scene: {
+          scale: { set: vi.fn(), setScalar: vi.fn() },
+          traverse: vi.fn(),
+          updateWorldMatrix: vi.fn(),
+          matrixWorld: new Matrix4(),
+        },
+      }),
+    })),
+  };
+});
+
+// Mock RGBELoader, which extends loaders left out of the THREE mock
+vi.mock('three/addons/loaders/RGBELoader.js', () => ({
+  RGBELoader: vi.fn(),
 }));
 
 // Mock maplibre-three-plugin
 vi.mock('@dvt3d/maplibre-three-plugin', () => ({
   MapScene: vi.fn().mockImplementation(() => ({
     addLight: vi.fn(),
+    removeLight: vi.fn(),
     addObject: vi.fn(),
     removeObject: vi.fn(),
     on: vi.fn(),
+    off: vi.fn(),
+    renderer: { shadowMap: {} },
   })),
   Creator: {
     createMercatorRTCGroup: vi.fn().mockImplementation(() => ({
       add: vi.fn(),
+      remove: vi.fn(),
+      traverse: vi.fn(),
+      position: { copy: vi.fn() },
+      rotation: { set: vi.fn() },
     })),
   },
+  SceneTransform: {
+    lngLatToVector3: vi.fn().mockImplementation((lngLat: number[]) => ({ lngLat })),
+    projectedUnitsPerMeter: vi.fn(() => 1),
+  },
 }));
 
 // Mock spark
-vi.mock('@sparkjsdev/spark', () => ({
-  SplatMesh: vi.fn().mockImplementation(() => ({
-    geometry: { attributes: { position: {} } },
-    scale: { setScalar: vi.fn() },
-  })),
-}));
+vi.mock('@sparkjsdev/spark', async () => {
+  const { Matrix4, Object3D, Vector3 } = await vi.importActual<typeof import('three')>('three');
+  class SplatEdit extends Object3D {
+    constructor(public options: Record<string, unknown>) {
+      super();
+    }
+  }
+  class SplatEditSdf extends Object3D {
+    constructor(public options: Record<string, unknown>) {
+      super();
+    }
+  }
+  return {
+    SplatMesh: vi.fn().mockImplementation(() => ({
+      geometry: { attributes: { position: {} } },
+      scale: { setScalar: vi.fn() },
+      initialized: Promise.resolve(),
+      dispose: vi.fn(),
+      add: vi.fn(),
+      remove: vi.fn(),
+      updateGenerator: vi.fn(),
+      updateVersion: vi.fn(),
+      matrixWorld: new Matrix4(),
+      // 1000 splats on a 10x10x10 grid filling the cube from -0.5 to 0.5
+      packedSplats: {
+        numSplats: 1000,
+        forEachSplat: (callback: (index: number, center: InstanceType<typeof Vector3>) => void) => {
+          for (let i = 0; i < 1000; i++) {
+            const cell = (n: number) => (Math.floor(i / n) % 10) / 9 - 0.5;
+            callback(i, new Vector3(cell(1), cell(10), cell(100)));
+          }
+        },
+      },
+    })),
+    dyno: {
+      Gsplat: { type: 'Gsplat' },
+      dynoMat3: (value: unknown) => ({ value }),
+      dynoVec3: (value: unknown) => ({ value }),
+      dynoBlock: vi.fn(() => ({})),
+    },
+    SplatEdit,
+    SplatEditSdf,
+    SplatEditSdfType: { BOX: 'box', PLANE: 'plane' },
+    SplatEditRgbaBlendMode: { MULTIPLY: 'multiply' },
+  };
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+});
+
+/**
+ * Create a minimal map stub and add the control to it.
+ */
+async function createMountedControl(options?: Record<string, unknown>) {
+  const { GaussianSplatControl } = await import('../lib/core/GaussianSplatControl');
+  const container = document.createElement('div');
+  const canvasContainer = document.createElement('div');
+  const canvas = document.createElement('canvas');
+  const map = {
+    getContainer: () => container,
+    getCenter: () => ({ lng: 0, lat: 0 }),
+    getCanvasContainer: () => canvasContainer,
+    getCanvas: () => canvas,
+    getZoom: () => 18,
+    getBearing: () => 0,
+    // Centers the bounds at zoom 21
+    cameraForBounds: vi.fn(([[west, south], [east, north]]: number[][], _options?: Record<string, unknown>) => ({
+      center: { lng: (west + east) / 2, lat: (south + north) / 2 },
+      zoom: 21,
+    })),
+    on: vi.fn(),
+    once: vi.fn(),
+    off: vi.fn(),
+    flyTo: vi.fn(),
+    getMaxPitch: () => 85,
+    calculateCameraOptionsFromCameraLngLatAltRotation: vi.fn<
+      (center: [number, number], altitude: number, bearing: number, pitch: number, roll?: number) => {
+        center: { lng: number; lat: number };
+        zoom: number;
+      }
+    >(() => ({ center: { lng: 0, lat: 0 }, zoom: 20 })),
+    triggerRepaint: vi.fn(),
+    project: vi.fn(() => ({ x: 100, y: 100 })),
+    unproject: vi.fn(),
+    dragPan: { isEnabled: () => true, enable: vi.fn(), disable: vi.fn() },
+    getSource: vi.fn(),
+    addSource: vi.fn(),
+    getLayer: vi.fn(),
+    addLayer: vi.fn(),
+    removeLayer: vi.fn(),
+    removeSource: vi.fn(),
+  };
+  const control = new GaussianSplatControl({ flyTo: false, ...options });
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  control.onAdd(map as any);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const mapScene = (control as any)._mapScene;
+  return { control, map, mapScene };
+}
+
+/**
+ * Load a splat and a model, and replace their objects with small boxes straight ahead of an
+ * identity camera: the model's 'Roof' node 5 units away and the splat 10 units away.
+ */
+async function createPickingControl() {
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+  const three = await vi.importActual<typeof import('three')>('three');
+  const mounted = await createMountedControl();
+  const canvas = mounted.map.getCanvas();
+  Object.defineProperty(canvas, 'clientWidth', { value: 200 });
+  Object.defineProperty(canvas, 'clientHeight', { value: 100 });
+  mounted.mapScene.camera = { projectionMatrix: new three.Matrix4(), matrixWorld: new three.Matrix4() };
+
+  const options = { longitude: 0, latitude: 0, rotation: [0, 0, 0] as [number, number, number] };
+  const splatId = await mounted.control.loadSplat('https://example.com/scene.splat', options);
+  const modelId = await mounted.control.loadModel('https://example.com/model.glb', options);
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  const internals = mounted.control as any;
+  const box = (z: number) => {
+    const mesh = new three.Mesh(new three.BoxGeometry(0.2, 0.2, 0.2), new three.MeshBasicMaterial());
+    mesh.position.z = z + 0.1;
+    return mesh;
+  };
+
+  const splat = internals._splatLayers.get(splatId);
+  splat.rtcGroup = new three.Group();
+  splat.mesh = box(10);
+  splat.rtcGroup.add(splat.mesh);
+
+  const model = internals._modelLayers.get(modelId);
+  model.rtcGroup = new three.Group();
+  model.scene = new three.Group();
+  const roof = new three.Group();
+  roof.name = 'Roof';
+  roof.add(box(5));
+  model.scene.add(roof);
+  model.rtcGroup.add(model.scene);
+
+  // The control's first map-wide listener of a type is the picking one
+  const handler = (type: string) =>
+    mounted.map.on.mock.calls.find((args) => args[0] === type && args.length === 2)![1];
+  return { ...mounted, splatId, modelId, handler };
+}
 
 describe('GaussianSplatControl', () => {
   it('should export GaussianSplatControl', async () => {
@@ -200,3 +395,1385 @@ describe('GLTF/GLB model support', () => {
     expect(modelRemoveHandler).not.toHaveBeenCalled();
   });
 });
+
+describe('Load lifecycle', () => {
+  it('should emit loadstart and progress before splatload', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(new Response(new Uint8Array(16), { headers: { 'content-length': '16' } }))
+    );
+    const { control, mapScene } = await createMountedControl();
+    const events: string[] = [];
+    const progress = vi.fn();
+    control.on('loadstart', () => events.push('loadstart'));
+    control.on('progress', (e) => {
+      events.push('progress');
+      progress(e.loaded, e.total);
+    });
+    control.on('splatload', () => events.push('splatload'));
+
+    const id = await control.loadSplat('https://example.com/scene.splat');
+
+    expect(id).toMatch(/^splat-/);
+    expect(events[0]).toBe('loadstart');
+    expect(events[events.length - 1]).toBe('splatload');
+    expect(progress).toHaveBeenLastCalledWith(16, 16);
+    expect(mapScene.addObject).toHaveBeenCalledTimes(1);
+    expect(control.getState().loading).toBe(false);
+  });
+
+  it('should reject and add nothing when a load is aborted', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockImplementation((_url: string, init: RequestInit) => {
+        return new Promise((_resolve, reject) => {
+          init.signal?.addEventListener('abort', () => reject(init.signal?.reason));
+        });
+      })
+    );
+    const { control, mapScene } = await createMountedControl();
+    const errorHandler = vi.fn();
+    control.on('error', errorHandler);
+
+    const abortController = new AbortController();
+    const promise = control.load('https://example.com/scene.ply', { signal: abortController.signal });
+    abortController.abort();
+
+    await expect(promise).rejects.toBeDefined();
+    expect(mapScene.addObject).not.toHaveBeenCalled();
+    expect(errorHandler).not.toHaveBeenCalled();
+    expect(control.getState().status).toBe('Load cancelled');
+  });
+
+  it('should report failed downloads through the error event', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(null, { status: 404 })));
+    const { control, mapScene } = await createMountedControl();
+    const errorHandler = vi.fn();
+    control.on('error', errorHandler);
+
+    await expect(control.load('https://example.com/missing.spz')).rejects.toThrow('HTTP 404');
+    expect(errorHandler).toHaveBeenCalledTimes(1);
+    expect(mapScene.addObject).not.toHaveBeenCalled();
+    expect(control.getSplatIds()).toEqual([]);
+  });
+});
+
+describe('Format detection on load', () => {
+  it('should load extensionless URLs as models when the data is glTF', async () => {
+    const glb = new Uint8Array([0x67, 0x6c, 0x54, 0x46, 2, 0, 0, 0]);
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(glb)));
+    const { control } = await createMountedControl();
+    const modelLoad = vi.fn();
+    control.on('modelload', modelLoad);
+
+    const id = await control.load('https://example.com/assets/123/download');
+
+    expect(id).toMatch(/^model-/);
+    expect(modelLoad).toHaveBeenCalledTimes(1);
+  });
+
+  it('should let an explicit format override detection', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+
+    const id = await control.load('https://example.com/assets/123/download', { format: 'splat' });
+
+    expect(id).toMatch(/^splat-/);
+  });
+
+  it('should fail with the formats tried when detection fails', async () => {
+    vi.stubGlobal(
+      'fetch',
+      vi.fn().mockResolvedValue(
+        new Response(new Uint8Array(32), { headers: { 'content-type': 'application/octet-stream' } })
+      )
+    );
+    const { control } = await createMountedControl();
+    const errorHandler = vi.fn();
+    control.on('error', errorHandler);
+
+    await expect(control.load('https://example.com/assets/123/download')).rejects.toThrow(/Tried file signature/);
+    expect(errorHandler.mock.calls[0][0].error).toContain('application/octet-stream');
+  });
+});
+
+describe('transformRequest', () => {
+  it('should rewrite URLs and add headers for splat requests', async () => {
+    const fetchMock = vi.fn().mockResolvedValue(new Response(new Uint8Array(32)));
+    vi.stubGlobal('fetch', fetchMock);
+    const transformRequest = vi.fn((url: string) => ({
+      url: `${url}?token=abc`,
+      headers: { Authorization: 'Bearer abc' },
+      credentials: 'include' as RequestCredentials,
+    }));
+    const { control } = await createMountedControl({ transformRequest });
+
+    await control.load('https://tiles.example.com/scene.splat');
+
+    expect(transformRequest).toHaveBeenCalledWith('https://tiles.example.com/scene.splat', 'splat');
+    const [url, init] = fetchMock.mock.calls[0];
+    expect(url).toBe('https://tiles.example.com/scene.splat?token=abc');
+    expect(init.headers).toEqual({ Authorization: 'Bearer abc' });
+    expect(init.credentials).toBe('include');
+  });
+
+  it('should route external GLTF resources through transformRequest', async () => {
+    const gltf = JSON.stringify({
+      asset: { version: '2.0' },
+      buffers: [{ uri: 'model.bin' }, { uri: 'data:application/octet-stream;base64,AAAA' }],
+      images: [{ uri: 'textures/color.png' }],
+    });
+    const fetchMock = vi.fn().mockImplementation(async () => new Response(gltf));
+    vi.stubGlobal('fetch', fetchMock);
+    // jsdom does not implement object URLs
+    Object.assign(URL, { createObjectURL: vi.fn(() => 'blob:mock'), revokeObjectURL: vi.fn() });
+    const transformRequest = vi.fn((url: string) => ({ url }));
+    const { control } = await createMountedControl({ transformRequest });
+
+    await control.load('https://example.com/models/scene.gltf');
+
+    expect(transformRequest.mock.calls).toEqual([
+      ['https://example.com/models/scene.gltf', 'model'],
+      ['https://example.com/models/model.bin', 'model-resource'],
+      ['https://example.com/models/textures/color.png', 'model-resource'],
+    ]);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+  });
+});
+
+describe('Layer transforms', () => {
+  it('should update a layer in place and emit transformchange', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const { control, mapScene } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 10,
+      latitude: 20,
+      altitude: 5,
+      rotation: [-90, 90, 0],
+      scale: 2,
+    });
+    const handler = vi.fn();
+    control.on('transformchange', handler);
+
+    control.setLayerTransform(id, { altitude: 12, rotation: [0, 45, 0] });
+
+    const transform = control.getLayerTransform(id);
+    expect(transform).toEqual({
+      longitude: 10,
+      latitude: 20,
+      altitude: 12,
+      altitudeMode: 'absolute',
+      rotation: [0, 45, 0],
+      orientation: null,
+      scale: 2,
+    });
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ layerId: id, splatId: id, transform });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rtcGroup = (control as any)._splatLayers.get(id).rtcGroup;
+    expect(rtcGroup.position.copy).toHaveBeenCalledWith({ lngLat: [10, 20, 12] });
+    expect(rtcGroup.rotation.set).toHaveBeenCalledWith(0, Math.PI / 4, 0, 'XYZ');
+    expect(mapScene.addObject).toHaveBeenCalledTimes(1);
+  });
+
+  it('should show and hide on-map transform handles', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat');
+    const container = map.getCanvasContainer();
+
+    control.startTransformEdit(id);
+    expect(control.getEditingLayerId()).toBe(id);
+    expect(container.querySelector('.maplibre-gl-splat-gizmo')).not.toBeNull();
+
+    control.removeSplat(id);
+    expect(control.getEditingLayerId()).toBeNull();
+    expect(container.querySelector('.maplibre-gl-splat-gizmo')).toBeNull();
+  });
+
+  it('should move and raise a layer with the handles and report the final placement', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl();
+    // 100 pixels to a degree, north up
+    map.unproject.mockImplementation(([x, y]: number[]) => ({ lng: x / 100, lat: -y / 100 }));
+    const id = await control.loadSplat('https://example.com/scene.splat', { longitude: 10, latitude: 20, altitude: 5 });
+    const handler = vi.fn();
+    control.on('transformend', handler);
+    control.startTransformEdit(id);
+    const container = map.getCanvasContainer();
+    const drag = (selector: string, [fromX, fromY]: number[], [toX, toY]: number[]) => {
+      const handle = container.querySelector(selector)!;
+      handle.dispatchEvent(new MouseEvent('pointerdown', { clientX: fromX, clientY: fromY }));
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: toX, clientY: toY }));
+      window.dispatchEvent(new MouseEvent('pointerup', { clientX: toX, clientY: toY }));
+    };
+
+    drag('.maplibre-gl-splat-gizmo-move', [100, 100], [150, 80]);
+    expect(control.getLayerTransform(id)).toMatchObject({ altitude: 5 });
+    expect(control.getLayerTransform(id)!.longitude).toBeCloseTo(10.5, 9);
+    expect(control.getLayerTransform(id)!.latitude).toBeCloseTo(20.2, 9);
+    expect(handler).toHaveBeenCalledTimes(1);
+    expect(handler.mock.calls[0][0]).toMatchObject({ layerId: id, transform: control.getLayerTransform(id) });
+
+    drag('.maplibre-gl-splat-gizmo-altitude', [100, 100], [100, 90]);
+    const metersPerPixel = (40075016.686 * Math.cos((20.2 * Math.PI) / 180)) / (512 * 2 ** 18);
+    expect(control.getLayerTransform(id)!.altitude).toBeCloseTo(5 + 10 * metersPerPixel, 9);
+    expect(control.getLayerTransform(id)!.longitude).toBeCloseTo(10.5, 9);
+    expect(handler).toHaveBeenCalledTimes(2);
+    expect(handler.mock.calls[1][0].transform.altitude).toBeCloseTo(5 + 10 * metersPerPixel, 9);
+  });
+
+  it('should keep the handles on the raised origin and drop the altitude handle when clamped', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const three = await vi.importActual<typeof import('three')>('three');
+    const MTP = await import('@dvt3d/maplibre-three-plugin');
+    const { control, map, mapScene } = await createMountedControl();
+    const canvas = map.getCanvas();
+    Object.defineProperty(canvas, 'clientWidth', { value: 200 });
+    Object.defineProperty(canvas, 'clientHeight', { value: 100 });
+    // A camera looking north, with up on screen pointing up in the scene
+    const matrixWorld = new three.Matrix4().makeRotationX(Math.PI / 2);
+    mapScene.camera = { projectionMatrix: new three.Matrix4(), matrixWorld };
+    const id = await control.loadSplat('https://example.com/scene.splat', { longitude: 0, latitude: 0 });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (control as any)._splatLayers.get(id).rtcGroup = new three.Group();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const lngLatToVector3 = vi.mocked((MTP.SceneTransform as any).lngLatToVector3);
+    lngLatToVector3.mockImplementation(([lng, lat, alt]: number[]) => new three.Vector3(lng, lat, alt));
+
+    try {
+      control.setLayerTransform(id, { altitude: 0.5 });
+      control.startTransformEdit(id);
+      const container = map.getCanvasContainer();
+      const gizmo = container.querySelector<HTMLElement>('.maplibre-gl-splat-gizmo')!;
+      const altitudeHandle = container.querySelector<HTMLElement>('.maplibre-gl-splat-gizmo-altitude')!;
+      expect(gizmo.style.transform).toBe('translate(100px, 25px)');
+      expect(altitudeHandle.style.display).toBe('');
+
+      control.setLayerTransform(id, { altitudeMode: 'clampToGround' });
+      expect(gizmo.style.transform).toBe('translate(100px, 50px)');
+      expect(altitudeHandle.style.display).toBe('none');
+      altitudeHandle.dispatchEvent(new MouseEvent('pointerdown', { clientX: 100, clientY: 50 }));
+      window.dispatchEvent(new MouseEvent('pointermove', { clientX: 100, clientY: 0 }));
+      window.dispatchEvent(new MouseEvent('pointerup', { clientX: 100, clientY: 0 }));
+      expect(control.getLayerTransform(id)!.altitude).toBe(0.5);
+    } finally {
+      lngLatToVector3.mockImplementation((lngLat: number[]) => ({ lngLat }));
+    }
+  });
+
+  it('should place terrain-relative layers on the ground and follow terrain changes', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const MTP = await import('@dvt3d/maplibre-three-plugin');
+    const { control, map } = await createMountedControl();
+    let elevation = 100;
+    Object.assign(map, { queryTerrainElevation: vi.fn(() => elevation) });
+
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 10,
+      latitude: 20,
+      altitude: 5,
+      altitudeMode: 'relativeToGround',
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((MTP.Creator as any).createMercatorRTCGroup).toHaveBeenLastCalledWith([10, 20, 105], expect.any(Array), 1);
+
+    elevation = 200;
+    const terrainHandler = map.on.mock.calls.find(([event]) => event === 'terrain')![1];
+    terrainHandler();
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rtcGroup = (control as any)._splatLayers.get(id).rtcGroup;
+    expect(rtcGroup.position.copy).toHaveBeenLastCalledWith({ lngLat: [10, 20, 205] });
+    expect(control.getLayerTransform(id)?.altitude).toBe(5);
+  });
+
+  it('should derive the rotation from heading, pitch and roll', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      orientation: { heading: 30, pitch: 0, roll: 0 },
+    });
+
+    expect(control.getLayerTransform(id)?.orientation).toEqual({ heading: 30, pitch: 0, roll: 0, upAxis: '-Y-up' });
+    const loaded = control.getLayerTransform(id)!.rotation;
+
+    control.setLayerTransform(id, { orientation: { heading: 60, pitch: 0, roll: 0 } });
+    expect(control.getLayerTransform(id)!.rotation).not.toEqual(loaded);
+
+    control.setLayerTransform(id, { rotation: [0, 0, 0] });
+    expect(control.getLayerTransform(id)?.orientation).toBeNull();
+  });
+
+  it('should place layers from projected origins and report both coordinates', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const MTP = await import('@dvt3d/maplibre-three-plugin');
+    const { control } = await createMountedControl();
+    const origin = { crs: 'EPSG:32633', coordinates: [500000, 0, 15] as [number, number, number] };
+
+    const id = await control.loadSplat('https://example.com/scene.splat', { origin });
+
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const [lng, lat, alt] = (MTP.Creator as any).createMercatorRTCGroup.mock.lastCall[0];
+    expect(lng).toBeCloseTo(15, 9);
+    expect(lat).toBeCloseTo(0, 9);
+    expect(alt).toBe(15);
+    expect(control.getSplatInfo(id)).toMatchObject({ longitude: lng, latitude: lat, altitude: 15, origin });
+
+    control.setLayerTransform(id, { altitude: 20 });
+    expect(control.getSplatInfo(id)?.origin).toBeNull();
+  });
+
+  it('should return null for unknown layers', async () => {
+    const { control } = await createMountedControl();
+    expect(control.getLayerTransform('splat-99')).toBeNull();
+  });
+});
+
+describe('Georeferencing', () => {
+  it('should place a layer from control points and reload it from the exported solution', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const MTP = await import('@dvt3d/maplibre-three-plugin');
+    const { enuToLngLatAlt } = await import('../lib/utils/georeference');
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat');
+    const handler = vi.fn();
+    control.on('georeference', handler);
+
+    // Two meters per asset unit, no rotation, origin 5 m above [10, 20]
+    const locals: Array<[number, number, number]> = [
+      [0, 0, 0],
+      [10, 0, 0],
+      [0, 10, 0],
+      [0, 0, 10],
+    ];
+    for (const local of locals) {
+      const lngLatAlt = enuToLngLatAlt([10, 20], [local[0] * 2, local[1] * 2, local[2] * 2 + 5]);
+      control.addControlPoint(id, { local, lngLatAlt });
+    }
+
+    const solution = control.applyGeoreference(id);
+
+    expect(solution.metersPerUnit).toBeCloseTo(2, 6);
+    expect(solution.rmse).toBeLessThan(1e-6);
+    const transform = control.getLayerTransform(id)!;
+    expect(transform.longitude).toBeCloseTo(10, 9);
+    expect(transform.latitude).toBeCloseTo(20, 9);
+    expect(transform.altitude).toBeCloseTo(5, 6);
+    expect(transform.altitudeMode).toBe('absolute');
+    // ENU axes map onto the RTC group's parent frame with a half turn about z
+    expect(Math.abs(transform.rotation[2])).toBeCloseTo(180, 6);
+    expect(handler.mock.calls[0][0]).toMatchObject({ layerId: id, georeference: solution });
+
+    const saved = JSON.parse(JSON.stringify(control.exportGeoreference(id)));
+    const reloadedId = await control.loadSplat('https://example.com/scene.splat', { georeference: saved });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const createGroup = (MTP.Creator as any).createMercatorRTCGroup;
+    expect(createGroup.mock.lastCall[0]).toEqual([transform.longitude, transform.latitude, transform.altitude]);
+    expect(control.getControlPoints(reloadedId)).toHaveLength(4);
+  });
+
+  it('should require three control points', async () => {
+    vi.stubGlobal('fetch', vi.fn().mockResolvedValue(new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat');
+    control.addControlPoint(id, { local: [0, 0, 0], lngLatAlt: [10, 20, 0] });
+
+    expect(() => control.solveGeoreference(id)).toThrow('At least three control points');
+    expect(control.exportGeoreference(id)).toBeNull();
+  });
+});
+
+describe('Layer opacity', () => {
+  it('should fade splats through the mesh opacity and track it per layer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl({ defaultOpacity: 0.8 });
+    const first = await control.loadSplat('https://example.com/a.splat');
+    const second = await control.loadSplat('https://example.com/b.splat', { opacity: 0.5 });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(first).mesh;
+    expect(mesh.opacity).toBe(0.8);
+
+    control.setLayerOpacity(first, 0.25);
+
+    expect(mesh.opacity).toBe(0.25);
+    expect(control.getState().layerOpacity).toEqual({ [first]: 0.25, [second]: 0.5 });
+    control.removeSplat(second);
+    expect(control.getState().layerOpacity).toEqual({ [first]: 0.25 });
+  });
+
+  it('should scale each GLTF material by the layer opacity and restore it', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadModel('https://example.com/model.glb');
+    const material = (opacity: number, transparent: boolean) => ({
+      opacity,
+      transparent,
+      depthWrite: true,
+      userData: {} as Record<string, unknown>,
+    });
+    const glass = material(0.5, true);
+    const metal = material(1, false);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const scene = (control as any)._modelLayers.get(id).scene;
+    scene.traverse = (callback: (child: unknown) => void) => {
+      callback({ material: [glass, metal] });
+      callback({});
+    };
+
+    control.setLayerOpacity(id, 0.4);
+    expect(glass).toMatchObject({ opacity: 0.2, transparent: true, depthWrite: false });
+    expect(metal).toMatchObject({ opacity: 0.4, transparent: true, depthWrite: false });
+
+    control.setLayerOpacity(id, 1);
+    expect(glass).toMatchObject({ opacity: 0.5, transparent: true, depthWrite: true });
+    expect(metal).toMatchObject({ opacity: 1, transparent: false, depthWrite: true });
+    expect(control.getLayerOpacity(id)).toBe(1);
+  });
+});
+
+describe('Layer crop', () => {
+  it('should hide splats outside the crop boxes with an inverted Spark edit', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(id).mesh;
+
+    control.setLayerCrop(id, { boxes: [{ center: [1, 2, 3], size: [4, 6, 8], rotation: [0, 90, 0] }] });
+
+    const edit = mesh.add.mock.lastCall[0];
+    expect(edit.options).toMatchObject({ rgbaBlendMode: 'multiply', invert: true });
+    const [sdf] = edit.children;
+    expect(sdf.options).toEqual({ type: 'box', opacity: 0 });
+    expect(sdf.position.toArray()).toEqual([1, 2, 3]);
+    expect(sdf.scale.toArray()).toEqual([2, 3, 4]);
+    expect(sdf.rotation.y).toBeCloseTo(Math.PI / 2, 9);
+    expect(control.getSplatInfo(id)?.crop).toEqual(control.getLayerCrop(id));
+
+    control.setLayerCrop(id, null);
+    expect(mesh.remove).toHaveBeenCalledWith(edit);
+    expect(control.getLayerCrop(id)).toBeNull();
+  });
+
+  it('should extrude the crop polygon in meters and rebuild it when the layer moves', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { enuToLngLatAlt } = await import('../lib/utils/georeference');
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 10,
+      latitude: 20,
+      altitude: 5,
+      scale: 2,
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(id).mesh;
+    const corner = (east: number, north: number): [number, number] => {
+      const [lng, lat] = enuToLngLatAlt([10, 20], [east, north, 0]);
+      return [lng, lat];
+    };
+
+    control.setLayerCrop(id, {
+      polygon: { coordinates: [corner(-10, -20), corner(30, -20), corner(30, 20), corner(-10, 20)], maxHeight: 25 },
+    });
+
+    const [frame] = mesh.add.mock.lastCall[0].children;
+    // Scene units per meter over the layer scale
+    expect(frame.scale.x).toBeCloseTo(0.5, 9);
+    const [box] = frame.children;
+    expect(box.position.x).toBeCloseTo(10, 6);
+    expect(box.position.y).toBeCloseTo(0, 6);
+    expect(box.scale.x).toBeCloseTo(20, 6);
+    expect(box.scale.y).toBeCloseTo(20, 6);
+    // Up to 20 m above the origin, unbounded below
+    expect(box.position.z + box.scale.z).toBeCloseTo(20, 6);
+
+    const edits = mesh.add.mock.calls.length;
+    control.setLayerTransform(id, { rotation: [0, 0, 45] });
+    expect(mesh.add.mock.calls.length).toBe(edits + 1);
+  });
+
+  it('should add polygon vertices from map clicks while editing the crop', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat');
+
+    control.startCropEdit(id);
+    expect(control.getCropEditingLayerId()).toBe(id);
+    // The latest map-wide listener, not those of the proxy style layers or for picking
+    const click = [...map.on.mock.calls]
+      .reverse()
+      .find((args: unknown[]) => args[0] === 'click' && args.length === 2)![1];
+    for (const [lng, lat] of [
+      [0, 0],
+      [0.001, 0],
+      [0, 0.001],
+    ]) {
+      click({ lngLat: { lng, lat }, point: { x: 0, y: 0 } });
+    }
+
+    expect(control.getLayerCrop(id)?.polygon?.coordinates).toEqual([
+      [0, 0],
+      [0.001, 0],
+      [0, 0.001],
+    ]);
+    control.removeSplat(id);
+    expect(control.getCropEditingLayerId()).toBeNull();
+    expect(map.off).toHaveBeenCalledWith('click', click);
+  });
+});
+
+describe('Color adjustments', () => {
+  it('should grade splats through a Spark modifier and update it live', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat', { colorAdjustments: { exposure: 1 } });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layer = (control as any)._splatLayers.get(id);
+    expect(layer.mesh.objectModifier).toBeDefined();
+    expect(layer.mesh.updateGenerator).toHaveBeenCalledTimes(1);
+    expect(layer.colorUniforms.matrix.value.elements[0]).toBeCloseTo(2, 9);
+
+    control.setLayerColorAdjustments(id, { brightness: 0.1 });
+
+    expect(control.getLayerColorAdjustments(id)).toMatchObject({ exposure: 1, brightness: 0.1 });
+    expect(layer.colorUniforms.offset.value.x).toBeCloseTo(0.1, 9);
+    expect(layer.mesh.updateGenerator).toHaveBeenCalledTimes(1);
+    expect(layer.mesh.updateVersion).toHaveBeenCalledTimes(2);
+
+    control.setLayerColorAdjustments(id, null);
+    expect(layer.colorUniforms.matrix.value.elements[0]).toBe(1);
+    expect(control.getLayerColorAdjustments(id)?.exposure).toBe(0);
+  });
+
+  it('should patch GLTF material shaders with the layer color transform', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadModel('https://example.com/model.glb');
+    const material = {
+      onBeforeCompile: vi.fn(),
+      customProgramCacheKey: () => 'standard',
+      needsUpdate: false,
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layer = (control as any)._modelLayers.get(id);
+    layer.scene.traverse = (callback: (child: unknown) => void) => callback({ material });
+
+    control.setLayerColorAdjustments(id, { saturation: -1 });
+
+    expect(material.needsUpdate).toBe(true);
+    expect(material.customProgramCacheKey()).toBe('standard|layerColor');
+    const shader = {
+      uniforms: {} as Record<string, unknown>,
+      fragmentShader: 'void main() {\n#include <colorspace_fragment>\n}',
+    };
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    (material.onBeforeCompile as any)(shader, {});
+    expect(shader.uniforms.layerColorMatrix).toBe(layer.colorUniforms.matrix);
+    expect(shader.fragmentShader).toContain('uniform mat3 layerColorMatrix;');
+    expect(shader.fragmentShader).toContain('gl_FragColor.rgb = layerColorMatrix * gl_FragColor.rgb + layerColorOffset;');
+  });
+});
+
+describe('Splat budget', () => {
+  /**
+   * Mount a control whose camera maps layer coordinates straight to clip space, on a
+   * 200x100 canvas, so the unit cube of the mocked splats covers 100 pixels.
+   */
+  async function createBudgetControl(options?: Record<string, unknown>) {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { Matrix4 } = await import('three');
+    const mounted = await createMountedControl(options);
+    const canvas = mounted.map.getCanvas();
+    Object.defineProperty(canvas, 'clientWidth', { value: 200 });
+    Object.defineProperty(canvas, 'clientHeight', { value: 100 });
+    mounted.mapScene.camera = { projectionMatrix: new Matrix4(), matrixWorld: new Matrix4() };
+    const preRender = mounted.mapScene.on.mock.calls.find(([event]: [string]) => event === 'preRender')[1];
+    return { ...mounted, preRender };
+  }
+
+  it('should share the budget between layers by priority', async () => {
+    const { control, preRender } = await createBudgetControl({ maxSplats: 1000 });
+    const low = await control.loadSplat('https://example.com/a.splat');
+    const high = await control.loadSplat('https://example.com/b.splat', { priority: 3 });
+
+    preRender();
+
+    const stats = control.getSplatStats();
+    expect(stats).toMatchObject({ maxSplats: 1000, total: 2000, rendered: 1000 });
+    expect(stats.layers[low]).toMatchObject({ total: 1000, rendered: 250, screenSize: 100, culled: false });
+    expect(stats.layers[high]).toMatchObject({ rendered: 750, priority: 3 });
+
+    // Spark resets the count every frame; the frame hook caps it to the layer's share
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(low).mesh;
+    mesh.numSplats = 1000;
+    mesh.onFrame();
+    expect(mesh.numSplats).toBe(250);
+
+    control.setLayerPriority(high, 1);
+    preRender();
+    expect(control.getLayerPriority(high)).toBe(1);
+    expect(control.getSplatStats().layers[low].rendered).toBe(500);
+  });
+
+  it('should draw a subset spread over the whole layer', async () => {
+    const { SplatMesh } = await import('@sparkjsdev/spark');
+    // Splats in file order, each holding its file index in every word
+    const packedArray = new Uint32Array(4000).map((_, i) => Math.floor(i / 4));
+    const sh1 = new Uint32Array(2000).map((_, i) => Math.floor(i / 2));
+    const createMesh = vi.mocked(SplatMesh).getMockImplementation()!;
+    vi.mocked(SplatMesh).mockImplementationOnce((...args) => {
+      const mesh = createMesh(...args);
+      Object.assign(mesh.packedSplats, { packedArray, extra: { sh1 } });
+      return mesh;
+    });
+    const { control, preRender } = await createBudgetControl();
+    const id = await control.loadSplat('https://example.com/sorted.splat');
+
+    // A budget set after loading thins the layer just the same
+    control.update({ maxSplats: 250 });
+    preRender();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(id).mesh;
+    mesh.numSplats = 1000;
+    mesh.onFrame();
+    expect(mesh.numSplats).toBe(250);
+    expect(mesh.packedSplats.needsUpdate).toBe(true);
+
+    // The drawn splats come from every part of the file, not just its start
+    const drawn = Array.from({ length: 250 }, (_, i) => packedArray[i * 4]).sort((a, b) => a - b);
+    expect(new Set(drawn).size).toBe(250);
+    expect(drawn[0]).toBe(0);
+    expect(drawn[249]).toBeGreaterThan(990);
+    expect(Math.max(...drawn.slice(1).map((index, i) => index - drawn[i]))).toBeLessThanOrEqual(8);
+    for (let i = 0; i < 250; i++) {
+      expect(packedArray.subarray(i * 4, i * 4 + 4).every((word) => word === packedArray[i * 4])).toBe(true);
+      expect([sh1[i * 2], sh1[i * 2 + 1]]).toEqual([packedArray[i * 4], packedArray[i * 4]]);
+    }
+  });
+
+  it('should cull off-screen and tiny layers and give their splats to the rest', async () => {
+    const { control, preRender } = await createBudgetControl({ maxSplats: 1500, minScreenSize: 20 });
+    const visible = await control.loadSplat('https://example.com/a.splat');
+    const offscreen = await control.loadSplat('https://example.com/b.splat');
+    const tiny = await control.loadSplat('https://example.com/c.splat');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layers = (control as any)._splatLayers;
+    layers.get(offscreen).mesh.matrixWorld.makeTranslation(5, 0, 0);
+    layers.get(tiny).mesh.matrixWorld.makeScale(0.1, 0.1, 0.1);
+
+    preRender();
+
+    const stats = control.getSplatStats();
+    expect(stats.layers[visible]).toMatchObject({ rendered: 1000, culled: false });
+    expect(stats.layers[offscreen]).toMatchObject({ rendered: 0, culled: true, screenSize: 0 });
+    expect(stats.layers[tiny]).toMatchObject({ rendered: 0, culled: true, screenSize: 10 });
+    expect(layers.get(offscreen).mesh.visible).toBe(false);
+    expect(stats.rendered).toBe(1000);
+  });
+});
+
+describe('Zoom ranges', () => {
+  it('should swap a layer below its minzoom for a marker that flies to it', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl();
+    expect(map.addSource).toHaveBeenCalledWith('maplibre-gl-splat-proxies', expect.anything());
+    const setData = vi.fn();
+    map.getSource.mockReturnValue({ setData });
+
+    const id = await control.loadSplat('https://example.com/scene.splat', { longitude: 10, latitude: 20, minzoom: 19 });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const layer = (control as any)._splatLayers.get(id);
+    expect(layer.rtcGroup.visible).toBe(false);
+    expect(setData).toHaveBeenLastCalledWith({
+      type: 'FeatureCollection',
+      features: [
+        {
+          type: 'Feature',
+          properties: { layerId: id, name: 'scene.splat' },
+          geometry: { type: 'Point', coordinates: [10, 20] },
+        },
+      ],
+    });
+
+    const click = map.on.mock.calls.find(
+      (args) => args[0] === 'click' && args[1] === 'maplibre-gl-splat-proxies-marker'
+    )!;
+    click[2]({ features: [{ properties: { layerId: id } }] });
+    expect(map.flyTo).toHaveBeenCalledWith(expect.objectContaining({ zoom: 21 }));
+    const [lng, lat] = map.flyTo.mock.lastCall![0].center;
+    expect(lng).toBeCloseTo(10, 4);
+    expect(lat).toBeCloseTo(20, 4);
+
+    map.getZoom = () => 19.5;
+    map.on.mock.calls.find(([type]) => type === 'zoom')![1]();
+    expect(layer.rtcGroup.visible).toBe(true);
+    expect(setData).toHaveBeenLastCalledWith({ type: 'FeatureCollection', features: [] });
+    expect(control.getLayerZoomRange(id)).toEqual({ minzoom: 19, maxzoom: 24 });
+
+    // Hidden layers stay hidden in their zoom range, and have no proxy
+    control.setLayerVisibility(id, false);
+    map.getZoom = () => 10;
+    map.on.mock.calls.find(([type]) => type === 'zoom')![1]();
+    expect(layer.rtcGroup.visible).toBe(false);
+    expect(setData).toHaveBeenLastCalledWith({ type: 'FeatureCollection', features: [] });
+  });
+
+  it('should outline the footprint of a layer and hide it past its maxzoom', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl();
+    const setData = vi.fn();
+    map.getSource.mockReturnValue({ setData });
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 0,
+      latitude: 0,
+      rotation: [0, 0, 0],
+      proxy: 'footprint',
+    });
+
+    control.setLayerZoomRange(id, 20, 24);
+
+    // The mocked splats fill a 1 m cube around the origin
+    const halfSide = 0.5 / ((Math.PI / 180) * 6371008.8);
+    const polygon = setData.mock.lastCall![0].features[0].geometry;
+    expect(polygon.type).toBe('Polygon');
+    expect(polygon.coordinates[0]).toHaveLength(5);
+    for (const [lng, lat] of polygon.coordinates[0]) {
+      expect(Math.abs(lng)).toBeCloseTo(halfSide, 12);
+      expect(Math.abs(lat)).toBeCloseTo(halfSide, 12);
+    }
+
+    control.setLayerZoomRange(id, 0, 10);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect((control as any)._splatLayers.get(id).rtcGroup.visible).toBe(false);
+    expect(setData).toHaveBeenLastCalledWith({ type: 'FeatureCollection', features: [] });
+  });
+});
+
+describe('Zoom to layer', () => {
+  // The mocked splats fill a 1 m cube around the origin
+  const halfSide = 0.5 / ((Math.PI / 180) * 6371008.8);
+
+  it('should compute the geographic bounds of a layer', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control } = await createMountedControl();
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 0,
+      latitude: 0,
+      altitude: 10,
+      rotation: [0, 0, 0],
+    });
+
+    const bounds = control.getLayerBounds(id)!;
+    expect(bounds.west).toBeCloseTo(-halfSide, 12);
+    expect(bounds.north).toBeCloseTo(halfSide, 12);
+    expect(bounds.minAltitude).toBeCloseTo(9.5, 9);
+    expect(bounds.maxAltitude).toBeCloseTo(10.5, 9);
+  });
+
+  it('should fit the camera to the layer bounds on load and on request', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const { control, map } = await createMountedControl({ flyTo: true });
+    const id = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 0,
+      latitude: 0,
+      rotation: [0, 0, 0],
+    });
+    expect(map.flyTo).toHaveBeenCalledWith(expect.objectContaining({ zoom: 21, pitch: 60, bearing: 0 }));
+
+    control.zoomToLayer(id, { padding: 10, pitch: 0, bearing: 30 });
+    const [[[west, south], [east, north]], cameraOptions] = map.cameraForBounds.mock.lastCall!;
+    expect([west, south, east, north].map((v: number) => Math.abs(v) / halfSide)).toEqual([
+      expect.closeTo(1, 9),
+      expect.closeTo(1, 9),
+      expect.closeTo(1, 9),
+      expect.closeTo(1, 9),
+    ]);
+    expect(cameraOptions).toMatchObject({ padding: 10, bearing: 30 });
+    expect(map.flyTo).toHaveBeenLastCalledWith(expect.objectContaining({ pitch: 0, bearing: 30 }));
+
+    // Looking north at 45 degrees, the 1 m tall layer covers 1 m more ground to the north
+    control.zoomToLayer(id, { pitch: 45, bearing: 0 });
+    const [, northEast] = map.cameraForBounds.mock.lastCall![0];
+    expect(northEast[1]).toBeCloseTo(3 * halfSide, 12);
+
+    control.setLayerZoomRange(id, 0, 20);
+    control.zoomToLayer(id);
+    expect(map.flyTo.mock.lastCall![0].zoom).toBeCloseTo(19.99, 9);
+  });
+});
+
+describe('Layer picking', () => {
+  it('should report the nearest layer hit by a click', async () => {
+    const { control, splatId, modelId, handler } = await createPickingControl();
+    const onClick = vi.fn();
+    control.on('click', onClick);
+
+    handler('click')({ point: { x: 100, y: 50 } });
+
+    expect(onClick).toHaveBeenCalledTimes(1);
+    const { layerId, pick } = onClick.mock.calls[0][0];
+    expect(layerId).toBe(modelId);
+    expect(pick).toMatchObject({ layerId: modelId, nodeName: 'Roof', point: { x: 100, y: 50 } });
+    expect(pick.local).toEqual([expect.closeTo(0, 6), expect.closeTo(0, 6), expect.closeTo(5, 6)]);
+    expect(pick.lngLatAlt).toEqual([expect.closeTo(0, 6), expect.closeTo(0, 6), expect.closeTo(5, 6)]);
+
+    // Hidden layers are not picked
+    control.setLayerVisibility(modelId, false);
+    handler('click')({ point: { x: 100, y: 50 } });
+    const splatPick = onClick.mock.lastCall![0].pick;
+    expect(splatPick.layerId).toBe(splatId);
+    // Splat layers report points relative to the splat mesh
+    expect(splatPick.local[2]).toBeCloseTo(-0.1, 6);
+    expect(splatPick.nodeName).toBeUndefined();
+  });
+
+  it('should pick once per frame on mouse move and report leaving a layer', async () => {
+    const frames: FrameRequestCallback[] = [];
+    vi.stubGlobal('requestAnimationFrame', (callback: FrameRequestCallback) => frames.push(callback));
+    const { control, modelId, handler } = await createPickingControl();
+    const onMove = vi.fn();
+    const onLeave = vi.fn();
+    control.on('mousemove', onMove);
+    control.on('mouseleave', onLeave);
+
+    handler('mousemove')({ point: { x: 10, y: 10 } });
+    handler('mousemove')({ point: { x: 100, y: 50 } });
+    expect(frames).toHaveLength(1);
+    frames.shift()!(0);
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(onMove.mock.calls[0][0].pick.layerId).toBe(modelId);
+
+    handler('mousemove')({ point: { x: 10, y: 10 } });
+    frames.shift()!(0);
+    expect(onMove).toHaveBeenCalledTimes(1);
+    expect(onLeave).toHaveBeenCalledWith(expect.objectContaining({ layerId: modelId }));
+  });
+});
+
+describe('Measurements', () => {
+  it('should measure the height between picked layer points and export it', async () => {
+    const { control, map, mapScene, modelId } = await createPickingControl();
+    const onMeasure = vi.fn();
+    control.on('measure', onMeasure);
+
+    control.startMeasurement('height');
+    expect(control.getMeasurementMode()).toBe('height');
+    const click = [...map.on.mock.calls].reverse().find((args: unknown[]) => args[0] === 'click')![1];
+    click({ point: { x: 100, y: 50 } });
+    expect(control.getMeasurements()).toEqual([]);
+    // The second point is on the splat behind the model
+    control.setLayerVisibility(modelId, false);
+    click({ point: { x: 100, y: 50 } });
+
+    expect(onMeasure).toHaveBeenCalledTimes(1);
+    const { measurement } = onMeasure.mock.calls[0][0];
+    expect(measurement).toMatchObject({ id: 'measure-0', mode: 'height' });
+    const [[, , low], [, , high]] = measurement.points;
+    expect(low).toBeCloseTo(5, 6);
+    expect(high).not.toBeCloseTo(5, 6);
+    expect(measurement.value).toBeCloseTo(Math.abs(high - low), 9);
+    expect(mapScene.addObject).toHaveBeenCalled();
+
+    // Clicks off the layers add no points
+    click({ point: { x: 10, y: 10 } });
+    expect(control.getMeasurements()).toHaveLength(1);
+
+    control.setMeasurementUnits('imperial');
+    const [feature] = control.exportMeasurements().features;
+    expect(feature.properties).toMatchObject({ mode: 'height', value: measurement.value, unit: 'm' });
+    expect(feature.properties!.label).toMatch(/^\d+\.\d ft$/);
+    expect(feature.geometry).toEqual({ type: 'LineString', coordinates: measurement.points });
+
+    control.removeMeasurement('measure-0');
+    expect(control.getMeasurements()).toEqual([]);
+  });
+
+  it('should complete areas on request and give way to other editing modes', async () => {
+    const { control, map, splatId } = await createPickingControl();
+
+    control.startMeasurement('area');
+    const click = [...map.on.mock.calls].reverse().find((args: unknown[]) => args[0] === 'click')![1];
+    click({ point: { x: 95, y: 48 } });
+    click({ point: { x: 105, y: 48 } });
+    expect(control.finishMeasurement()).toBeNull();
+    click({ point: { x: 105, y: 52 } });
+
+    // A 0.1 by 0.08 m triangle on the model's front face
+    const measurement = control.finishMeasurement()!;
+    expect(measurement.mode).toBe('area');
+    expect(measurement.points).toHaveLength(3);
+    expect(measurement.value).toBeCloseTo(0.004, 6);
+    expect(control.getMeasurementMode()).toBe('area');
+
+    click({ point: { x: 95, y: 48 } });
+    control.startCropEdit(splatId);
+    expect(control.getMeasurementMode()).toBeNull();
+    expect(map.off).toHaveBeenCalledWith('click', click);
+    expect(control.getMeasurements()).toHaveLength(1);
+
+    control.clearMeasurements();
+    expect(control.exportMeasurements().features).toEqual([]);
+  });
+});
+
+describe('Annotations', () => {
+  it('should place labels at their layer points and dim those behind other layers', async () => {
+    const { control, map, splatId, modelId } = await createPickingControl();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const labels = (control as any)._annotationLabels;
+
+    const roofId = control.addAnnotation(modelId, [0, 0, 5], { title: 'Roof', html: '<b>Rust here</b>' });
+    const splatNoteId = control.addAnnotation(splatId, [0, 0, -0.1], { title: 'Meter #42' });
+    labels.update();
+
+    const element = (id: string) =>
+      map.getCanvasContainer().querySelector<HTMLElement>(`[data-annotation-id="${id}"]`)!;
+    expect(element(roofId).textContent).toBe('RoofRust here');
+    expect(element(roofId).querySelector('b')).not.toBeNull();
+    expect(element(roofId).style.transform).toContain('translate(100px, 50px)');
+    expect(element(roofId).classList.contains('occluded')).toBe(false);
+    // The model is in front of the splat
+    expect(element(splatNoteId).classList.contains('occluded')).toBe(true);
+
+    // Labels of hidden layers are hidden, and updated content is shown
+    control.setLayerVisibility(modelId, false);
+    control.updateAnnotation(splatNoteId, { title: 'Meter #43' });
+    labels.update();
+    expect(element(roofId).style.display).toBe('none');
+    expect(element(splatNoteId).textContent).toBe('Meter #43');
+    expect(element(splatNoteId).classList.contains('occluded')).toBe(false);
+  });
+
+  it('should export annotations as JSON and import them onto a layer', async () => {
+    const { control, map, splatId, modelId } = await createPickingControl();
+    expect(() => control.addAnnotation('missing', [0, 0, 0])).toThrow('Layer not found: missing');
+
+    const id = control.addAnnotation(splatId, [1, 2, 3], { title: 'Valve' });
+    control.addAnnotation(modelId, [0, 0, 5], { title: 'Roof' });
+    const saved = JSON.parse(JSON.stringify(control.exportAnnotations(splatId)));
+    expect(saved).toEqual([{ id, layerId: splatId, position: [1, 2, 3], title: 'Valve' }]);
+
+    // Annotations go with their layer
+    control.removeSplat(splatId);
+    expect(control.getAnnotation(id)).toBeNull();
+    expect(control.exportAnnotations()).toHaveLength(1);
+
+    expect(control.importAnnotations(saved)).toEqual([]);
+    expect(control.importAnnotations(saved, modelId)).toEqual([id]);
+    expect(control.getAnnotation(id)).toMatchObject({ layerId: modelId, position: [1, 2, 3], title: 'Valve' });
+    expect(map.getCanvasContainer().querySelectorAll('.maplibre-gl-splat-annotation')).toHaveLength(2);
+
+    control.removeAnnotation(id);
+    expect(control.exportAnnotations().map((a) => a.title)).toEqual(['Roof']);
+  });
+});
+
+describe('Capture cameras', () => {
+  it('should draw cameras from a transforms.json and view the layer from them', async () => {
+    // Looking along +y in the splat, which faces south on the map
+    const transforms = {
+      frames: [
+        { file_path: 'a.jpg', transform_matrix: [[1, 0, 0, 0], [0, 0, -1, 0], [0, 1, 0, 10], [0, 0, 0, 1]] },
+        { file_path: 'b.jpg', transform_matrix: [[1, 0, 0, 2], [0, 0, -1, 0], [0, 1, 0, 10], [0, 0, 0, 1]] },
+      ],
+    };
+    const fetchMock = vi.fn(async (url: string) =>
+      url.endsWith('.json') ? new Response(JSON.stringify(transforms)) : new Response(new Uint8Array(32))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+    const { control, map } = await createMountedControl();
+    const layerId = await control.loadSplat('https://example.com/scene.splat', {
+      longitude: 0,
+      latitude: 0,
+      rotation: [0, 0, 0],
+    });
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const mesh = (control as any)._splatLayers.get(layerId).mesh;
+
+    const count = await control.loadLayerCameras(layerId, 'https://example.com/transforms.json');
+    expect(count).toBe(2);
+    expect(fetchMock).toHaveBeenLastCalledWith('https://example.com/transforms.json', expect.any(Object));
+    expect(control.getLayerCameras(layerId).map((c) => c.name)).toEqual(['a.jpg', 'b.jpg']);
+    const [frusta] = mesh.add.mock.lastCall;
+    expect(frusta.isLineSegments).toBe(true);
+    expect(frusta.geometry.attributes.position.count).toBe(40);
+
+    control.viewFromCamera(layerId, 0, { duration: 0 });
+    const [center, altitude, bearing, pitch, roll] =
+      map.calculateCameraOptionsFromCameraLngLatAltRotation.mock.lastCall!;
+    expect(center).toEqual([expect.closeTo(0, 9), expect.closeTo(0, 9)]);
+    expect(altitude).toBeCloseTo(10, 9);
+    expect(Math.abs(bearing)).toBeCloseTo(180, 9);
+    // Level views are limited to the map's maximum pitch
+    expect(pitch).toBe(85);
+    expect(roll).toBeCloseTo(0, 9);
+    expect(map.flyTo).toHaveBeenLastCalledWith({ center: { lng: 0, lat: 0 }, zoom: 20, duration: 0 });
+
+    control.setLayerCameras(layerId, null);
+    expect(mesh.remove).toHaveBeenCalledWith(frusta);
+    expect(control.getLayerCameras(layerId)).toEqual([]);
+    await expect(control.loadLayerCameras('missing', 'https://example.com/transforms.json')).rejects.toThrow('Layer not found');
+  });
+});
+
+describe('Splat sequences', () => {
+  afterEach(() => {
+    vi.mocked(performance.now).mockRestore?.();
+  });
+
+  const frames = ['05-06', '05-13', '05-20'].map((day) => ({
+    source: `https://example.com/site-2024-${day}.splat`,
+    time: `2024-${day}T00:00:00Z`,
+  }));
+
+  /**
+   * Mount an expanded control with a camera for the frame hooks and a clock under test control.
+   */
+  async function createSequenceControl(options?: Record<string, unknown>) {
+    const fetchMock = vi.fn(async () => new Response(new Uint8Array(32)));
+    vi.stubGlobal('fetch', fetchMock);
+    const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+    const { Matrix4 } = await import('three');
+    const mounted = await createMountedControl({ collapsed: false, ...options });
+    mounted.mapScene.camera = { projectionMatrix: new Matrix4(), matrixWorld: new Matrix4() };
+    const preRender = mounted.mapScene.on.mock.calls.find(([event]: [string]) => event === 'preRender')[1];
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = mounted.control as any;
+    return { ...mounted, fetchMock, now, preRender, internals };
+  }
+
+  it('should preload neighboring frames and crossfade to a sought frame', async () => {
+    const { control, fetchMock, now, preRender, internals } = await createSequenceControl();
+    const layerId = await control.loadSequence(frames, { loop: false, name: 'Site' });
+    await vi.waitFor(() => expect(fetchMock).toHaveBeenCalledTimes(2));
+    expect(control.getSequenceState(layerId)).toEqual({
+      frameIndex: 0,
+      frames: [
+        { name: 'site-2024-05-06.splat', time: Date.UTC(2024, 4, 6) },
+        { name: 'site-2024-05-13.splat', time: Date.UTC(2024, 4, 13) },
+        { name: 'site-2024-05-20.splat', time: Date.UTC(2024, 4, 20) },
+      ],
+      playing: false,
+      loop: false,
+    });
+    const label = () => internals._container.querySelector('.maplibre-gl-splat-timeline-label').textContent;
+    expect(label()).toBe('2024-05-06');
+
+    const layer = internals._splatLayers.get(layerId);
+    const first = layer.mesh;
+    const onFrameChange = vi.fn();
+    control.on('framechange', onFrameChange);
+    await control.seekSequence(layerId, 2);
+    expect(layer.mesh).not.toBe(first);
+    expect(fetchMock).toHaveBeenCalledTimes(3);
+    const frame = { index: 2, name: 'site-2024-05-20.splat', time: Date.UTC(2024, 4, 20) };
+    expect(onFrameChange).toHaveBeenCalledWith(expect.objectContaining({ layerId, frame }));
+    expect(label()).toBe('2024-05-20');
+
+    // The new frame fades in over the old one, which is released once it is out of reach
+    expect(layer.mesh.opacity).toBe(0);
+    now.mockReturnValue(250);
+    preRender();
+    expect(layer.mesh.opacity).toBeCloseTo(0.5);
+    expect(first.opacity).toBeCloseTo(0.5);
+    expect(first.dispose).not.toHaveBeenCalled();
+    now.mockReturnValue(500);
+    preRender();
+    expect(layer.mesh.opacity).toBe(1);
+    expect(first.visible).toBe(false);
+    expect(first.dispose).toHaveBeenCalled();
+    expect(layer.rtcGroup.remove).toHaveBeenCalledWith(first);
+
+    await expect(control.seekSequence('missing', 0)).rejects.toThrow('Sequence not found: missing');
+    await expect(control.loadSequence([{ source: frames[0].source, time: 'someday' }])).rejects.toThrow(
+      'Invalid frame time: someday'
+    );
+  });
+
+  it('should keep crossfading frames within the share of the budget the layer gets', async () => {
+    const { control, map, now, preRender, internals } = await createSequenceControl({ maxSplats: 1000 });
+    Object.defineProperty(map.getCanvas(), 'clientWidth', { value: 200 });
+    Object.defineProperty(map.getCanvas(), 'clientHeight', { value: 100 });
+    const layerId = await control.loadSequence(frames.slice(0, 2), { loop: false });
+    const layer = internals._splatLayers.get(layerId);
+    await vi.waitFor(() => expect(layer.sequence.frames[1].mesh).not.toBeNull());
+    const first = layer.mesh;
+    const drawn = (mesh: { numSplats: number; onFrame: () => void }) => {
+      mesh.numSplats = 1000;
+      mesh.onFrame();
+      return mesh.numSplats;
+    };
+
+    await control.seekSequence(layerId, 1);
+    now.mockReturnValue(250);
+    preRender();
+    expect(drawn(layer.mesh)).toBe(500);
+    expect(drawn(first)).toBe(500);
+    expect(control.getSplatStats()).toMatchObject({ total: 2000, rendered: 1000 });
+
+    // The frame shown gets the whole share once the old one has faded out
+    now.mockReturnValue(500);
+    preRender();
+    expect(drawn(layer.mesh)).toBe(1000);
+    expect(control.getSplatStats()).toMatchObject({ total: 1000, rendered: 1000 });
+  });
+
+  it('should play through the frames and stop after the last unless looping', async () => {
+    const { control, now, preRender, internals } = await createSequenceControl();
+    const layerId = await control.loadSequence(frames.slice(0, 2), { loop: false, crossfade: 0 });
+    const sequence = internals._splatLayers.get(layerId).sequence;
+    await vi.waitFor(() => expect(sequence.frames[1].mesh).not.toBeNull());
+    const first = sequence.frames[0].mesh;
+
+    control.playSequence(layerId);
+    expect(control.getSequenceState(layerId)?.playing).toBe(true);
+    now.mockReturnValue(999);
+    preRender();
+    expect(control.getSequenceState(layerId)?.frameIndex).toBe(0);
+    now.mockReturnValue(1000);
+    preRender();
+    expect(control.getSequenceState(layerId)?.frameIndex).toBe(1);
+    expect(first.visible).toBe(false);
+    now.mockReturnValue(2000);
+    preRender();
+    expect(control.getSequenceState(layerId)).toMatchObject({ frameIndex: 1, playing: false });
+
+    // Playing from the last frame starts over
+    control.playSequence(layerId);
+    await vi.waitFor(() => expect(control.getSequenceState(layerId)?.frameIndex).toBe(0));
+
+    control.removeSplat(layerId);
+    expect(control.getSequenceState(layerId)).toBeNull();
+    expect(sequence.abortController.signal.aborted).toBe(true);
+  });
+});
+
+describe('Layer compare', () => {
+  it('should split the map between two layers along a draggable divider', async () => {
+    const { control, map, mapScene, splatId, modelId } = await createPickingControl();
+    const { Vector3 } = await vi.importActual<typeof import('three')>('three');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = control as any;
+    const preRender = mapScene.on.mock.calls.find(([event]: [string]) => event === 'preRender')[1];
+    expect(() => control.setCompare(splatId, splatId)).toThrow('Compare needs two different layers');
+    expect(() => control.setCompare('missing', splatId)).toThrow('Layer not found: missing');
+
+    control.setCompare(modelId, splatId);
+    expect(control.getCompare()).toEqual({
+      layerIdA: modelId,
+      layerIdB: splatId,
+      orientation: 'vertical',
+      position: 0.5,
+    });
+    expect(mapScene.renderer.localClippingEnabled).toBe(true);
+
+    // With an identity camera the divider is the plane x = 0: the model keeps x < 0, the splat x > 0
+    const material = internals._modelLayers.get(modelId).scene.children[0].children[0].material;
+    const [modelPlane] = material.clippingPlanes;
+    expect(modelPlane.distanceToPoint(new Vector3(-1, 0, 0))).toBeCloseTo(1);
+    const splatMesh = internals._splatLayers.get(splatId).mesh;
+    const isCompareEdit = (child: { options?: { name?: string } }) => child.options?.name === 'Compare';
+    const edit = splatMesh.children.find(isCompareEdit);
+    const [sdf] = edit.children;
+    expect(sdf.options.type).toBe('plane');
+    expect(sdf.position.x).toBeCloseTo(0);
+    expect(new Vector3(0, 0, 1).applyQuaternion(sdf.quaternion).x).toBeCloseTo(1);
+
+    // Dragging the divider to a quarter of the width moves the planes with it on the next frame
+    const container = map.getContainer();
+    container.getBoundingClientRect = () => ({ left: 0, top: 0, width: 200, height: 100 }) as DOMRect;
+    const slider = container.querySelector<HTMLElement>('.maplibre-gl-splat-compare')!;
+    expect(slider.style.left).toBe('50%');
+    slider.dispatchEvent(new MouseEvent('pointerdown'));
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 50 }));
+    window.dispatchEvent(new MouseEvent('pointerup'));
+    expect(slider.style.left).toBe('25%');
+    expect(control.getCompare()?.position).toBe(0.25);
+    // A cancelled pointer ends the drag too
+    slider.dispatchEvent(new MouseEvent('pointerdown'));
+    window.dispatchEvent(new MouseEvent('pointercancel'));
+    window.dispatchEvent(new MouseEvent('pointermove', { clientX: 150 }));
+    expect(control.getCompare()?.position).toBe(0.25);
+    preRender();
+    expect(modelPlane.distanceToPoint(new Vector3(-0.5, 0, 0))).toBeCloseTo(0);
+    expect(sdf.position.x).toBeCloseTo(-0.5);
+
+    control.setCompare(splatId, modelId, { orientation: 'horizontal' });
+    expect(control.getCompare()).toMatchObject({ layerIdA: splatId, orientation: 'horizontal', position: 0.25 });
+    expect(container.querySelectorAll('.maplibre-gl-splat-compare')).toHaveLength(1);
+    expect(container.querySelector<HTMLElement>('.maplibre-gl-splat-compare')!.style.top).toBe('25%');
+
+    // Removing a compared layer ends the compare mode
+    control.removeModel(modelId);
+    expect(control.getCompare()).toBeNull();
+    expect(material.clippingPlanes).toBeNull();
+    expect(splatMesh.children.some(isCompareEdit)).toBe(false);
+    expect(container.querySelector('.maplibre-gl-splat-compare')).toBeNull();
+  });
+});
+
+describe('Model animations', () => {
+  afterEach(() => {
+    vi.mocked(performance.now).mockRestore?.();
+  });
+
+  it('should play, retime and stop the clips of a model from the render loop', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const now = vi.spyOn(performance, 'now').mockReturnValue(0);
+    const three = await vi.importActual<typeof import('three')>('three');
+    const scene = new three.Group();
+    const blade = new three.Object3D();
+    blade.name = 'Blade';
+    scene.add(blade);
+    const track = new three.NumberKeyframeTrack('Blade.position[x]', [0, 2], [0, 2]);
+    const gltf = { scene, animations: [new three.AnimationClip('Spin', 2, [track])] };
+    const { GLTFLoader } = await import('three/addons/loaders/GLTFLoader.js');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(GLTFLoader).mockImplementationOnce(() => ({ parseAsync: vi.fn().mockResolvedValue(gltf) }) as any);
+    const { control, mapScene } = await createMountedControl({ collapsed: false });
+    const preRender = mapScene.on.mock.calls.find(([event]: [string]) => event === 'preRender')[1];
+    const layerId = await control.loadModel('https://example.com/windmill.glb');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = control as any;
+    const button = () => internals._container.querySelector('[title^="Play animation"], [title="Stop animation"]');
+
+    expect(control.listAnimations(layerId)).toEqual([{ name: 'Spin', duration: 2, playing: false }]);
+    expect(button().title).toBe('Play animation (Spin)');
+    button().click();
+    expect(control.listAnimations(layerId)[0].playing).toBe(true);
+    expect(button().title).toBe('Stop animation');
+    preRender();
+    now.mockReturnValue(1000);
+    preRender();
+    expect(blade.position.x).toBeCloseTo(1);
+
+    // Played again at double speed without looping, the clip holds its last frame
+    control.playAnimation(layerId, 'Spin', { speed: 2, loop: false });
+    now.mockReturnValue(1600);
+    preRender();
+    expect(blade.position.x).toBe(2);
+    expect(control.listAnimations(layerId)[0].playing).toBe(false);
+    expect(button().title).toBe('Play animation (Spin)');
+
+    control.stopAnimation(layerId);
+    expect(blade.position.x).toBe(0);
+    expect(() => control.playAnimation(layerId, 'Walk')).toThrow('Animation not found: Walk');
+    expect(() => control.playAnimation('missing', 'Spin')).toThrow('Layer not found: missing');
+    expect(control.listAnimations('missing')).toEqual([]);
+  });
+});
+
+describe('Scene lighting', () => {
+  it('should start with the default lights and merge lighting changes', async () => {
+    const { control, mapScene } = await createMountedControl({ lighting: { ambient: { intensity: 0.4 } } });
+    const lights = () => mapScene.addLight.mock.calls.map(([light]: [{ type?: string }]) => light.type);
+    expect(lights()).toEqual(['AmbientLight', 'HemisphereLight', 'DirectionalLight', 'Object3D']);
+    expect(control.getLighting()).toMatchObject({
+      ambient: { color: 0xffffff, intensity: 0.4 },
+      directional: [{ intensity: 0.5, azimuth: 0, elevation: 0 }],
+      sun: null,
+      shadows: false,
+    });
+
+    await control.setLighting({ ambient: { color: '#ffeedd' }, hemisphere: { intensity: 0.6 }, directional: [] });
+    expect(control.getLighting()).toMatchObject({
+      ambient: { color: '#ffeedd', intensity: 0.4 },
+      hemisphere: { intensity: 0.6 },
+      directional: [],
+    });
+    expect(mapScene.removeLight).toHaveBeenCalledWith(expect.objectContaining({ type: 'DirectionalLight' }));
+    await expect(control.setLighting({ sun: { date: 'someday' } })).rejects.toThrow('Invalid sun date: someday');
+  });
+
+  it('should place the sun from a date and fit its shadow camera around the models', async () => {
+    const { control, mapScene, modelId } = await createPickingControl();
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const internals = control as any;
+    const sunLight = () => mapScene.addLight.mock.calls.map(([light]: [unknown]) => light).at(-2);
+
+    // Midsummer noon at Greenwich: the sun is high in the south
+    await control.setLighting({
+      directional: [],
+      sun: { date: '2024-06-21T12:00:00Z', longitude: 0, latitude: 51.48 },
+      shadows: true,
+    });
+    const sun = sunLight();
+    expect(sun.castShadow).toBe(true);
+    expect(mapScene.renderer.shadowMap.enabled).toBe(true);
+    const mesh = internals._modelLayers.get(modelId).scene.children[0].children[0];
+    expect(mesh.castShadow).toBe(true);
+    expect(mesh.receiveShadow).toBe(true);
+
+    const direction = sun.position.clone().sub(sun.target.position).normalize();
+    expect(direction.x).toBeCloseTo(0, 1);
+    expect(direction.y).toBeLessThan(0);
+    expect(Math.asin(direction.z) * (180 / Math.PI)).toBeCloseTo(62, 0);
+    // The model's box sits at z 5 to 5.2 in its group; the light looks at its center
+    expect(sun.target.position.z).toBeCloseTo(5.1);
+    expect(sun.shadow.camera.right).toBeGreaterThan(0.1);
+    expect(sun.intensity).toBe(1);
+
+    // The sun has set by midnight
+    await control.setLighting({ sun: { date: '2024-06-21T23:00:00Z', longitude: 0, latitude: 51.48 } });
+    expect(sunLight().intensity).toBe(0);
+
+    await control.setLighting({ shadows: false });
+    expect(mapScene.renderer.shadowMap.enabled).toBe(false);
+    expect(mesh.castShadow).toBe(false);
+  });
+});
+
+describe('Layer disposal', () => {
+  it('should dispose what a removed layer owns and keep textures other layers share', async () => {
+    vi.stubGlobal('fetch', vi.fn(async () => new Response(new Uint8Array(32))));
+    const three = await vi.importActual<typeof import('three')>('three');
+    const shared = new three.Texture();
+    shared.image = { width: 16, height: 16 };
+    const createScene = () => {
+      const scene = new three.Group();
+      const material = new three.MeshStandardMaterial({ map: shared });
+      scene.add(new three.Mesh(new three.BoxGeometry(), material));
+      return scene;
+    };
+    const scenes = [createScene(), createScene()];
+    const parseAsync = vi.fn().mockResolvedValueOnce({ scene: scenes[0] }).mockResolvedValueOnce({ scene: scenes[1] });
+    const { GLTFLoader } = await import('three/addons/loaders/GLTFLoader.js');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    vi.mocked(GLTFLoader).mockImplementationOnce(() => ({ parseAsync }) as any);
+    const { control, mapScene } = await createMountedControl();
+    const first = await control.loadModel('https://example.com/a.glb');
+    const second = await control.loadModel('https://example.com/b.glb');
+    const splatId = await control.loadSplat('https://example.com/scene.splat');
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const splatMesh = (control as any)._splatLayers.get(splatId).mesh;
+    splatMesh.packedSplats = { packedArray: new Uint32Array(100), extra: {} };
+
+    // Each box holds 24 vertices with positions, normals and uvs, and 36 16-bit indices
+    const box = 24 * (3 + 3 + 2) * 4 + 36 * 2;
+    const texture = { gpu: Math.round(16 * 16 * 4 * (4 / 3)), cpu: 16 * 16 * 4 };
+    const stats = control.getMemoryStats();
+    expect(stats.layers[first]).toEqual({ gpuBytes: box + texture.gpu, cpuBytes: box + texture.cpu });
+    expect(stats.layers[splatId]).toEqual({ gpuBytes: 400, cpuBytes: 400 });
+    expect(stats.gpuBytes).toBe(2 * box + texture.gpu + 400);
+    expect(stats.cpuBytes).toBe(2 * box + texture.cpu + 400);
+
+    const [mesh] = scenes[0].children as import('three').Mesh[];
+    const onDispose = { geometry: vi.fn(), material: vi.fn(), texture: vi.fn() };
+    mesh.geometry.addEventListener('dispose', onDispose.geometry);
+    (mesh.material as import('three').Material).addEventListener('dispose', onDispose.material);
+    shared.addEventListener('dispose', onDispose.texture);
+    control.removeModel(first);
+    expect(mapScene.removeObject).toHaveBeenCalled();
+    expect(onDispose.geometry).toHaveBeenCalledTimes(1);
+    expect(onDispose.material).toHaveBeenCalledTimes(1);
+    expect(onDispose.texture).not.toHaveBeenCalled();
+    control.removeModel(second);
+    expect(onDispose.texture).toHaveBeenCalledTimes(1);
+
+    control.removeSplat(splatId);
+    expect(splatMesh.dispose).toHaveBeenCalled();
+    expect(control.getMemoryStats()).toEqual({ gpuBytes: 0, cpuBytes: 0, layers: {} });
+  });
+});
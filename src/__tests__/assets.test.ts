@@ -0,0 +1,73 @@
+import { describe, it, expect } from 'vitest';
+import {
+  detectAssetFormat,
+  getFilenameFromContentDisposition,
+  getFormatFromBytes,
+  getFormatFromName,
+  getSourceName,
+  isModelFormat,
+  toSplatFileType,
+} from '../lib/utils/assets';
+
+const bytesOf = (...parts: Array<string | number[]>) => {
+  const arrays = parts.map((part) => (typeof part === 'string' ? new TextEncoder().encode(part) : new Uint8Array(part)));
+  const out = new Uint8Array(arrays.reduce((n, a) => n + a.length, 0));
+  let offset = 0;
+  for (const a of arrays) {
+    out.set(a, offset);
+    offset += a.length;
+  }
+  return out.buffer;
+};
+
+describe('asset helpers', () => {
+  it('should infer the format from URLs and file names', () => {
+    expect(getFormatFromName('https://example.com/a/scene.SPZ?sig=abc')).toBe('spz');
+    expect(getFormatFromName('model.glb')).toBe('glb');
+    expect(getFormatFromName('https://example.com/download')).toBeNull();
+    expect(getFormatFromName('')).toBeNull();
+  });
+
+  it('should use the original file name for local files', () => {
+    const file = new File([new Uint8Array(4)], 'capture.ply');
+    expect(getSourceName(file)).toBe('capture.ply');
+    expect(getSourceName('https://example.com/splats/garden.splat')).toBe('garden.splat');
+    expect(getSourceName(new ArrayBuffer(4))).toBe('');
+  });
+
+  it('should map formats to loaders', () => {
+    expect(isModelFormat('gltf')).toBe(true);
+    expect(isModelFormat('ply')).toBe(false);
+    expect(toSplatFileType('sog')).toBe('pcsogszip');
+    expect(toSplatFileType('glb')).toBeUndefined();
+  });
+});
+
+describe('format detection', () => {
+  it('should recognize file signatures', () => {
+    expect(getFormatFromBytes(bytesOf('glTF', [2, 0, 0, 0]))).toBe('glb');
+    expect(getFormatFromBytes(bytesOf('  {"asset":{"version":"2.0"}}'))).toBe('gltf');
+    expect(getFormatFromBytes(bytesOf('ply\nformat binary_little_endian 1.0\n'))).toBe('ply');
+    expect(getFormatFromBytes(bytesOf([0x1f, 0x8b, 0x08, 0x00]))).toBe('spz');
+    expect(getFormatFromBytes(bytesOf('PK', [3, 4]))).toBe('sog');
+    expect(getFormatFromBytes(bytesOf([0, 0, 0, 0]))).toBeNull();
+  });
+
+  it('should fall back to Content-Type and then the file name', () => {
+    const data = bytesOf([0, 0, 0, 0]);
+    expect(detectAssetFormat(data, { contentType: 'model/gltf-binary; charset=binary' })).toBe('glb');
+    expect(detectAssetFormat(data, { contentType: 'application/octet-stream', name: 'scene.splat' })).toBe('splat');
+  });
+
+  it('should list what was tried when the format is unknown', () => {
+    expect(() => detectAssetFormat(bytesOf([0, 0, 0, 0]), { contentType: 'application/octet-stream' })).toThrow(
+      /glb, gltf, ply, spz, sog, ksplat.*application\/octet-stream/
+    );
+  });
+
+  it('should read file names from Content-Disposition', () => {
+    expect(getFilenameFromContentDisposition('attachment; filename="site.spz"')).toBe('site.spz');
+    expect(getFilenameFromContentDisposition("attachment; filename*=UTF-8''caf%C3%A9.ply")).toBe('café.ply');
+    expect(getFilenameFromContentDisposition(null)).toBeNull();
+  });
+});
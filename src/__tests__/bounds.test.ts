@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import { convexHull, trimmedBounds } from '../lib/utils/bounds';
+import type { Vec3 } from '../lib/utils/georeference';
+
+describe('trimmedBounds', () => {
+  it('should bound all points when not trimming', () => {
+    const points: Vec3[] = [
+      [0, 5, -1],
+      [2, -3, 4],
+      [1, 0, 0],
+    ];
+    expect(trimmedBounds(points, 0)).toEqual({ min: [0, -3, -1], max: [2, 5, 4] });
+  });
+
+  it('should leave out far floaters', () => {
+    const points: Vec3[] = Array.from({ length: 999 }, (_, i) => [i / 998, 0, 0] as Vec3);
+    points.push([1000, 0, 0]);
+    const bounds = trimmedBounds(points);
+    expect(bounds?.max[0]).toBeLessThanOrEqual(1);
+    expect(bounds?.min[0]).toBeCloseTo(0.01, 2);
+  });
+
+  it('should return null without points', () => {
+    expect(trimmedBounds([])).toBeNull();
+  });
+});
+
+describe('convexHull', () => {
+  it('should keep the corners and drop inner and collinear points', () => {
+    const hull = convexHull([
+      [0, 0],
+      [1, 1],
+      [2, 0],
+      [1, 0],
+      [2, 2],
+      [0, 2],
+      [0, 2],
+    ]);
+    expect(hull).toEqual([
+      [0, 0],
+      [2, 0],
+      [2, 2],
+      [0, 2],
+    ]);
+  });
+});
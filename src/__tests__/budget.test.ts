@@ -0,0 +1,61 @@
+import { describe, it, expect } from 'vitest';
+import { allocateSplatBudget, interleavedOrder } from '../lib/utils/budget';
+
+describe('allocateSplatBudget', () => {
+  it('should split the budget in proportion to the weights', () => {
+    const allocation = allocateSplatBudget(
+      [
+        { id: 'a', total: 1000, weight: 1 },
+        { id: 'b', total: 1000, weight: 3 },
+      ],
+      800
+    );
+    expect(allocation.get('a')).toBe(200);
+    expect(allocation.get('b')).toBe(600);
+  });
+
+  it('should hand the unused share of small layers to the others', () => {
+    const allocation = allocateSplatBudget(
+      [
+        { id: 'small', total: 100, weight: 1 },
+        { id: 'large', total: 5000, weight: 1 },
+      ],
+      1000
+    );
+    expect(allocation.get('small')).toBe(100);
+    expect(allocation.get('large')).toBe(900);
+  });
+
+  it('should give every layer all its splats within an unlimited budget', () => {
+    const allocation = allocateSplatBudget(
+      [
+        { id: 'a', total: 1234, weight: 0.5 },
+        { id: 'b', total: 99, weight: 20 },
+      ],
+      Infinity
+    );
+    expect(allocation.get('a')).toBe(1234);
+    expect(allocation.get('b')).toBe(99);
+  });
+});
+
+describe('interleavedOrder', () => {
+  it('should visit every item once', () => {
+    expect([...interleavedOrder(8)]).toEqual([0, 4, 2, 6, 1, 5, 3, 7]);
+    expect([...interleavedOrder(1000)].sort((a, b) => a - b)).toEqual([...Array(1000).keys()]);
+    expect([...interleavedOrder(0)]).toEqual([]);
+    expect([...interleavedOrder(1)]).toEqual([0]);
+  });
+
+  it('should spread every leading run over all items', () => {
+    const order = interleavedOrder(1000);
+    for (const length of [10, 100, 250, 600]) {
+      const picked = [...order.subarray(0, length)].sort((a, b) => a - b);
+      const gaps = picked.slice(1).map((index, i) => index - picked[i]);
+      // Never more than twice the even spacing apart, from one end to the other
+      expect(Math.max(...gaps)).toBeLessThanOrEqual((2 * 1000) / length);
+      expect(picked[0]).toBe(0);
+      expect(picked[length - 1]).toBeGreaterThanOrEqual(1000 - (2 * 1000) / length);
+    }
+  });
+});
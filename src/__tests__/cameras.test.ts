@@ -0,0 +1,155 @@
+import { describe, it, expect } from 'vitest';
+import {
+  frustumDepth,
+  frustumSegments,
+  parseCaptureCameras,
+  parseColmapImages,
+  parseNerfstudioTransforms,
+  viewRotation,
+} from '../lib/utils/cameras';
+
+describe('parseNerfstudioTransforms', () => {
+  it('should read camera-to-world poses looking down -z, with shared or per-frame intrinsics', () => {
+    const cameras = parseNerfstudioTransforms({
+      fl_x: 500,
+      fl_y: 500,
+      w: 1000,
+      h: 500,
+      frames: [
+        {
+          file_path: 'images/frame_00001.jpg',
+          transform_matrix: [
+            [1, 0, 0, 1],
+            [0, 1, 0, 2],
+            [0, 0, 1, 3],
+            [0, 0, 0, 1],
+          ],
+        },
+        {
+          file_path: 'images/frame_00002.jpg',
+          h: 1000,
+          // Looking along +x, with +z up
+          transform_matrix: [
+            [0, 0, -1, 0],
+            [-1, 0, 0, 0],
+            [0, 1, 0, 0],
+            [0, 0, 0, 1],
+          ],
+        },
+      ],
+    });
+
+    expect(cameras[0]).toEqual({
+      name: 'images/frame_00001.jpg',
+      position: [1, 2, 3],
+      forward: [-0, -0, -1],
+      up: [0, 1, 0],
+      aspect: 2,
+      fov: expect.closeTo(53.13, 2),
+    });
+    expect(cameras[1].forward).toEqual([1, -0, -0]);
+    expect(cameras[1].up).toEqual([0, 0, 1]);
+    expect(cameras[1].aspect).toBe(1);
+    expect(cameras[1].fov).toBeCloseTo(90, 6);
+  });
+
+  it('should derive the vertical field of view from camera_angle_x', () => {
+    const [camera] = parseNerfstudioTransforms({
+      camera_angle_x: Math.PI / 2,
+      frames: [{ transform_matrix: [[1, 0, 0, 0], [0, 1, 0, 0], [0, 0, 1, 0]] }],
+    });
+    expect(camera.name).toBe('frame 0');
+    expect(camera.fov).toBeCloseTo(90, 6);
+    expect(camera.aspect).toBeUndefined();
+  });
+});
+
+describe('parseColmapImages', () => {
+  it('should read world-to-camera poses, skipping point lines, and intrinsics from cameras.txt', () => {
+    const s = Math.SQRT1_2;
+    const images = [
+      '# Image list with two lines of data per image:',
+      '#   IMAGE_ID, QW, QX, QY, QZ, TX, TY, TZ, CAMERA_ID, NAME',
+      '1 1 0 0 0 -1 -2 -3 1 photo one.jpg',
+      '10.5 20.5 -1 11 12 -1 1 2 3 4 5 6 7 8 9 10',
+      // 90° about y: the camera looks along -x in the world
+      `2 ${s} 0 ${s} 0 0 0 0 2 photo2.jpg`,
+      '',
+    ].join('\n');
+    const cameras = '1 PINHOLE 800 600 450 450 400 300\n2 SIMPLE_RADIAL 600 600 300 300 300 0.01\n';
+
+    const [first, second] = parseColmapImages(images, cameras);
+
+    expect(first).toEqual({
+      name: 'photo one.jpg',
+      position: [1, 2, 3],
+      forward: [0, 0, 1],
+      up: [-0, -1, -0],
+      fov: expect.closeTo(67.38, 2),
+      aspect: 800 / 600,
+    });
+    expect(second.forward).toEqual([expect.closeTo(-1, 9), expect.closeTo(0, 9), expect.closeTo(0, 9)]);
+    expect(second.fov).toBeCloseTo(90, 6);
+  });
+
+  it('should handle images without points', () => {
+    const images = '1 1 0 0 0 0 0 0 1 a.jpg\n\n2 1 0 0 0 0 0 1 1 b.jpg\n\n';
+    expect(parseColmapImages(images).map((c) => c.name)).toEqual(['a.jpg', 'b.jpg']);
+  });
+});
+
+describe('parseCaptureCameras', () => {
+  it('should detect the file format and reject files without poses', () => {
+    expect(parseCaptureCameras('{"frames": [{"transform_matrix": [[1,0,0,0],[0,1,0,0],[0,0,1,0]]}]}')).toHaveLength(1);
+    expect(parseCaptureCameras('1 1 0 0 0 0 0 0 1 a.jpg\n\n')).toHaveLength(1);
+    expect(() => parseCaptureCameras('{"frames": []}')).toThrow('No camera poses found');
+    expect(() => parseCaptureCameras('hello')).toThrow('No camera poses found');
+  });
+});
+
+describe('viewRotation', () => {
+  it('should give bearing, pitch and roll in MapLibre terms', () => {
+    const level = viewRotation([0, 1, 0], [0, 0, 1]);
+    expect(level.bearing).toBeCloseTo(0, 9);
+    expect(level.pitch).toBeCloseTo(90, 9);
+    expect(level.roll).toBeCloseTo(0, 9);
+
+    const down = viewRotation([1, 0, -1], [1, 0, 1]);
+    expect(down.bearing).toBeCloseTo(90, 9);
+    expect(down.pitch).toBeCloseTo(45, 9);
+    expect(down.roll).toBeCloseTo(0, 9);
+
+    // Looking north with the top of the image tilted west: rolled counter-clockwise
+    expect(viewRotation([0, 1, 0], [-1, 0, 1]).roll).toBeCloseTo(45, 9);
+
+    // Straight down, the top of the image points the way the map is rotated
+    const nadir = viewRotation([0, 0, -1], [1, 0, 0]);
+    expect(nadir).toEqual({ bearing: 90, pitch: 0, roll: 0 });
+  });
+});
+
+describe('frustum geometry', () => {
+  it('should outline the view with an up marker', () => {
+    const camera = {
+      name: 'a',
+      position: [0, 0, 0] as [number, number, number],
+      forward: [0, 0, -1] as [number, number, number],
+      up: [0, 1, 0] as [number, number, number],
+      fov: 90,
+      aspect: 2,
+    };
+    const segments = frustumSegments(camera, 1);
+    expect(segments).toHaveLength(20);
+    // Top left corner, then the top edge
+    expect(segments[1]).toEqual([expect.closeTo(-2, 9), expect.closeTo(1, 9), -1]);
+    expect(segments[3]).toEqual([expect.closeTo(2, 9), expect.closeTo(1, 9), -1]);
+  });
+
+  it('should scale frusta to the spacing of the cameras', () => {
+    const at = (x: number) => ({ name: '', position: [x, 0, 0], forward: [0, 0, 1], up: [0, 1, 0] }) as const;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(frustumDepth([at(0), at(2), at(4), at(10)] as any)).toBe(1);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    expect(frustumDepth([at(0)] as any)).toBe(1);
+  });
+});
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { colorAdjustmentsToAffine, isNeutralColorAdjustments, NEUTRAL_COLOR_ADJUSTMENTS } from '../lib/utils/color';
+
+type Vec3 = [number, number, number];
+
+const apply = (adjustments: Partial<typeof NEUTRAL_COLOR_ADJUSTMENTS>, rgb: Vec3): Vec3 => {
+  const { matrix, offset } = colorAdjustmentsToAffine({ ...NEUTRAL_COLOR_ADJUSTMENTS, ...adjustments });
+  const row = (i: number) => matrix[i * 3] * rgb[0] + matrix[i * 3 + 1] * rgb[1] + matrix[i * 3 + 2] * rgb[2] + offset[i];
+  return [row(0), row(1), row(2)];
+};
+
+const expectVec = (actual: Vec3, expected: Vec3) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 9));
+};
+
+describe('colorAdjustmentsToAffine', () => {
+  it('should leave colors unchanged when neutral', () => {
+    expectVec(apply({}, [0.2, 0.5, 0.9]), [0.2, 0.5, 0.9]);
+    expect(isNeutralColorAdjustments(NEUTRAL_COLOR_ADJUSTMENTS)).toBe(true);
+    expect(isNeutralColorAdjustments({ ...NEUTRAL_COLOR_ADJUSTMENTS, tint: 0.1 })).toBe(false);
+  });
+
+  it('should double colors per stop of exposure and offset them by brightness', () => {
+    expectVec(apply({ exposure: 1 }, [0.1, 0.2, 0.3]), [0.2, 0.4, 0.6]);
+    expectVec(apply({ brightness: 0.1 }, [0.1, 0.2, 0.3]), [0.2, 0.3, 0.4]);
+  });
+
+  it('should scale contrast about mid gray', () => {
+    expectVec(apply({ contrast: 1 }, [0.5, 0.25, 1]), [0.5, 0, 1.5]);
+    expectVec(apply({ contrast: -1 }, [0.1, 0.7, 0.9]), [0.5, 0.5, 0.5]);
+  });
+
+  it('should desaturate to luma and shift tint between green and magenta', () => {
+    const [r, g, b] = apply({ saturation: -1 }, [1, 0, 0]);
+    expect(r).toBeCloseTo(0.2126, 9);
+    expect(g).toBeCloseTo(0.2126, 9);
+    expect(b).toBeCloseTo(0.2126, 9);
+
+    const magenta = apply({ tint: 0.6 }, [0.5, 0.5, 0.5]);
+    expect(magenta[0]).toBeGreaterThan(0.5);
+    expect(magenta[1]).toBeLessThan(0.5);
+    expect(magenta[2]).toBeCloseTo(magenta[0], 9);
+  });
+});
@@ -0,0 +1,54 @@
+import { describe, it, expect } from 'vitest';
+import { polygonToBoxes, type PlanarBox } from '../lib/utils/crop';
+
+const area = (boxes: PlanarBox[]) => boxes.reduce((sum, b) => sum + b.size[0] * b.size[1], 0);
+
+describe('polygonToBoxes', () => {
+  it('should cover a rectangle with a single box', () => {
+    const boxes = polygonToBoxes([
+      [-2, -1],
+      [4, -1],
+      [4, 3],
+      [-2, 3],
+      [-2, -1],
+    ]);
+    expect(boxes).toEqual([{ center: [1, 1], size: [6, 4] }]);
+  });
+
+  it('should follow the notch of a concave polygon', () => {
+    // A U shape: 3 wide, 2 tall, with a 1x1 notch cut from the top middle
+    const boxes = polygonToBoxes([
+      [0, 0],
+      [3, 0],
+      [3, 2],
+      [2, 2],
+      [2, 1],
+      [1, 1],
+      [1, 2],
+      [0, 2],
+    ]);
+    expect(area(boxes)).toBeCloseTo(5, 9);
+    expect(boxes.filter((b) => b.center[1] > 1)).toHaveLength(2);
+  });
+
+  it('should approximate slanted edges with strips', () => {
+    const triangle: [number, number][] = [
+      [0, 0],
+      [10, 0],
+      [0, 10],
+    ];
+    const boxes = polygonToBoxes(triangle, 50);
+    expect(boxes).toHaveLength(50);
+    expect(area(boxes)).toBeCloseTo(50, 6);
+    for (const box of boxes) expect(box.size[1]).toBeCloseTo(0.2, 9);
+  });
+
+  it('should ignore degenerate polygons', () => {
+    expect(
+      polygonToBoxes([
+        [0, 0],
+        [1, 1],
+      ])
+    ).toEqual([]);
+  });
+});
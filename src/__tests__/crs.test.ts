@@ -0,0 +1,82 @@
+import { describe, it, expect, vi } from 'vitest';
+import { ecefToWgs84, registerCrs, registerProj4, toWgs84 } from '../lib/utils/crs';
+
+// WGS84 ellipsoid
+const A = 6378137;
+const E2 = (1 / 298.257223563) * (2 - 1 / 298.257223563);
+
+const wgs84ToEcef = (lng: number, lat: number, height: number): [number, number, number] => {
+  const phi = (lat * Math.PI) / 180;
+  const lambda = (lng * Math.PI) / 180;
+  const n = A / Math.sqrt(1 - E2 * Math.sin(phi) ** 2);
+  return [
+    (n + height) * Math.cos(phi) * Math.cos(lambda),
+    (n + height) * Math.cos(phi) * Math.sin(lambda),
+    (n * (1 - E2) + height) * Math.sin(phi),
+  ];
+};
+
+// Meridian arc length from the equator, by Simpson integration
+const meridianArc = (lat: number): number => {
+  const steps = 1000;
+  const end = (lat * Math.PI) / 180;
+  const f = (phi: number) => (A * (1 - E2)) / (1 - E2 * Math.sin(phi) ** 2) ** 1.5;
+  let sum = f(0) + f(end);
+  for (let i = 1; i < steps; i++) sum += (i % 2 ? 4 : 2) * f((end * i) / steps);
+  return (sum * end) / (3 * steps);
+};
+
+describe('toWgs84', () => {
+  it('should convert UTM coordinates on the central meridian', () => {
+    const [lng, lat, height] = toWgs84('EPSG:32633', [500000, 0.9996 * meridianArc(48), 120]);
+    expect(lng).toBeCloseTo(15, 9);
+    expect(lat).toBeCloseTo(48, 8);
+    expect(height).toBe(120);
+  });
+
+  it('should convert southern hemisphere UTM zones and normalize codes', () => {
+    const [lng, lat] = toWgs84('urn:ogc:def:crs:EPSG::32756', [500000, 10000000 - 0.9996 * meridianArc(33.8)]);
+    expect(lng).toBeCloseTo(153, 9);
+    expect(lat).toBeCloseTo(-33.8, 8);
+    expect(toWgs84('epsg:32633', [500000, 0])[0]).toBeCloseTo(15, 9);
+  });
+
+  it('should convert off-meridian UTM coordinates', () => {
+    // 100 km east of the central meridian on the equator
+    const [lng, lat] = toWgs84('EPSG:32631', [600000, 0]);
+    expect(lng).toBeCloseTo(3.8983, 3);
+    expect(lat).toBeCloseTo(0, 9);
+  });
+
+  it('should convert ECEF vectors', () => {
+    const [lng, lat, height] = ecefToWgs84(wgs84ToEcef(-122.4194, 37.7749, 52.5));
+    expect(lng).toBeCloseTo(-122.4194, 9);
+    expect(lat).toBeCloseTo(37.7749, 9);
+    expect(height).toBeCloseTo(52.5, 4);
+
+    const pole = toWgs84('EPSG:4978', [0, 0, A * Math.sqrt(1 - E2) + 10]);
+    expect(pole[1]).toBeCloseTo(90, 9);
+    expect(pole[2]).toBeCloseTo(10, 4);
+  });
+
+  it('should convert Web Mercator meters', () => {
+    const [lng, lat] = toWgs84('EPSG:3857', [20037508.342789244 / 2, 0]);
+    expect(lng).toBeCloseTo(90, 9);
+    expect(lat).toBeCloseTo(0, 9);
+  });
+
+  it('should use registered converters and proj4 definitions', () => {
+    registerCrs('EPSG:99999', ([x, y, z]) => [x / 1000, y / 1000, z]);
+    expect(toWgs84('EPSG:99999', [10000, 20000, 3])).toEqual([10, 20, 3]);
+
+    expect(() => toWgs84('EPSG:2227', [6000000, 2100000])).toThrow('Unknown CRS "EPSG:2227"');
+    const proj4 = Object.assign(
+      vi.fn(() => [-122.4, 37.8]),
+      { defs: vi.fn((code: string) => (code === 'EPSG:2227' ? {} : undefined)) }
+    );
+    registerProj4(proj4);
+    expect(toWgs84('EPSG:2227', [6000000, 2100000, 30])).toEqual([-122.4, 37.8, 30]);
+    expect(proj4).toHaveBeenCalledWith('EPSG:2227', 'EPSG:4326', [6000000, 2100000]);
+    registerProj4(null);
+  });
+});
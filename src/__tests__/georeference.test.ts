@@ -0,0 +1,86 @@
+import { describe, it, expect } from 'vitest';
+import {
+  enuToLngLatAlt,
+  lngLatAltToEnu,
+  rotationMatrixToEuler,
+  solveSimilarityTransform,
+  type Vec3,
+} from '../lib/utils/georeference';
+
+// 30° about z followed by the fixture scale and offset
+const cos = Math.cos(Math.PI / 6);
+const sin = Math.sin(Math.PI / 6);
+const transformPoint = ([x, y, z]: Vec3): Vec3 => [
+  2.5 * (cos * x - sin * y) + 100,
+  2.5 * (sin * x + cos * y) - 50,
+  2.5 * z + 12,
+];
+const source: Vec3[] = [
+  [0, 0, 0],
+  [10, 0, 0],
+  [0, 8, 0],
+  [3, 4, 5],
+];
+
+describe('solveSimilarityTransform', () => {
+  it('should recover rotation, scale and translation from matching points', () => {
+    const fit = solveSimilarityTransform(source, source.map(transformPoint));
+
+    expect(fit.scale).toBeCloseTo(2.5, 9);
+    expect(fit.translation[0]).toBeCloseTo(100, 6);
+    expect(fit.translation[1]).toBeCloseTo(-50, 6);
+    expect(fit.translation[2]).toBeCloseTo(12, 6);
+    const [rx, ry, rz] = rotationMatrixToEuler(fit.rotation);
+    expect(rx).toBeCloseTo(0, 6);
+    expect(ry).toBeCloseTo(0, 6);
+    expect(rz).toBeCloseTo(30, 6);
+    expect(fit.rmse).toBeLessThan(1e-6);
+  });
+
+  it('should report the largest residual on a bad pick', () => {
+    const target = source.map(transformPoint);
+    target[3] = [target[3][0] + 4, target[3][1], target[3][2]];
+
+    const fit = solveSimilarityTransform(source, target);
+
+    const worst = fit.residuals.indexOf(Math.max(...fit.residuals));
+    expect(worst).toBe(3);
+    expect(fit.rmse).toBeGreaterThan(0.5);
+  });
+
+  it('should reject too few or coincident points', () => {
+    expect(() => solveSimilarityTransform(source.slice(0, 2), source.slice(0, 2))).toThrow('At least three');
+    const same: Vec3[] = [
+      [1, 1, 1],
+      [1, 1, 1],
+      [1, 1, 1],
+    ];
+    expect(() => solveSimilarityTransform(same, source.slice(0, 3))).toThrow('same position');
+  });
+
+  it('should reject collinear and nearly collinear points', () => {
+    const line: Vec3[] = [
+      [0, 0, 0],
+      [1, 2, 3],
+      [2, 4, 6],
+      [5, 10, 15],
+    ];
+    expect(() => solveSimilarityTransform(line, source.slice(0, 4))).toThrow('on one line');
+    const nearLine = line.map(([x, y, z], i): Vec3 => [x, y + (i === 1 ? 1e-4 : 0), z]);
+    expect(() => solveSimilarityTransform(nearLine, source.slice(0, 4))).toThrow('on one line');
+  });
+});
+
+describe('local tangent plane', () => {
+  it('should round-trip between lng/lat/alt and east/north/up meters', () => {
+    const reference: [number, number] = [-122.4194, 37.7749];
+    const enu = lngLatAltToEnu(reference, [-122.4184, 37.7759, 30]);
+
+    expect(enu[0]).toBeCloseTo(87.9, 0);
+    expect(enu[1]).toBeCloseTo(111.2, 0);
+    const [lng, lat, alt] = enuToLngLatAlt(reference, enu);
+    expect(lng).toBeCloseTo(-122.4184, 9);
+    expect(lat).toBeCloseTo(37.7759, 9);
+    expect(alt).toBe(30);
+  });
+});
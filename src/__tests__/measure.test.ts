@@ -0,0 +1,65 @@
+import { describe, it, expect } from 'vitest';
+import { formatMeasurement, measurementsToGeoJSON, measurePoints } from '../lib/utils/measure';
+import { enuToLngLatAlt, type Vec3 } from '../lib/utils/georeference';
+
+const origin: [number, number] = [-122.4194, 37.7749];
+const at = (east: number, north: number, up: number): Vec3 => enuToLngLatAlt(origin, [east, north, up]);
+
+describe('measurePoints', () => {
+  it('should measure the 3D length of a path', () => {
+    expect(measurePoints('distance', [at(0, 0, 10), at(3, 4, 10)])).toBeCloseTo(5, 3);
+    expect(measurePoints('distance', [at(0, 0, 0), at(3, 4, 12)])).toBeCloseTo(13, 3);
+    expect(measurePoints('distance', [at(0, 0, 0), at(10, 0, 0), at(10, 10, 0)])).toBeCloseTo(20, 3);
+  });
+
+  it('should measure the height between the first and last points', () => {
+    expect(measurePoints('height', [at(0, 0, 12.5), at(30, 40, 2)])).toBeCloseTo(10.5, 6);
+  });
+
+  it('should measure the area of level and tilted polygons', () => {
+    expect(measurePoints('area', [at(0, 0, 5), at(20, 0, 5), at(20, 10, 5), at(0, 10, 5)])).toBeCloseTo(200, 1);
+    // A 6 m by 4 m façade facing north
+    expect(measurePoints('area', [at(0, 0, 0), at(6, 0, 0), at(6, 0, 4), at(0, 0, 4)])).toBeCloseTo(24, 2);
+  });
+
+  it('should measure nothing with too few points', () => {
+    expect(measurePoints('distance', [at(0, 0, 0)])).toBe(0);
+    expect(measurePoints('area', [])).toBe(0);
+  });
+});
+
+describe('formatMeasurement', () => {
+  it('should format meters with fewer decimals as values grow', () => {
+    expect(formatMeasurement(3.4167, 'distance', 'metric')).toBe('3.42 m');
+    expect(formatMeasurement(123.45, 'height', 'metric')).toBe('123.5 m');
+    expect(formatMeasurement(1250.4, 'area', 'metric')).toBe('1,250 m²');
+  });
+
+  it('should convert to feet and square feet', () => {
+    expect(formatMeasurement(3.048, 'distance', 'imperial')).toBe('10.0 ft');
+    expect(formatMeasurement(0.09290304, 'area', 'imperial')).toBe('1.00 ft²');
+  });
+});
+
+describe('measurementsToGeoJSON', () => {
+  it('should export lines and closed polygons with altitudes', () => {
+    const { features } = measurementsToGeoJSON(
+      [
+        { id: 'measure-0', mode: 'height', points: [[1, 2, 3], [1, 2, 13]], value: 10 },
+        { id: 'measure-1', mode: 'area', points: [[0, 0, 1], [1, 0, 1], [1, 1, 1]], value: 6.2e9 },
+      ],
+      'imperial'
+    );
+
+    expect(features[0]).toMatchObject({
+      id: 'measure-0',
+      properties: { mode: 'height', value: 10, unit: 'm', label: '32.8 ft' },
+      geometry: { type: 'LineString', coordinates: [[1, 2, 3], [1, 2, 13]] },
+    });
+    expect(features[1].geometry).toEqual({
+      type: 'Polygon',
+      coordinates: [[[0, 0, 1], [1, 0, 1], [1, 1, 1], [0, 0, 1]]],
+    });
+    expect(features[1].properties).toMatchObject({ mode: 'area', unit: 'm²' });
+  });
+});
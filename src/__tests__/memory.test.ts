@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import {
+  BoxGeometry,
+  BufferGeometry,
+  DataTexture,
+  Group,
+  InterleavedBuffer,
+  InterleavedBufferAttribute,
+  Mesh,
+  MeshStandardMaterial,
+  ShaderMaterial,
+  Texture,
+} from 'three';
+import { collectResources, packedSplatsBytes, resourceBytes } from '../lib/utils/memory';
+
+describe('collectResources', () => {
+  it('should find geometries, materials and their textures once each', () => {
+    const map = new Texture();
+    const geometry = new BoxGeometry();
+    const material = new MeshStandardMaterial({ map, normalMap: map });
+    const shaderTexture = new Texture();
+    const shader = new ShaderMaterial({ uniforms: { tex: { value: shaderTexture }, scale: { value: 1 } } });
+    const group = new Group();
+    group.add(new Mesh(geometry, material), new Mesh(geometry, [material, shader]));
+
+    const resources = collectResources(group);
+    expect([...resources]).toEqual([geometry, material, map, shader, shaderTexture]);
+  });
+});
+
+describe('resourceBytes', () => {
+  it('should count geometry buffers on the GPU and in memory, shared arrays once', () => {
+    const geometry = new BufferGeometry();
+    const buffer = new InterleavedBuffer(new Float32Array(24), 6);
+    geometry.setAttribute('position', new InterleavedBufferAttribute(buffer, 3, 0));
+    geometry.setAttribute('normal', new InterleavedBufferAttribute(buffer, 3, 3));
+    geometry.setIndex([0, 1, 2, 2, 3, 0]);
+    // 24 floats and 6 16-bit indices
+    expect(resourceBytes(geometry)).toEqual({ gpu: 96 + 12, cpu: 96 + 12 });
+  });
+
+  it('should count textures at 4 bytes per pixel with a third more for mipmaps', () => {
+    const image = new Texture();
+    image.image = { width: 64, height: 32 };
+    expect(resourceBytes(image)).toEqual({ gpu: Math.round(64 * 32 * 4 * (4 / 3)), cpu: 64 * 32 * 4 });
+    const data = new DataTexture(new Uint8Array(16 * 16 * 4), 16, 16);
+    expect(resourceBytes(data)).toEqual({ gpu: 1024, cpu: 1024 });
+    expect(resourceBytes(new Texture())).toEqual({ gpu: 0, cpu: 0 });
+    expect(resourceBytes(new MeshStandardMaterial())).toEqual({ gpu: 0, cpu: 0 });
+  });
+});
+
+describe('packedSplatsBytes', () => {
+  it('should add the spherical harmonics arrays to the packed splats', () => {
+    const packedSplats = { packedArray: new Uint32Array(400), extra: { sh1: new Uint32Array(200), lod: 2 } };
+    expect(packedSplatsBytes(packedSplats)).toEqual({ gpu: 2400, cpu: 2400 });
+    expect(packedSplatsBytes({ packedArray: null, extra: {} })).toEqual({ gpu: 0, cpu: 0 });
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { orientationToRotation } from '../lib/utils/orientation';
+
+type Vec3 = [number, number, number];
+
+/**
+ * Rotate a vector by Euler XYZ degrees, as three.js composes them, then express the result
+ * in east/north/up (the RTC group's parent frame is a half turn about z from it).
+ */
+const toEnu = ([rx, ry, rz]: Vec3, v: Vec3): Vec3 => {
+  const rad = (d: number) => (d * Math.PI) / 180;
+  const rotate = (axis: 0 | 1 | 2, angle: number, [x, y, z]: Vec3): Vec3 => {
+    const c = Math.cos(rad(angle));
+    const s = Math.sin(rad(angle));
+    if (axis === 0) return [x, c * y - s * z, s * y + c * z];
+    if (axis === 1) return [c * x + s * z, y, -s * x + c * z];
+    return [c * x - s * y, s * x + c * y, z];
+  };
+  const [x, y, z] = rotate(0, rx, rotate(1, ry, rotate(2, rz, v)));
+  return [-x, -y, z];
+};
+
+const expectVec = (actual: Vec3, expected: Vec3) => {
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], 9));
+};
+
+describe('orientationToRotation', () => {
+  it('should stand -Y-up splats upright with +Z facing north', () => {
+    const rotation = orientationToRotation({ heading: 0, pitch: 0, roll: 0 }, '-Y-up');
+    expectVec(toEnu(rotation, [0, -1, 0]), [0, 0, 1]);
+    expectVec(toEnu(rotation, [0, 0, 1]), [0, 1, 0]);
+  });
+
+  it('should turn clockwise from north with heading', () => {
+    const rotation = orientationToRotation({ heading: 90, pitch: 0, roll: 0 }, 'Z-up');
+    // Forward (+Y for Z-up) now faces east, and up stays up
+    expectVec(toEnu(rotation, [0, 1, 0]), [1, 0, 0]);
+    expectVec(toEnu(rotation, [0, 0, 1]), [0, 0, 1]);
+  });
+
+  it('should apply pitch and roll about the heading', () => {
+    const pitched = orientationToRotation({ heading: 90, pitch: 30, roll: 0 }, 'Z-up');
+    expectVec(toEnu(pitched, [0, 1, 0]), [Math.cos(Math.PI / 6), 0, 0.5]);
+
+    const rolled = orientationToRotation({ heading: 0, pitch: 0, roll: 90 }, 'Z-up');
+    // Right-hand side (+X) drops
+    expectVec(toEnu(rolled, [1, 0, 0]), [0, 0, -1]);
+  });
+
+  it('should keep up and forward for y-mirrored GLTF models', () => {
+    const rotation = orientationToRotation({ heading: 45, pitch: 0, roll: 0 }, 'Y-up', true);
+    const mirror = ([x, y, z]: Vec3): Vec3 => [x, -y, z];
+    expectVec(toEnu(rotation, mirror([0, 1, 0])), [0, 0, 1]);
+    expectVec(toEnu(rotation, mirror([0, 0, -1])), [Math.SQRT1_2, Math.SQRT1_2, 0]);
+  });
+});
@@ -0,0 +1,25 @@
+import { describe, it, expect } from 'vitest';
+import { Matrix4, PerspectiveCamera, Vector3 } from 'three';
+import { worldToScreen } from '../lib/utils/projection';
+
+describe('worldToScreen', () => {
+  it('should map clip space to pixels from the top left', () => {
+    const camera = { projectionMatrix: new Matrix4(), matrixWorld: new Matrix4() };
+
+    expect(worldToScreen(new Vector3(0, 0, 0.5), camera, 200, 100)).toEqual({ x: 100, y: 50 });
+    expect(worldToScreen(new Vector3(-1, 1, 0), camera, 200, 100)).toEqual({ x: 0, y: 0 });
+    expect(worldToScreen(new Vector3(0.5, -0.5, 0), camera, 200, 100)).toEqual({ x: 150, y: 75 });
+  });
+
+  it('should use the inverse of the camera world matrix and skip points behind it', () => {
+    const perspective = new PerspectiveCamera(90, 2, 0.1, 100);
+    perspective.position.set(10, 0, 0);
+    perspective.updateMatrixWorld();
+    const camera = { projectionMatrix: perspective.projectionMatrix, matrixWorld: perspective.matrixWorld };
+
+    const ahead = worldToScreen(new Vector3(10, 0, -5), camera, 200, 100)!;
+    expect(ahead.x).toBeCloseTo(100, 9);
+    expect(ahead.y).toBeCloseTo(50, 9);
+    expect(worldToScreen(new Vector3(10, 0, 5), camera, 200, 100)).toBeNull();
+  });
+});
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { skyDirection, sunPosition } from '../lib/utils/sun';
+
+describe('sunPosition', () => {
+  it('should match a published position', () => {
+    // Kyiv on 2013-03-05 at midnight UTC, from the SunCalc test suite
+    const { azimuth, elevation } = sunPosition(new Date('2013-03-05T00:00:00Z'), 30.5, 50.5);
+    expect(azimuth).toBeCloseTo(180 + (-2.5003175907168385 * 180) / Math.PI, 6);
+    expect(elevation).toBeCloseTo((-0.7000406838781611 * 180) / Math.PI, 6);
+  });
+
+  it('should put the sun due south at noon at an equinox, overhead at the equator', () => {
+    const noon = new Date('2024-03-20T12:00:00Z');
+    const greenwich = sunPosition(noon, 0, 51.48);
+    expect(greenwich.azimuth).toBeCloseTo(180, -1);
+    expect(greenwich.elevation).toBeCloseTo(90 - 51.48, 0);
+    expect(sunPosition(noon, 0, 0).elevation).toBeGreaterThan(85);
+    expect(sunPosition(new Date('2024-03-20T00:00:00Z'), 0, 51.48).elevation).toBeLessThan(-30);
+  });
+
+  it('should rise in the east and set in the west', () => {
+    expect(sunPosition(new Date('2024-03-20T07:00:00Z'), 0, 45).azimuth).toBeCloseTo(90, -1.5);
+    expect(sunPosition(new Date('2024-03-20T17:00:00Z'), 0, 45).azimuth).toBeCloseTo(270, -1.5);
+  });
+});
+
+describe('skyDirection', () => {
+  it('should point east/north/up', () => {
+    const [east, north, up] = skyDirection(90, 0);
+    expect(east).toBeCloseTo(1);
+    expect(north).toBeCloseTo(0);
+    expect(up).toBeCloseTo(0);
+    expect(skyDirection(0, 90)[2]).toBeCloseTo(1);
+    const south = skyDirection(180, 45);
+    expect(south[1]).toBeCloseTo(-Math.SQRT1_2);
+    expect(south[2]).toBeCloseTo(Math.SQRT1_2);
+  });
+});
@@ -4,13 +4,59 @@ import './lib/styles/splat-control.css';
 // Main entry point - Core exports
 export { GaussianSplatControl } from './lib/core/GaussianSplatControl';
 
+// Coordinate reference systems for layer origins
+export { registerCrs, registerProj4 } from './lib/utils/crs';
+export type { CrsConverter, Proj4Like } from './lib/utils/crs';
+
 // Adapter export
 export { GaussianSplatLayerAdapter } from './lib/adapters/GaussianSplatLayerAdapter';
 
 // Type exports
 export type {
+  AltitudeMode,
+  Annotation,
+  AnnotationOptions,
+  AssetFormat,
+  AssetRequestKind,
+  AssetRequestParameters,
+  AssetSource,
+  AssetTransformRequestFunction,
+  CaptureCamera,
+  ColorAdjustments,
+  CompareOptions,
+  CompareOrientation,
+  ControlPoint,
+  CropBox,
+  CropPolygon,
+  DirectionalLightOptions,
   GaussianSplatControlOptions,
+  GaussianSplatLoadOptions,
+  GeoreferenceSolution,
+  LayerBounds,
+  LayerCompare,
+  LayerCrop,
+  LayerMemoryStats,
+  LayerOrientation,
+  LayerOrigin,
+  LayerPick,
+  LayerProxy,
+  LayerTransform,
+  LightingOptions,
+  Measurement,
+  MeasurementMode,
+  MeasurementUnits,
+  MemoryStats,
+  ModelAnimation,
+  ModelAnimationOptions,
+  SplatLayerStats,
+  SplatSequenceFrame,
+  SplatSequenceOptions,
+  SplatSequenceState,
+  SplatStats,
+  SunLightOptions,
   GaussianSplatControlState,
   GaussianSplatEvent,
   GaussianSplatEventHandler,
+  UpAxis,
+  ZoomToLayerOptions,
 } from './lib/core/types';
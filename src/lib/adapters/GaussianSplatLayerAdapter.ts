@@ -96,7 +96,7 @@ export class GaussianSplatLayerAdapter implements CustomLayerAdapter {
 
     return {
       visible: this._visibilityState.get(layerId) ?? true,
-      opacity: this._control.getState().opacity,
+      opacity: this._control.getLayerOpacity(layerId) ?? 1,
       name: this.getName(layerId),
       isCustomLayer: true,
       customLayerType: 'gaussian-splat',
@@ -105,51 +105,23 @@ export class GaussianSplatLayerAdapter implements CustomLayerAdapter {
 
   setVisibility(layerId: string, visible: boolean): void {
     this._visibilityState.set(layerId, visible);
-
-    // Access the internal layer maps to toggle Three.js object visibility
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const ctrl = this._control as any;
-    const splatLayer = ctrl._splatLayers?.get(layerId);
-    if (splatLayer?.rtcGroup) {
-      splatLayer.rtcGroup.visible = visible;
-      return;
-    }
-    const modelLayer = ctrl._modelLayers?.get(layerId);
-    if (modelLayer?.rtcGroup) {
-      modelLayer.rtcGroup.visible = visible;
-    }
+    this._control.setLayerVisibility(layerId, visible);
   }
 
   setOpacity(layerId: string, opacity: number): void {
-    // eslint-disable-next-line @typescript-eslint/no-explicit-any
-    const ctrl = this._control as any;
-    const splatLayer = ctrl._splatLayers?.get(layerId);
-    if (splatLayer?.mesh?.material) {
-      splatLayer.mesh.material.opacity = opacity;
-      splatLayer.mesh.material.transparent = opacity < 1;
-      return;
-    }
-    const modelLayer = ctrl._modelLayers?.get(layerId);
-    if (modelLayer?.scene) {
-      modelLayer.scene.traverse((child: { material?: { opacity: number; transparent: boolean } }) => {
-        if (child.material) {
-          child.material.opacity = opacity;
-          child.material.transparent = opacity < 1;
-        }
-      });
-    }
+    this._control.setLayerOpacity(layerId, opacity);
   }
 
   getName(layerId: string): string {
     const info = this._control.getSplatInfo(layerId);
     if (info) {
-      return this._getFilename(info.url);
+      return info.name;
     }
     // Check model layers
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const modelLayer = (this._control as any)._modelLayers?.get(layerId);
-    if (modelLayer?.url) {
-      return this._getFilename(modelLayer.url);
+    if (modelLayer?.name) {
+      return modelLayer.name;
     }
     return layerId;
   }
@@ -179,13 +151,4 @@ export class GaussianSplatLayerAdapter implements CustomLayerAdapter {
     this._changeCallbacks = [];
     this._visibilityState.clear();
   }
-
-  private _getFilename(url: string): string {
-    try {
-      const pathname = new URL(url).pathname;
-      return pathname.split('/').pop() || url;
-    } catch {
-      return url.split('/').pop() || url;
-    }
-  }
 }
@@ -0,0 +1,136 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type * as THREE from 'three';
+import { worldToScreen } from '../utils/projection';
+import type { Annotation } from './types';
+
+/**
+ * How often, in milliseconds, labels are checked for geometry in front of them.
+ * Raycasting splats visits every splat, so this is done a few times a second rather than every frame.
+ */
+const OCCLUSION_INTERVAL = 250;
+
+/**
+ * Options for the AnnotationLabels.
+ */
+export interface AnnotationLabelsOptions {
+  /** World position of an annotation, or null while its layer is not drawn. */
+  getPosition: (annotation: Annotation) => THREE.Vector3 | null;
+  /** Whether a splat or model is in front of a world position seen at a map pixel. */
+  isOccluded: (position: THREE.Vector3, point: { x: number; y: number }) => boolean;
+}
+
+/**
+ * Internal state of a shown annotation.
+ */
+interface AnnotationLabel {
+  annotation: Annotation;
+  element: HTMLElement;
+  occluded: boolean;
+}
+
+/**
+ * HTML labels for annotations, following their anchors in the 3D scene.
+ *
+ * Labels are placed over the map each frame and dimmed, with the `occluded` class, while a
+ * splat or model is in front of their anchor. Labels of layers that are not drawn are hidden.
+ */
+export class AnnotationLabels {
+  private _map: MapLibreMap;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _mapScene: any;
+  private _options: AnnotationLabelsOptions;
+  private _labels: AnnotationLabel[] = [];
+  private _nextOcclusionCheck = 0;
+  private _onPostRender = () => this.update();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(map: MapLibreMap, mapScene: any, options: AnnotationLabelsOptions) {
+    this._map = map;
+    this._mapScene = mapScene;
+    this._options = options;
+    mapScene.on('postRender', this._onPostRender);
+  }
+
+  /**
+   * Replace the shown annotations.
+   */
+  setAnnotations(annotations: Annotation[]): void {
+    this._clear();
+    const container = this._map.getCanvasContainer();
+    this._labels = annotations.map((annotation) => {
+      const element = this._createElement(annotation);
+      container.appendChild(element);
+      return { annotation, element, occluded: false };
+    });
+    this._nextOcclusionCheck = 0;
+    this._map.triggerRepaint();
+  }
+
+  /**
+   * Move the labels to their anchors as seen by the current camera.
+   */
+  update(): void {
+    const camera = this._mapScene.camera;
+    if (!camera) return;
+    const canvas = this._map.getCanvas();
+    const now = performance.now();
+    const checkOcclusion = now >= this._nextOcclusionCheck;
+    if (checkOcclusion) this._nextOcclusionCheck = now + OCCLUSION_INTERVAL;
+
+    for (const label of this._labels) {
+      const position = this._options.getPosition(label.annotation);
+      const screen = position && worldToScreen(position, camera, canvas.clientWidth, canvas.clientHeight);
+      label.element.style.display = screen ? '' : 'none';
+      if (!position || !screen) continue;
+      label.element.style.transform = `translate(${screen.x}px, ${screen.y}px) translate(-50%, -100%)`;
+      if (checkOcclusion) {
+        label.occluded = this._options.isOccluded(position, screen);
+        label.element.classList.toggle('occluded', label.occluded);
+        label.element.style.opacity = label.occluded ? '0.35' : '1';
+      }
+    }
+  }
+
+  /**
+   * Remove the labels and stop following the camera.
+   */
+  destroy(): void {
+    this._clear();
+    this._mapScene.off('postRender', this._onPostRender);
+  }
+
+  private _clear(): void {
+    for (const { element } of this._labels) element.remove();
+    this._labels = [];
+  }
+
+  private _createElement(annotation: Annotation): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'maplibre-gl-splat-annotation';
+    element.dataset.annotationId = annotation.id;
+    element.style.cssText = `
+      position: absolute;
+      top: 0;
+      left: 0;
+      max-width: 200px;
+      margin-top: -6px;
+      padding: 4px 8px;
+      border-radius: 4px;
+      background: rgba(255, 255, 255, 0.95);
+      box-shadow: 0 1px 4px rgba(0, 0, 0, 0.3);
+      color: #333;
+      font: 11px/1.4 sans-serif;
+      transition: opacity 0.2s;
+    `;
+    const title = document.createElement('div');
+    title.textContent = annotation.title;
+    title.style.cssText = 'font-weight: 600;';
+    element.appendChild(title);
+    if (annotation.html) {
+      const body = document.createElement('div');
+      body.innerHTML = annotation.html;
+      element.appendChild(body);
+    }
+    return element;
+  }
+}
@@ -0,0 +1,113 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import type { CompareOrientation } from './types';
+
+/**
+ * Options for the CompareSlider.
+ */
+export interface CompareSliderOptions {
+  orientation: CompareOrientation;
+  /** Divider position as a fraction of the map width from the left, or height from the top. */
+  position: number;
+  /** Called with the new position as the divider is dragged. */
+  onChange: (position: number) => void;
+}
+
+/**
+ * A draggable divider over the map, splitting it between two compared layers.
+ *
+ * The divider sits outside the canvas container so dragging it does not pan the map.
+ */
+export class CompareSlider {
+  private _map: MapLibreMap;
+  private _options: CompareSliderOptions;
+  private _element: HTMLElement;
+  private _onPointerMove = (e: PointerEvent) => this._drag(e);
+  private _onPointerUp = () => this._endDrag();
+
+  constructor(map: MapLibreMap, options: CompareSliderOptions) {
+    this._map = map;
+    this._options = { ...options };
+    this._element = this._createElement();
+    map.getContainer().appendChild(this._element);
+    this._update();
+  }
+
+  /**
+   * Move the divider, as a fraction of the map width or height.
+   */
+  setPosition(position: number): void {
+    this._options.position = position;
+    this._update();
+  }
+
+  /**
+   * Remove the divider.
+   */
+  destroy(): void {
+    this._endDrag();
+    this._element.remove();
+  }
+
+  private _createElement(): HTMLElement {
+    const element = document.createElement('div');
+    element.className = 'maplibre-gl-splat-compare';
+    element.style.cssText = `
+      position: absolute;
+      z-index: 2;
+      background: white;
+      box-shadow: 0 0 4px rgba(0, 0, 0, 0.5);
+      touch-action: none;
+    `;
+    const handle = document.createElement('div');
+    handle.className = 'maplibre-gl-splat-compare-handle';
+    handle.style.cssText = `
+      position: absolute;
+      top: 50%;
+      left: 50%;
+      width: 28px;
+      height: 28px;
+      margin: -14px 0 0 -14px;
+      border-radius: 50%;
+      background: white;
+      box-shadow: 0 1px 4px rgba(0, 0, 0, 0.4);
+    `;
+    element.appendChild(handle);
+    element.addEventListener('pointerdown', (e) => {
+      e.preventDefault();
+      window.addEventListener('pointermove', this._onPointerMove);
+      window.addEventListener('pointerup', this._onPointerUp);
+      window.addEventListener('pointercancel', this._onPointerUp);
+    });
+    return element;
+  }
+
+  private _update(): void {
+    const vertical = this._options.orientation === 'vertical';
+    const offset = `${this._options.position * 100}%`;
+    Object.assign(this._element.style, {
+      top: vertical ? '0' : offset,
+      bottom: vertical ? '0' : '',
+      left: vertical ? offset : '0',
+      right: vertical ? '' : '0',
+      width: vertical ? '2px' : '',
+      height: vertical ? '' : '2px',
+      transform: vertical ? 'translateX(-50%)' : 'translateY(-50%)',
+      cursor: vertical ? 'ew-resize' : 'ns-resize',
+    });
+  }
+
+  private _drag(e: PointerEvent): void {
+    const rect = this._map.getContainer().getBoundingClientRect();
+    const vertical = this._options.orientation === 'vertical';
+    const fraction = vertical ? (e.clientX - rect.left) / rect.width : (e.clientY - rect.top) / rect.height;
+    if (!Number.isFinite(fraction)) return;
+    this.setPosition(Math.min(Math.max(fraction, 0), 1));
+    this._options.onChange(this._options.position);
+  }
+
+  private _endDrag(): void {
+    window.removeEventListener('pointermove', this._onPointerMove);
+    window.removeEventListener('pointerup', this._onPointerUp);
+    window.removeEventListener('pointercancel', this._onPointerUp);
+  }
+}
@@ -1,4 +1,11 @@
-import type { IControl, Map as MapLibreMap, ControlPosition } from 'maplibre-gl';
+import type {
+  ControlPosition,
+  IControl,
+  LngLat,
+  Map as MapLibreMap,
+  MapMouseEvent,
+  PaddingOptions,
+} from 'maplibre-gl';
 import * as THREE from 'three';
 import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
@@ -6,7 +13,81 @@ import { GLTFLoader } from 'three/addons/loaders/GLTFLoader.js';
 import * as MTP from '@dvt3d/maplibre-three-plugin';
 // eslint-disable-next-line @typescript-eslint/ban-ts-comment
 // @ts-ignore - Spark types not fully typed
-import { SplatMesh } from '@sparkjsdev/spark';
+import { dyno, SplatEdit, SplatEditRgbaBlendMode, SplatEditSdf, SplatEditSdfType, SplatMesh } from '@sparkjsdev/spark';
+import {
+  ASSET_FILE_ACCEPT,
+  detectAssetFormat,
+  getFormatFromName,
+  getSourceName,
+  inferAssetFormat,
+  isModelFormat,
+  readSourceBytes,
+  toSplatFileType,
+} from '../utils/assets';
+import { colorAdjustmentsToAffine, isNeutralColorAdjustments, NEUTRAL_COLOR_ADJUSTMENTS } from '../utils/color';
+import { allocateSplatBudget, interleavedOrder, type BudgetRequest } from '../utils/budget';
+import { boundsCorners, convexHull, trimmedBounds, type Bounds3 } from '../utils/bounds';
+import { polygonToBoxes } from '../utils/crop';
+import { createLinkedAbortController, fetchAsset, isAbortError, type FetchedAsset } from '../utils/fetch';
+import {
+  enuToLngLatAlt,
+  flipEastNorth,
+  lngLatAltToEnu,
+  rotationMatrixToEuler,
+  solveSimilarityTransform,
+  type Vec3,
+} from '../utils/georeference';
+import { getExternalGltfUris } from '../utils/gltf';
+import { frustumDepth, frustumSegments, parseCaptureCameras, viewRotation } from '../utils/cameras';
+import { formatMeasurement, measurePoints, measurementsToGeoJSON } from '../utils/measure';
+import { toWgs84 } from '../utils/crs';
+import { orientationToRotation } from '../utils/orientation';
+import { worldToScreen } from '../utils/projection';
+import { collectResources, packedSplatsBytes, resourceBytes, type GpuResource } from '../utils/memory';
+import { AnnotationLabels } from './AnnotationLabels';
+import { CompareSlider } from './CompareSlider';
+import { LayerProxies } from './LayerProxies';
+import { MeasurementOverlay, type MeasurementDrawing } from './MeasurementOverlay';
+import { DEFAULT_LIGHTING, mergeLighting, SceneLighting } from './SceneLighting';
+import { TransformGizmo } from './TransformGizmo';
+
+/**
+ * Kind of request passed to `transformRequest`.
+ * - `splat` / `model`: the main file of a splat or GLTF/GLB layer.
+ * - `asset`: the main file when its type is only known after it is downloaded.
+ * - `model-resource`: an external buffer or texture referenced by a GLTF file.
+ * - `environment`: the environment map of the scene lighting.
+ */
+export type AssetRequestKind = 'splat' | 'model' | 'asset' | 'model-resource' | 'environment';
+
+/**
+ * Request parameters returned by `transformRequest`, modeled on MapLibre's RequestParameters.
+ */
+export interface AssetRequestParameters {
+  /** URL to fetch. */
+  url: string;
+  /** Headers to send with the request. */
+  headers?: HeadersInit;
+  /** Whether to send cookies and HTTP authentication with the request. */
+  credentials?: RequestCredentials;
+}
+
+/**
+ * Hook to rewrite the URL, headers or credentials of every asset request.
+ * Return undefined to fetch the URL unchanged.
+ */
+export type AssetTransformRequestFunction = (
+  url: string,
+  kind: AssetRequestKind
+) => AssetRequestParameters | undefined;
+
+/**
+ * How a layer's altitude is interpreted.
+ * - `absolute`: meters above sea level.
+ * - `relativeToGround`: meters above the terrain at the layer origin.
+ * - `clampToGround`: placed on the terrain; the altitude value is ignored.
+ */
+export type AltitudeMode = 'absolute' | 'relativeToGround' | 'clampToGround';
 
 /**
  * Options for configuring the GaussianSplatControl.
@@ -42,10 +123,34 @@ export interface GaussianSplatControlOptions {
   defaultLatitude?: number;
   /** Default altitude for splat placement. Default: 0. */
   defaultAltitude?: number;
-  /** Fly to splat location after loading. Default: true. */
+  /** Default altitude mode for splat and model placement. Default: 'absolute'. */
+  defaultAltitudeMode?: AltitudeMode;
+  /** Fit the camera to each layer after loading it. Default: true. */
   flyTo?: boolean;
-  /** Zoom level when flying to splat. Default: 18. */
+  /** Zoom level when flying to a layer of unknown extent. Default: 18. */
   flyToZoom?: number;
+  /**
+   * Most splats to render per frame across all splat layers. When the layers hold more,
+   * each draws an evenly spread subset of its splats, sized in proportion to its priority
+   * and size on screen. Default: no limit.
+   */
+  maxSplats?: number;
+  /** Splat layers smaller than this many pixels on screen, or off screen, are not drawn. Default: 2. */
+  minScreenSize?: number;
+  /** Units measurements are shown in. Default: 'metric'. */
+  measurementUnits?: MeasurementUnits;
+  /**
+   * Modify asset requests before they are made, e.g. to add authentication headers or
+   * sign URLs. Called for splat and model files and for external GLTF buffers and textures.
+   *
+   * @example
+   * ```typescript
+   * transformRequest: (url) => ({ url, headers: { Authorization: `Bearer ${token}` } })
+   * ```
+   */
+  transformRequest?: AssetTransformRequestFunction;
+  /** Lights of the scene models are drawn with. Default: see `LightingOptions`. */
+  lighting?: LightingOptions;
 }
 
 /**
@@ -55,21 +160,538 @@ export interface GaussianSplatControlState {
   collapsed: boolean;
   url: string;
   loading: boolean;
+  /** Fraction (0-1) of the current download, or null if unknown. */
+  progress: number | null;
   error: string | null;
   status: string | null;
   hasLayer: boolean;
   layerCount: number;
+  /** Opacity (0-1) for newly loaded layers. */
   opacity: number;
+  /** Opacity (0-1) of each loaded layer, by layer ID. */
+  layerOpacity: Record<string, number>;
   rotation: [number, number, number];
+  /** Heading/pitch/roll entered in the panel, or null when it uses X/Y/Z rotation. */
+  orientation: LayerOrientation | null;
   scale: number;
   longitude: number;
   latitude: number;
   altitude: number;
+  altitudeMode: AltitudeMode;
+}
+
+/**
+ * 3D asset formats understood by the control.
+ */
+export type AssetFormat = 'splat' | 'ply' | 'spz' | 'ksplat' | 'sog' | 'gltf' | 'glb';
+
+/**
+ * A 3D asset to load: a URL, a local File/Blob, or raw bytes.
+ */
+export type AssetSource = string | File | Blob | ArrayBuffer;
+
+/**
+ * Up axis of a source asset. Splats from most capture tools are '-Y-up'; GLTF is 'Y-up'.
+ */
+export type UpAxis = 'Y-up' | 'Z-up' | '-Y-up';
+
+/**
+ * Orientation of a layer in geographic terms, as an alternative to Euler XYZ rotation.
+ * At heading 0 the asset's +Y (Z-up), -Z (Y-up) or +Z (-Y-up) axis points north.
+ */
+export interface LayerOrientation {
+  /** Degrees clockwise from true north. */
+  heading: number;
+  /** Degrees; positive tilts the front of the asset up. */
+  pitch: number;
+  /** Degrees; positive lowers the right-hand side of the asset. */
+  roll: number;
+  /** Up axis of the source asset. Defaults to '-Y-up' for splats and 'Y-up' for models. */
+  upAxis?: UpAxis;
+}
+
+/**
+ * What stands in for a layer on the map below its `minzoom`: a marker at its origin,
+ * its footprint polygon, or nothing.
+ */
+export type LayerProxy = 'marker' | 'footprint' | 'none';
+
+/**
+ * Geographic extent of a layer as placed on the map.
+ */
+export interface LayerBounds {
+  /** Western edge in degrees longitude. */
+  west: number;
+  /** Southern edge in degrees latitude. */
+  south: number;
+  /** Eastern edge in degrees longitude. */
+  east: number;
+  /** Northern edge in degrees latitude. */
+  north: number;
+  /** Altitude of the lowest point in meters. */
+  minAltitude: number;
+  /** Altitude of the highest point in meters. */
+  maxAltitude: number;
+}
+
+/**
+ * Camera options for `zoomToLayer()`.
+ */
+export interface ZoomToLayerOptions {
+  /** Space around the layer in pixels. Default: 50. */
+  padding?: number | PaddingOptions;
+  /** Camera pitch in degrees. Default: 60. */
+  pitch?: number;
+  /** Camera bearing in degrees. Default: the current bearing. */
+  bearing?: number;
+  /** Duration of the flight in milliseconds. Default: 1500. */
+  duration?: number;
+  /** Closest zoom to show small layers at. Default: the map's maximum zoom. */
+  maxZoom?: number;
+}
+
+/**
+ * A layer origin given in a coordinate reference system other than WGS84 longitude/latitude.
+ */
+export interface LayerOrigin {
+  /** CRS code, e.g. 'EPSG:32633' (UTM zone 33N) or 'EPSG:4978' (ECEF). */
+  crs: string;
+  /** Coordinates in the CRS: [x, y] or [x, y, height in meters]; ECEF takes [x, y, z]. */
+  coordinates: [number, number] | [number, number, number];
+}
+
+/**
+ * Options for placing a 3D asset on the map.
+ */
+export interface GaussianSplatLoadOptions {
+  /** Longitude of the asset origin. Defaults to the panel value or map center. */
+  longitude?: number;
+  /** Latitude of the asset origin. Defaults to the panel value or map center. */
+  latitude?: number;
+  /** Altitude of the asset origin in meters. */
+  altitude?: number;
+  /** How the altitude is interpreted. Defaults to the panel value. */
+  altitudeMode?: AltitudeMode;
+  /**
+   * Origin in a projected CRS or as an ECEF vector. Overrides longitude, latitude and altitude.
+   * UTM zones, ECEF and Web Mercator are built in; see `registerCrs()` and `registerProj4()` for others.
+   * Heights are used as the altitude as-is, without a geoid correction.
+   *
+   * @example
+   * ```typescript
+   * { origin: { crs: 'EPSG:32610', coordinates: [551000, 4180000, 15] } }
+   * ```
+   */
+  origin?: LayerOrigin;
+  /** Rotation in degrees [x, y, z]. */
+  rotation?: [number, number, number];
+  /** Heading, pitch and roll with the asset's up axis. Overrides `rotation`. */
+  orientation?: LayerOrientation;
+  /** Uniform scale. */
+  scale?: number;
+  /** Opacity (0-1). Defaults to the panel value (`defaultOpacity`). */
+  opacity?: number;
+  /** Color grading, e.g. to match captures taken in different light. */
+  colorAdjustments?: Partial<ColorAdjustments>;
+  /** Share of the `maxSplats` budget relative to other splat layers. Default: 1. */
+  priority?: number;
+  /** Map zoom from which the layer is drawn, as for MapLibre style layers. Default: 0. */
+  minzoom?: number;
+  /** Map zoom from which the layer is hidden again. Default: 24. */
+  maxzoom?: number;
+  /** What to show instead of the layer below `minzoom`. Clicking it flies to the layer. Default: 'marker'. */
+  proxy?: LayerProxy;
+  /**
+   * Format of the asset. Required to load a GLTF/GLB model from a Blob or
+   * ArrayBuffer; otherwise inferred from the URL or file name.
+   */
+  format?: AssetFormat;
+  /** Display name for the layer. Defaults to the URL or file name. */
+  name?: string;
+  /**
+   * Placement solved from control points, e.g. saved from `exportGeoreference()`.
+   * Overrides the location, rotation and scale options.
+   */
+  georeference?: GeoreferenceSolution;
+  /** Crop volume for a splat layer, e.g. saved from `getLayerCrop()`. Ignored for models. */
+  crop?: LayerCrop;
+  /** Signal to cancel the load. The returned promise rejects when aborted. */
+  signal?: AbortSignal;
+}
+
+/**
+ * Placement of a splat or model layer on the map.
+ */
+export interface LayerTransform {
+  /** Longitude of the layer origin. */
+  longitude: number;
+  /** Latitude of the layer origin. */
+  latitude: number;
+  /** Altitude of the layer origin in meters, interpreted according to `altitudeMode`. */
+  altitude: number;
+  /** How the altitude is interpreted. */
+  altitudeMode: AltitudeMode;
+  /** Rotation in degrees [x, y, z]. */
+  rotation: [number, number, number];
+  /** Orientation the rotation was set from, or null if it was set as Euler angles. */
+  orientation: LayerOrientation | null;
+  /** Uniform scale. */
+  scale: number;
+}
+
+/**
+ * A point on a layer matched to its real-world position, used for georeferencing.
+ */
+export interface ControlPoint {
+  /** Position on the layer in the asset's own coordinates. */
+  local: [number, number, number];
+  /** Matching map position as [longitude, latitude, altitude in meters above sea level]. */
+  lngLatAlt: [number, number, number];
+}
+
+/**
+ * Placement of a layer solved from its control points.
+ * Plain JSON, so it can be saved and passed back to `load()` with the `georeference` option.
+ */
+export interface GeoreferenceSolution {
+  /** The control points the placement was solved from. */
+  controlPoints: ControlPoint[];
+  /** Solved placement, with an absolute altitude. */
+  transform: LayerTransform;
+  /** Size of one asset unit in meters. */
+  metersPerUnit: number;
+  /** Distance in meters between each placed control point and its map position. */
+  residuals: number[];
+  /** Root mean square of the residuals, in meters. */
+  rmse: number;
+}
+
+/**
+ * Color grading of a layer. Every value is 0 when colors are unchanged.
+ */
+export interface ColorAdjustments {
+  /** Amount added to each channel, from -1 to 1. */
+  brightness: number;
+  /** From -1 (flat gray) to 1 (double contrast). */
+  contrast: number;
+  /** From -1 (grayscale) to 1 (double saturation). */
+  saturation: number;
+  /** Exposure change in stops; each stop doubles the brightness. */
+  exposure: number;
+  /** From -1 (green) to 1 (magenta). */
+  tint: number;
+}
+
+/**
+ * Rendering statistics of a splat layer.
+ */
+export interface SplatLayerStats {
+  /** Splats the layer holds, counting both frames while a sequence crossfades. */
+  total: number;
+  /** Splats drawn in the last frame. */
+  rendered: number;
+  /** Priority of the layer for the splat budget. */
+  priority: number;
+  /** Size of the layer on screen in pixels. */
+  screenSize: number;
+  /** Whether the layer was skipped for being off screen or smaller than `minScreenSize`. */
+  culled: boolean;
+}
+
+/**
+ * Splat counts across all splat layers, for tuning `maxSplats` and layer priorities.
+ */
+export interface SplatStats {
+  /** The `maxSplats` budget. */
+  maxSplats: number;
+  /** Splats held by all layers. */
+  total: number;
+  /** Splats drawn in the last frame. */
+  rendered: number;
+  /** Statistics per splat layer ID. */
+  layers: Record<string, SplatLayerStats>;
+}
+
+/**
+ * Estimated memory held by a layer.
+ */
+export interface LayerMemoryStats {
+  /** Bytes of buffers and textures on the GPU. */
+  gpuBytes: number;
+  /** Bytes of geometry, splat and image data kept in browser memory. */
+  cpuBytes: number;
+}
+
+/**
+ * Estimated memory held by all layers, for spotting leaks in long-lived maps.
+ */
+export interface MemoryStats {
+  /** Totals across layers, counting textures shared between models once. */
+  gpuBytes: number;
+  cpuBytes: number;
+  /** Estimates per layer ID, each counting the shared textures it uses. */
+  layers: Record<string, LayerMemoryStats>;
+}
+
+/**
+ * Uniforms holding the color transform of a layer, shared with its shaders so changes apply live.
+ */
+interface ColorUniforms {
+  matrix: { value: THREE.Matrix3 };
+  offset: { value: THREE.Vector3 };
+}
+
+/**
+ * An oriented box in a splat layer's own coordinates.
+ */
+export interface CropBox {
+  /** Center of the box in the asset's own coordinates. */
+  center: [number, number, number];
+  /** Edge lengths along the box's x, y and z axes, in asset units. */
+  size: [number, number, number];
+  /** Rotation of the box in degrees [x, y, z], in the asset's own coordinates. */
+  rotation?: [number, number, number];
+}
+
+/**
+ * A map polygon extruded between two heights.
+ */
+export interface CropPolygon {
+  /** Polygon vertices as [longitude, latitude]. */
+  coordinates: [number, number][];
+  /** Bottom of the volume in meters above sea level. Unbounded if omitted. */
+  minHeight?: number;
+  /** Top of the volume in meters above sea level. Unbounded if omitted. */
+  maxHeight?: number;
+}
+
+/**
+ * Crop volume of a splat layer. Splats outside it are hidden when rendering;
+ * the splat data itself is left untouched.
+ * With both boxes and a polygon, splats must be inside a box and inside the polygon to show.
+ */
+export interface LayerCrop {
+  /** Boxes that travel with the layer; splats inside any of them are kept. */
+  boxes?: CropBox[];
+  /** Map area that stays in place when the layer is moved; splats inside it are kept. */
+  polygon?: CropPolygon;
+}
+
+/**
+ * A point on a splat or model layer under the pointer.
+ */
+export interface LayerPick {
+  /** ID of the splat or model layer. */
+  layerId: string;
+  /** The point as [lng, lat, alt], e.g. to anchor a popup. */
+  lngLatAlt: [number, number, number];
+  /** The point in the layer's own coordinates. */
+  local: [number, number, number];
+  /** Name of the GLTF node hit (model layers), or of its nearest named ancestor. */
+  nodeName?: string;
+  /** Pointer position in pixels from the top left of the map. */
+  point: { x: number; y: number };
+}
+
+/**
+ * What a measurement measures: the 3D distance between two points, the difference in
+ * height between two points, or the area of a polygon of three or more points.
+ */
+export type MeasurementMode = 'distance' | 'height' | 'area';
+
+/**
+ * Units measurements are shown and labelled in: meters or feet.
+ */
+export type MeasurementUnits = 'metric' | 'imperial';
+
+/**
+ * A measurement taken on splat and model layers.
+ */
+export interface Measurement {
+  id: string;
+  mode: MeasurementMode;
+  /** Points picked on the layers as [lng, lat, alt]. */
+  points: [number, number, number][];
+  /** Distance or height in meters, or area in square meters. */
+  value: number;
+}
+
+/**
+ * A note pinned to a point of a splat or model layer. It moves with the layer.
+ */
+export interface Annotation {
+  id: string;
+  layerId: string;
+  /** Anchor in the layer's own coordinates, as in `LayerPick.local`. */
+  position: [number, number, number];
+  title: string;
+  /** Shown below the title. Inserted as HTML as is, so sanitize untrusted content. */
+  html?: string;
+}
+
+/**
+ * A camera pose a splat was trained from, in the splat's own coordinates.
+ */
+export interface CaptureCamera {
+  /** Image file name. */
+  name: string;
+  position: [number, number, number];
+  /** Direction the camera looks in. */
+  forward: [number, number, number];
+  /** Direction of the top of the image. */
+  up: [number, number, number];
+  /** Vertical field of view in degrees, if known. */
+  fov?: number;
+  /** Image width divided by height, if known. */
+  aspect?: number;
+}
+
+/**
+ * Content of an annotation.
+ */
+export interface AnnotationOptions {
+  /** Default: ''. */
+  title?: string;
+  html?: string;
+}
+
+/**
+ * One capture of a splat sequence.
+ */
+export interface SplatSequenceFrame {
+  source: AssetSource;
+  /** When the capture was taken: a Date, an ISO 8601 string or milliseconds since the epoch. */
+  time: Date | string | number;
+  /** Default: the file name of the source. */
+  name?: string;
+}
+
+/**
+ * Options for loading a splat sequence. Placement options apply to every frame.
+ */
+export interface SplatSequenceOptions extends GaussianSplatLoadOptions {
+  /** How long each frame is shown while playing, in milliseconds. Default: 1000. */
+  frameDuration?: number;
+  /** Length of the crossfade between frames in milliseconds, or 0 to cut. Default: 500. */
+  crossfade?: number;
+  /** Frames kept loaded on each side of the current one. Default: 1. */
+  preload?: number;
+  /** Go back to the first frame after the last while playing. Default: true. */
+  loop?: boolean;
+}
+
+/**
+ * Playback state of a splat sequence.
+ */
+export interface SplatSequenceState {
+  /** Index of the frame shown. */
+  frameIndex: number;
+  /** Frame names and capture times in milliseconds since the epoch. */
+  frames: { name: string; time: number }[];
+  playing: boolean;
+  loop: boolean;
+}
+
+/**
+ * Direction of the divider between compared layers: 'vertical' shows layer A on the left
+ * and layer B on the right, 'horizontal' shows A above B.
+ */
+export type CompareOrientation = 'vertical' | 'horizontal';
+
+/**
+ * Options for comparing two layers.
+ */
+export interface CompareOptions {
+  /** Default: 'vertical'. */
+  orientation?: CompareOrientation;
+  /** Divider position as a fraction of the map width from the left, or height from the top. Default: 0.5. */
+  position?: number;
+}
+
+/**
+ * Two layers shown on either side of a divider.
+ */
+export interface LayerCompare {
+  layerIdA: string;
+  layerIdB: string;
+  orientation: CompareOrientation;
+  position: number;
+}
+
+/**
+ * An animation clip of a model layer.
+ */
+export interface ModelAnimation {
+  name: string;
+  /** Length of the clip in seconds. */
+  duration: number;
+  playing: boolean;
+}
+
+/**
+ * Options for playing a model animation.
+ */
+export interface ModelAnimationOptions {
+  /** Repeat the clip; otherwise it stops on its last frame. Default: true. */
+  loop?: boolean;
+  /** Playback rate, negative to play backwards. Default: 1. */
+  speed?: number;
+}
+
+/**
+ * A directional light shining from a fixed direction.
+ */
+export interface DirectionalLightOptions {
+  /** CSS color string or hex number. Default: white. */
+  color?: string | number;
+  /** Default: 1. */
+  intensity?: number;
+  /** Compass direction the light comes from, in degrees clockwise from north. Default: 0. */
+  azimuth?: number;
+  /** Angle of the light above the horizon in degrees. Default: 90. */
+  elevation?: number;
+  /** Whether models cast shadows from this light while shadows are on. Default: false. */
+  castShadow?: boolean;
+}
+
+/**
+ * A directional light placed at the sun's position in the sky.
+ */
+export interface SunLightOptions {
+  /** Date and time to place the sun for. Default: the current time, following the clock. */
+  date?: Date | string | number;
+  /** Location to see the sun from. Default: the map center. */
+  longitude?: number;
+  latitude?: number;
+  /** CSS color string or hex number. Default: white. */
+  color?: string | number;
+  /** Intensity while the sun is above the horizon; it is 0 after sunset. Default: 1. */
+  intensity?: number;
+  /** Whether models cast shadows from the sun while shadows are on. Default: true. */
+  castShadow?: boolean;
 }
 
 /**
- * Event types for the GaussianSplatControl.
+ * Lighting of GLTF/GLB models. Splats carry their own lighting and are not affected.
+ * Options left out of `setLighting` keep their current values.
  */
+export interface LightingOptions {
+  /** Light from every direction. Default: white at intensity 1. */
+  ambient?: { color?: string | number; intensity?: number };
+  /** Light from the sky above fading to light from the ground below. Default: intensity 0. */
+  hemisphere?: { skyColor?: string | number; groundColor?: string | number; intensity?: number };
+  /** Default: one white light at intensity 0.5 from the north, level with the horizon. */
+  directional?: DirectionalLightOptions[];
+  /** Place a light at the sun's position, or null for no sun. Default: null. */
+  sun?: SunLightOptions | null;
+  /** Equirectangular map (Radiance `.hdr` or an image) reflected by PBR materials, or null. Default: null. */
+  environment?: AssetSource | null;
+  /** Default: 1. */
+  environmentIntensity?: number;
+  /** Draw shadows models cast on themselves and each other. Default: false. */
+  shadows?: boolean;
+}
+
 export type GaussianSplatEvent =
   | 'expand'
   | 'collapse'
@@ -79,6 +701,16 @@ export type GaussianSplatEvent =
   | 'splatremove'
   | 'modelload'
   | 'modelremove'
+  | 'loadstart'
+  | 'progress'
+  | 'transformchange'
+  | 'transformend'
+  | 'georeference'
+  | 'click'
+  | 'mousemove'
+  | 'mouseleave'
+  | 'measure'
+  | 'framechange'
   | 'error';
 
 /**
@@ -91,14 +723,42 @@ export type GaussianSplatEventHandler = (event: {
   error?: string;
   splatId?: string;
   modelId?: string;
+  /** Bytes downloaded so far ('progress' events). */
+  loaded?: number;
+  /** Total bytes to download, or 0 if unknown ('progress' events). */
+  total?: number;
+  /** ID of the splat or model layer the event refers to. */
+  layerId?: string;
+  /** New placement of the layer ('transformchange' and 'transformend' events). */
+  transform?: LayerTransform;
+  /** Applied georeferencing ('georeference' events). */
+  georeference?: GeoreferenceSolution;
+  /** The layer point under the pointer ('click' and 'mousemove' events). */
+  pick?: LayerPick;
+  /** The measurement just completed ('measure' events). */
+  measurement?: Measurement;
+  /** The sequence frame now shown ('framechange' events). */
+  frame?: { index: number; name: string; time: number };
 }) => void;
 
+/**
+ * A ray hit on a layer.
+ */
+interface LayerHit {
+  distance: number;
+  /** Hit point in the layer's own coordinates. */
+  local: Vec3;
+  /** The mesh or splat object hit. */
+  object: THREE.Object3D;
+}
+
 /**
  * Internal splat layer info.
  */
 interface SplatLayerInfo {
   id: string;
   url: string;
+  name: string;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   mesh: any;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
@@ -106,6 +766,89 @@ interface SplatLayerInfo {
   longitude: number;
   latitude: number;
   altitude: number;
+  altitudeMode: AltitudeMode;
+  rotation: [number, number, number];
+  orientation: LayerOrientation | null;
+  scale: number;
+  opacity: number;
+  colorAdjustments: ColorAdjustments;
+  /** Created the first time the layer is color graded. */
+  colorUniforms: ColorUniforms | null;
+  /** Origin as given in another CRS, until the layer is moved. */
+  origin: LayerOrigin | null;
+  controlPoints: ControlPoint[];
+  georeference: GeoreferenceSolution | null;
+  /** Shown or hidden by the user, regardless of the zoom range. */
+  visible: boolean;
+  minzoom: number;
+  maxzoom: number;
+  proxy: LayerProxy;
+  crop: LayerCrop | null;
+  /** Spark edits that hide the splats outside the crop volume. */
+  cropEdits: SplatEdit[];
+  priority: number;
+  /** Extent of the splat centers in the asset's own coordinates, without outliers. */
+  localBounds: Bounds3 | null;
+  /** Splats drawn per frame, set by the splat budget and shared by crossfading frames. */
+  splatLimit: number;
+  /** Size on screen in pixels as of the last frame. */
+  screenSize: number;
+  /** Whether the layer was skipped in the last frame for being off screen or too small. */
+  culled: boolean;
+  /** Poses the splat was trained from. */
+  cameras: CaptureCamera[];
+  cameraFrusta: THREE.LineSegments | null;
+  /** Frames and playback of a time series; null for a single splat. */
+  sequence: SequenceInfo | null;
+}
+
+/**
+ * Internal state of one frame of a splat sequence.
+ */
+interface SequenceFrameInfo {
+  source: AssetSource;
+  name: string;
+  time: number;
+  /** SplatMesh of the frame, or null while it is not loaded. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  mesh: any;
+  localBounds: Bounds3 | null;
+  loading: Promise<void> | null;
+}
+
+/**
+ * Internal playback state of a splat sequence. The mesh of the frame shown is the layer's mesh.
+ */
+interface SequenceInfo {
+  frames: SequenceFrameInfo[];
+  format: AssetFormat | undefined;
+  /** Frame shown. */
+  index: number;
+  /** Frame last asked for, shown once it has loaded. */
+  target: number;
+  playing: boolean;
+  loop: boolean;
+  frameDuration: number;
+  crossfade: number;
+  preload: number;
+  /** When the frame shown was switched to, from performance.now(). */
+  shownAt: number;
+  /** Mesh of the previous frame while it fades out. */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  fadingMesh: any;
+  /** Cancels frame loads when the layer is removed. */
+  abortController: AbortController;
+}
+
+/**
+ * Internal state of the compare mode.
+ */
+interface CompareInfo extends LayerCompare {
+  /** Planes in world coordinates keeping layers A and B to their sides of the divider. */
+  planes: [THREE.Plane, THREE.Plane];
+  /** Spark edits hiding the splats beyond the divider, for A and B if they are splat layers. */
+  edits: [SplatEdit | null, SplatEdit | null];
+  slider: CompareSlider;
 }
 
 /**
@@ -114,12 +857,38 @@ interface SplatLayerInfo {
 interface ModelLayerInfo {
   id: string;
   url: string;
+  name: string;
   scene: THREE.Group;
   // eslint-disable-next-line @typescript-eslint/no-explicit-any
   rtcGroup: any;
   longitude: number;
   latitude: number;
   altitude: number;
+  altitudeMode: AltitudeMode;
+  rotation: [number, number, number];
+  orientation: LayerOrientation | null;
+  scale: number;
+  opacity: number;
+  colorAdjustments: ColorAdjustments;
+  /** Created the first time the layer is color graded. */
+  colorUniforms: ColorUniforms | null;
+  /** Origin as given in another CRS, until the layer is moved. */
+  origin: LayerOrigin | null;
+  controlPoints: ControlPoint[];
+  georeference: GeoreferenceSolution | null;
+  /** Shown or hidden by the user, regardless of the zoom range. */
+  visible: boolean;
+  minzoom: number;
+  maxzoom: number;
+  proxy: LayerProxy;
+  /** Extent of the model in its own coordinates. */
+  localBounds: Bounds3 | null;
+  /** Animation clips of the GLTF file. */
+  animations: THREE.AnimationClip[];
+  /** Created the first time an animation is played. */
+  mixer: THREE.AnimationMixer | null;
+  /** Geometries, materials and textures of the model, released when it is removed. */
+  resources: Set<GpuResource>;
 }
 
 /**
@@ -141,10 +910,47 @@ const DEFAULT_OPTIONS: Required<GaussianSplatControlOptions> = {
   defaultLongitude: 0,
   defaultLatitude: 0,
   defaultAltitude: 0,
+  defaultAltitudeMode: 'absolute',
   flyTo: true,
   flyToZoom: 18,
+  maxSplats: Infinity,
+  minScreenSize: 2,
+  measurementUnits: 'metric',
+  transformRequest: (url) => ({ url }),
+  lighting: {},
 };
 
+/**
+ * Height in meters above and below the layer origin standing in for an unbounded crop polygon.
+ */
+const UNBOUNDED_CROP_HEIGHT = 100000;
+
+/**
+ * Default `maxzoom` of a layer, past the deepest zoom MapLibre allows.
+ */
+const DEFAULT_MAXZOOM = 24;
+
+/**
+ * Splat centers sampled to estimate the extent of a splat layer.
+ */
+const BOUNDS_SAMPLES = 20000;
+
+/**
+ * Fraction of a layer's splats its budget must move by before the layer is regenerated.
+ * Spark rebuilds a layer whenever its splat count changes, so small changes are held back.
+ */
+const SPLAT_LIMIT_STEP = 0.05;
+
+/**
+ * Fraction of an annotation's distance from the camera by which a surface must be in front of it to hide it.
+ */
+const ANNOTATION_OCCLUSION_TOLERANCE = 0.02;
+
+/**
+ * Color of the frusta drawn for capture cameras.
+ */
+const FRUSTUM_COLOR = 0xff5722;
+
 /**
  * Splat icon SVG for the control button.
  */
@@ -187,23 +993,73 @@ export class GaussianSplatControl implements IControl {
   private _modelCounter = 0;
   private _gltfLoader?: GLTFLoader;
   private _idleHandler?: () => void;
+  private _removeMapDrop?: () => void;
+  private _activeLoads: Set<AbortController> = new Set();
+  private _terrainHandler = () => this._updateTerrainAltitudes();
+  private _gizmo?: TransformGizmo;
+  private _editingLayerId: string | null = null;
+  private _georeferencingLayerId: string | null = null;
+  /** Layer point picked in georeferencing mode, waiting for its map position. */
+  private _pendingControlPoint: Vec3 | null = null;
+  private _georeferenceClickHandler = (e: MapMouseEvent) => this._onGeoreferenceClick(e);
+  private _croppingLayerId: string | null = null;
+  /** Layer whose color sliders are shown in the panel. */
+  private _colorEditingLayerId: string | null = null;
+  /** Layer whose capture cameras are listed in the panel. */
+  private _camerasLayerId: string | null = null;
+  private _cropClickHandler = (e: MapMouseEvent) => this._onCropClick(e);
+  private _zoomHandler = () => this._updateZoomVisibility();
+  private _pickClickHandler = (e: MapMouseEvent) => this._onPickClick(e);
+  private _pickMoveHandler = (e: MapMouseEvent) => this._onPickMove(e);
+  private _pickLeaveHandler = () => this._setHoveredLayer(null);
+  private _hoverPoint: { x: number; y: number } | null = null;
+  private _hoverFrame = 0;
+  private _hoveredLayerId: string | null = null;
+  private _proxies?: LayerProxies;
+  private _measurementMode: MeasurementMode | null = null;
+  /** Points picked so far for the measurement being taken. */
+  private _measurementDraft: Vec3[] = [];
+  private _measurements: Measurement[] = [];
+  private _measurementCounter = 0;
+  private _measurementUnits: MeasurementUnits;
+  private _measureClickHandler = (e: MapMouseEvent) => this._onMeasureClick(e);
+  private _measurementOverlay?: MeasurementOverlay;
+  private _annotations: Map<string, Annotation> = new Map();
+  private _annotationCounter = 0;
+  private _annotationLabels?: AnnotationLabels;
+  private _compare: CompareInfo | null = null;
+  /** Layer picked in the panel to compare, waiting for the second one. */
+  private _comparePickLayerId: string | null = null;
+  /** Time of the last frame drawn, to advance model animations. */
+  private _lastAnimationTime: number | null = null;
+  private _lighting: Required<LightingOptions>;
+  private _sceneLighting?: SceneLighting;
+  private _environmentAbortController: AbortController | null = null;
+  /** Model layers using each geometry, material and texture, which is disposed with the last of them. */
+  private _resourceRefs = new Map<GpuResource, number>();
 
   constructor(options?: GaussianSplatControlOptions) {
     this._options = { ...DEFAULT_OPTIONS, ...options };
+    this._measurementUnits = this._options.measurementUnits;
+    this._lighting = mergeLighting(DEFAULT_LIGHTING, this._options.lighting);
     this._state = {
       collapsed: this._options.collapsed,
       url: this._options.defaultUrl,
       loading: false,
+      progress: null,
       error: null,
       status: null,
       hasLayer: false,
       layerCount: 0,
       opacity: this._options.defaultOpacity,
+      layerOpacity: {},
       rotation: this._options.defaultRotation,
+      orientation: null,
       scale: this._options.defaultScale,
       longitude: this._options.defaultLongitude,
       latitude: this._options.defaultLatitude,
       altitude: this._options.defaultAltitude,
+      altitudeMode: this._options.defaultAltitudeMode,
     };
   }
 
@@ -214,6 +1070,20 @@ export class GaussianSplatControl implements IControl {
 
     // Initialize THREE.js scene
     this._initMapScene();
+    this._setupMapDrop();
+
+    // Terrain-relative layers follow terrain changes and newly loaded elevation tiles
+    map.on('terrain', this._terrainHandler);
+    map.on('idle', this._terrainHandler);
+
+    // Layers outside their zoom range are hidden, with a marker or footprint in their place
+    map.on('zoom', this._zoomHandler);
+    this._proxies = new LayerProxies(map, { onClick: (layerId) => this.zoomToLayer(layerId) });
+
+    // Layers are only picked while someone listens for the pointer events
+    map.on('click', this._pickClickHandler);
+    map.on('mousemove', this._pickMoveHandler);
+    map.on('mouseout', this._pickLeaveHandler);
 
     // Auto-load default URL if specified
     if (this._options.loadDefaultUrl && this._options.defaultUrl) {
@@ -236,6 +1106,35 @@ export class GaussianSplatControl implements IControl {
       this._idleHandler = undefined;
     }
 
+    this._removeMapDrop?.();
+    this._removeMapDrop = undefined;
+    this._map?.off('terrain', this._terrainHandler);
+    this._map?.off('idle', this._terrainHandler);
+    this._map?.off('zoom', this._zoomHandler);
+    this._proxies?.destroy();
+    this._proxies = undefined;
+    this._map?.off('click', this._pickClickHandler);
+    this._map?.off('mousemove', this._pickMoveHandler);
+    this._map?.off('mouseout', this._pickLeaveHandler);
+    cancelAnimationFrame(this._hoverFrame);
+    this._hoverFrame = 0;
+    this._hoveredLayerId = null;
+
+    this.cancelLoads();
+    this.stopTransformEdit();
+    this.stopGeoreference();
+    this.stopCropEdit();
+    this.stopMeasurement();
+    this.clearCompare();
+    this._environmentAbortController?.abort();
+    this._environmentAbortController = null;
+    this._sceneLighting?.destroy();
+    this._sceneLighting = undefined;
+    this._measurementOverlay?.destroy();
+    this._measurementOverlay = undefined;
+    this._annotationLabels?.destroy();
+    this._annotationLabels = undefined;
+
     this._removeAllLayers();
 
     this._mapScene = undefined;
@@ -313,251 +1212,699 @@ export class GaussianSplatControl implements IControl {
   }
 
   /**
-   * Load a 3D asset from a URL (auto-detects file type).
-   * Routes GLTF/GLB files to loadModel(), all others to loadSplat().
+   * Load a 3D asset from a URL, File, Blob or ArrayBuffer.
+   * The format is detected from the file signature, then the Content-Type, then the
+   * file extension, unless `options.format` is given. GLTF/GLB data is loaded as a
+   * model layer, everything else as a splat layer.
    */
-  async load(
-    url: string,
-    options?: {
-      longitude?: number;
-      latitude?: number;
-      altitude?: number;
-      rotation?: [number, number, number];
-      scale?: number;
-    }
-  ): Promise<string> {
-    const extension = this._getFileExtension(url);
-    if (extension === 'gltf' || extension === 'glb') {
-      // Use GLTF-specific rotation defaults if not explicitly set
-      const modelOptions = { ...options };
-      if (!modelOptions.rotation) {
-        modelOptions.rotation = this._options.defaultModelRotation;
-      }
-      return this.loadModel(url, modelOptions);
-    }
-    return this.loadSplat(url, options);
+  async load(source: AssetSource, options?: GaussianSplatLoadOptions): Promise<string> {
+    return this._loadAsset(source, options);
   }
 
   /**
-   * Get the file extension from a URL.
+   * Load a Gaussian splat from a URL, File, Blob or ArrayBuffer.
+   * The returned promise resolves once the splat has been downloaded and decoded.
    */
-  private _getFileExtension(url: string): string {
-    const pathname = new URL(url, 'http://dummy').pathname;
-    const ext = pathname.split('.').pop()?.toLowerCase() || '';
-    return ext;
+  async loadSplat(source: AssetSource, options?: GaussianSplatLoadOptions): Promise<string> {
+    return this._loadAsset(source, options, 'splat');
   }
 
   /**
-   * Load a Gaussian splat from a URL.
+   * Load a GLTF/GLB 3D model from a URL, File, Blob or ArrayBuffer.
+   * In-memory models must be self-contained (GLB, or GLTF with embedded buffers).
+   *
+   * @example
+   * ```typescript
+   * const modelId = await control.loadModel(
+   *   'https://maplibre.org/maplibre-gl-js/docs/assets/34M_17/34M_17.gltf',
+   *   { longitude: 148.9819, latitude: -35.39847 }
+   * );
+   * ```
    */
-  async loadSplat(
-    url: string,
-    options?: {
-      longitude?: number;
-      latitude?: number;
-      altitude?: number;
-      rotation?: [number, number, number];
-      scale?: number;
-    }
-  ): Promise<string> {
-    if (!this._map || !this._mapScene) {
-      throw new Error('Map not initialized');
-    }
+  async loadModel(source: AssetSource, options?: GaussianSplatLoadOptions): Promise<string> {
+    return this._loadAsset(source, options, 'model');
+  }
 
-    const lng = options?.longitude ?? (this._state.longitude || this._map.getCenter().lng);
-    const lat = options?.latitude ?? (this._state.latitude || this._map.getCenter().lat);
-    const alt = options?.altitude ?? (this._state.altitude || 0);
-    const rotation = options?.rotation ?? this._state.rotation;
-    const scale = options?.scale ?? this._state.scale;
+  /**
+   * Load captures of the same place taken over time, e.g. weekly site scans, as one splat
+   * layer that steps through them. Every frame shares the placement given in `options`.
+   * Frames next to the one shown are loaded ahead and the others are released.
+   * The returned promise resolves once the first frame is shown.
+   *
+   * @example
+   * ```typescript
+   * const layerId = await control.loadSequence(
+   *   [
+   *     { source: 'https://example.com/site-2024-05-06.spz', time: '2024-05-06' },
+   *     { source: 'https://example.com/site-2024-05-13.spz', time: '2024-05-13' },
+   *   ],
+   *   { longitude: 11.575, latitude: 48.137, frameDuration: 2000 }
+   * );
+   * control.playSequence(layerId);
+   * ```
+   */
+  async loadSequence(frames: SplatSequenceFrame[], options: SplatSequenceOptions = {}): Promise<string> {
+    if (frames.length === 0) throw new Error('A sequence needs at least one frame');
+    const { frameDuration = 1000, crossfade = 500, preload = 1, loop = true, ...loadOptions } = options;
+    const sequenceFrames = frames.map((frame): SequenceFrameInfo => {
+      const time = new Date(frame.time).getTime();
+      if (!Number.isFinite(time)) throw new Error(`Invalid frame time: ${String(frame.time)}`);
+      const name = frame.name || getSourceName(frame.source);
+      return { source: frame.source, name, time, mesh: null, localBounds: null, loading: null };
+    });
+
+    // The first frame sets up the layer like any splat; the others are added to its RTC group
+    const layerId = await this._loadAsset(frames[0].source, { ...loadOptions, name: sequenceFrames[0].name }, 'splat');
+    const layer = this._splatLayers.get(layerId)!;
+    sequenceFrames[0].mesh = layer.mesh;
+    sequenceFrames[0].localBounds = layer.localBounds;
+    if (options.name) layer.name = options.name;
+    layer.sequence = {
+      frames: sequenceFrames,
+      format: options.format,
+      index: 0,
+      target: 0,
+      playing: false,
+      loop,
+      frameDuration: Math.max(frameDuration, 0),
+      crossfade: Math.max(crossfade, 0),
+      preload: Math.max(Math.floor(preload), 0),
+      shownAt: performance.now(),
+      fadingMesh: null,
+      abortController: createLinkedAbortController(options.signal),
+    };
+    this._preloadSequenceFrames(layer);
+    this._render();
+    return layerId;
+  }
+
+  /**
+   * Step through the frames of a sequence layer. A sequence that does not loop and shows
+   * its last frame starts over.
+   */
+  playSequence(layerId: string): void {
+    const layer = this._splatLayers.get(layerId);
+    const sequence = layer?.sequence;
+    if (!layer || !sequence || sequence.playing) return;
+    if (!sequence.loop && sequence.target === sequence.frames.length - 1) {
+      this.seekSequence(layerId, 0).catch(() => {});
+    }
+    sequence.playing = true;
+    sequence.shownAt = performance.now();
+    // Retries frames that failed to load
+    this._preloadSequenceFrames(layer);
+    this._map?.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Stop stepping through the frames of a sequence layer.
+   */
+  pauseSequence(layerId: string): void {
+    const sequence = this._splatLayers.get(layerId)?.sequence;
+    if (!sequence || !sequence.playing) return;
+    sequence.playing = false;
+    this._render();
+  }
+
+  /**
+   * Show a frame of a sequence layer by index. Resolves once the frame is shown, which
+   * waits for it to load if needed. A later seek takes over from one still loading.
+   */
+  async seekSequence(layerId: string, index: number): Promise<void> {
+    const layer = this._splatLayers.get(layerId);
+    const sequence = layer?.sequence;
+    if (!layer || !sequence) throw new Error(`Sequence not found: ${layerId}`);
+    const target = Math.min(Math.max(Math.round(index), 0), sequence.frames.length - 1);
+    sequence.target = target;
+    this._preloadSequenceFrames(layer);
+    this._updateSequenceTimeline(layer);
+    await this._loadSequenceFrame(layer, target);
+    if (sequence.target === target && this._splatLayers.get(layerId) === layer) {
+      this._showSequenceFrame(layer, target);
+    }
+  }
+
+  /**
+   * Get the frames and playback state of a sequence layer, or null if the layer is not a sequence.
+   */
+  getSequenceState(layerId: string): SplatSequenceState | null {
+    const sequence = this._splatLayers.get(layerId)?.sequence;
+    if (!sequence) return null;
+    return {
+      frameIndex: sequence.index,
+      frames: sequence.frames.map(({ name, time }) => ({ name, time })),
+      playing: sequence.playing,
+      loop: sequence.loop,
+    };
+  }
+
+  /**
+   * Cancel all in-progress loads. Their promises reject with an AbortError.
+   */
+  cancelLoads(): void {
+    for (const controller of this._activeLoads) {
+      controller.abort(new DOMException('Load cancelled', 'AbortError'));
+    }
+  }
+
+  /**
+   * Download or read an asset, work out its format and add it to the scene.
+   *
+   * @param kind - Layer type to create, or undefined to decide from the detected format.
+   */
+  private async _loadAsset(
+    source: AssetSource,
+    options: GaussianSplatLoadOptions = {},
+    kind?: 'splat' | 'model'
+  ): Promise<string> {
+    if (!this._map || !this._mapScene) {
+      throw new Error('Map not initialized');
+    }
+
+    // A projected origin replaces the WGS84 location, and a saved georeference fixes the whole placement
+    const origin = options.origin ?? null;
+    if (origin) {
+      const [longitude, latitude, altitude] = toWgs84(origin.crs, origin.coordinates);
+      options = { ...options, longitude, latitude, altitude };
+    }
+    const georeference = options.georeference ?? null;
+    if (georeference) {
+      const { orientation, ...transform } = georeference.transform;
+      options = { ...options, ...transform, orientation: orientation ?? undefined };
+    }
 
-    this._state.url = url;
+    const lng = options.longitude ?? (this._state.longitude || this._map.getCenter().lng);
+    const lat = options.latitude ?? (this._state.latitude || this._map.getCenter().lat);
+    const alt = options.altitude ?? (this._state.altitude || 0);
+    const altitudeMode = options.altitudeMode ?? this._state.altitudeMode;
+    const scale = options.scale ?? this._state.scale;
+    const opacity = Math.min(Math.max(options.opacity ?? this._state.opacity, 0), 1);
+    const minzoom = options.minzoom ?? 0;
+    const maxzoom = options.maxzoom ?? DEFAULT_MAXZOOM;
+    const proxy = options.proxy ?? 'marker';
+    const sourceName = options.name || getSourceName(source);
+    const url = typeof source === 'string' ? source : sourceName;
+    const expectModel = kind ? kind === 'model' : isModelFormat(options.format ?? getFormatFromName(sourceName));
+
+    if (typeof source === 'string') this._state.url = source;
     this._state.loading = true;
+    this._state.progress = null;
     this._state.error = null;
-    this._state.status = 'Loading splat...';
+    this._state.status = expectModel ? 'Loading model...' : 'Loading splat...';
     this._state.longitude = lng;
     this._state.latitude = lat;
     this._state.altitude = alt;
+    this._state.altitudeMode = altitudeMode;
     this._render();
 
+    const abortController = createLinkedAbortController(options.signal);
+    this._activeLoads.add(abortController);
+
     try {
+      this._emit('loadstart', { url });
+      // Tell transformRequest what is being fetched when the type is known up front
+      const requestKind: AssetRequestKind =
+        kind ?? (options.format || getFormatFromName(sourceName) ? (expectModel ? 'model' : 'splat') : 'asset');
+      const { data, contentType, filename } = await this._readSource(source, url, requestKind, abortController.signal);
+
+      // Explicit format wins; load() must know the format, loadSplat()/loadModel() only use it as a hint
+      const hints = { contentType, name: filename || sourceName };
+      const format = options.format ?? (kind ? inferAssetFormat(data, hints) : detectAssetFormat(data, hints));
+      const isModel = kind ? kind === 'model' : isModelFormat(format);
+
+      // Use model-specific rotation defaults for GLTF/GLB
+      const orientation = options.orientation ? this._resolveOrientation(options.orientation, isModel) : null;
+      const rotation = orientation
+        ? orientationToRotation(orientation, orientation.upAxis!, isModel)
+        : (options.rotation ?? (isModel ? this._options.defaultModelRotation : this._state.rotation));
+
       // Create RTC group for georeferenced positioning
       // eslint-disable-next-line @typescript-eslint/no-explicit-any
       const rtcGroup = (MTP.Creator as any).createMercatorRTCGroup(
-        [lng, lat, alt],
+        [lng, lat, this._resolveAltitude(lng, lat, alt, altitudeMode)],
         [
           THREE.MathUtils.degToRad(rotation[0]),
           THREE.MathUtils.degToRad(rotation[1]),
           THREE.MathUtils.degToRad(rotation[2]),
         ],
-        scale
+        scale // Pass user scale to RTC group for mercator coordinate scaling
       );
 
-      // Create the splat mesh - it handles loading internally
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const splatMesh = new (SplatMesh as any)({ url });
+      let layerId: string;
+      let name: string;
+      if (isModel) {
+        const { scene: modelScene, animations } = await this._parseModel(data, source, abortController.signal);
+        abortController.signal.throwIfAborted();
 
-      // Apply scale
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      if ((splatMesh as any).scale?.setScalar) {
-        // eslint-disable-next-line @typescript-eslint/no-explicit-any
-        (splatMesh as any).scale.setScalar(scale);
-      }
+        // Apply scale with Y-axis flip for proper GLTF orientation
+        // MapLibre uses a different coordinate system than GLTF
+        // Scale is applied to both RTC group and model (like splats)
+        modelScene.scale.set(scale, -scale, scale);
 
-      // Add to RTC group and scene immediately
-      // SplatMesh loads asynchronously and renders when ready
-      rtcGroup.add(splatMesh);
-      this._mapScene.addObject(rtcGroup);
-
-      // Store layer info
-      const layerId = `splat-${this._layerCounter++}`;
-      this._splatLayers.set(layerId, {
-        id: layerId,
-        url,
-        mesh: splatMesh,
-        rtcGroup,
-        longitude: lng,
-        latitude: lat,
-        altitude: alt,
-      });
+        // Add model to RTC group and scene (lighting is handled by the global scene)
+        this._applyModelShadows(modelScene);
+        rtcGroup.add(modelScene);
+        this._mapScene.addObject(rtcGroup);
+
+        layerId = `model-${this._modelCounter++}`;
+        name = sourceName || filename || layerId;
+        this._modelLayers.set(layerId, {
+          id: layerId,
+          url: url || name,
+          name,
+          scene: modelScene,
+          rtcGroup,
+          longitude: lng,
+          latitude: lat,
+          altitude: alt,
+          altitudeMode,
+          rotation: [...rotation],
+          orientation,
+          scale,
+          opacity,
+          colorAdjustments: { ...NEUTRAL_COLOR_ADJUSTMENTS, ...options.colorAdjustments },
+          colorUniforms: null,
+          origin: georeference ? null : origin,
+          controlPoints: georeference ? [...georeference.controlPoints] : [],
+          georeference,
+          visible: true,
+          minzoom,
+          maxzoom,
+          proxy,
+          localBounds: this._computeModelBounds(modelScene),
+          animations,
+          mixer: null,
+          resources: this._retainResources(modelScene),
+        });
+      } else {
+        const splatMesh = await this._createSplatMesh(data, format, sourceName || filename || '');
+        if (abortController.signal.aborted) {
+          splatMesh.dispose?.();
+          abortController.signal.throwIfAborted();
+        }
+
+        // Apply scale
+        if (splatMesh.scale?.setScalar) {
+          splatMesh.scale.setScalar(scale);
+        }
+
+        // Add to RTC group and scene only once the data is ready
+        rtcGroup.add(splatMesh);
+        this._mapScene.addObject(rtcGroup);
 
-      // Fly to location
-      if (this._options.flyTo) {
-        this._map.flyTo({
-          center: [lng, lat],
-          zoom: this._options.flyToZoom,
-          pitch: 60,
-          duration: 1500,
+        layerId = `splat-${this._layerCounter++}`;
+        name = sourceName || filename || layerId;
+        this._splatLayers.set(layerId, {
+          id: layerId,
+          url: url || name,
+          name,
+          mesh: splatMesh,
+          rtcGroup,
+          longitude: lng,
+          latitude: lat,
+          altitude: alt,
+          altitudeMode,
+          rotation: [...rotation],
+          orientation,
+          scale,
+          opacity,
+          colorAdjustments: { ...NEUTRAL_COLOR_ADJUSTMENTS, ...options.colorAdjustments },
+          colorUniforms: null,
+          origin: georeference ? null : origin,
+          controlPoints: georeference ? [...georeference.controlPoints] : [],
+          georeference,
+          visible: true,
+          minzoom,
+          maxzoom,
+          proxy,
+          crop: null,
+          cropEdits: [],
+          priority: Math.max(options.priority ?? 1, 0),
+          localBounds: this._computeSplatBounds(splatMesh),
+          splatLimit: splatMesh.packedSplats?.numSplats ?? 0,
+          screenSize: 0,
+          culled: false,
+          cameras: [],
+          cameraFrusta: null,
+          sequence: null,
         });
+        if (options.crop) this.setLayerCrop(layerId, options.crop);
+
+        // Spark resets the splat count from the data every frame, so cap it after that
+        const splatLayer = this._splatLayers.get(layerId)!;
+        splatMesh.onFrame = () => {
+          splatMesh.numSplats = Math.min(splatMesh.numSplats, this._meshSplatLimit(splatLayer, splatMesh));
+        };
       }
 
+      const layer = (this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId))!;
+      this._applyLayerOpacity(layer);
+      if (!isNeutralColorAdjustments(layer.colorAdjustments)) this._applyLayerColorAdjustments(layer);
+      this._state.layerOpacity = { ...this._state.layerOpacity, [layerId]: opacity };
+      this._updateZoomVisibility();
+
+      if (this._options.flyTo) this.zoomToLayer(layerId);
+
       this._state.hasLayer = true;
       this._state.layerCount = this._splatLayers.size + this._modelLayers.size;
-      this._state.loading = false;
-      this._state.status = `Loaded: ${this._getFilename(url)}`;
+      this._state.loading = this._activeLoads.size > 1;
+      this._state.progress = null;
+      this._state.status = `Loaded: ${name}`;
       this._render();
-      this._emit('splatload', { url, splatId: layerId });
+      if (isModel) {
+        this._emit('modelload', { url: url || name, modelId: layerId });
+      } else {
+        this._emit('splatload', { url: url || name, splatId: layerId });
+      }
 
       return layerId;
     } catch (err) {
-      this._state.loading = false;
-      this._state.error = `Failed to load: ${err instanceof Error ? err.message : String(err)}`;
-      this._render();
-      this._emit('error', { error: this._state.error });
+      this._handleLoadError(err, abortController);
       throw err;
+    } finally {
+      this._activeLoads.delete(abortController);
     }
   }
 
   /**
-   * Load a GLTF/GLB 3D model from a URL.
-   *
-   * @example
-   * ```typescript
-   * const modelId = await control.loadModel(
-   *   'https://maplibre.org/maplibre-gl-js/docs/assets/34M_17/34M_17.gltf',
-   *   { longitude: 148.9819, latitude: -35.39847 }
-   * );
-   * ```
+   * Create a SplatMesh from file bytes and wait for Spark to decode it.
    */
-  async loadModel(
-    url: string,
-    options?: {
-      longitude?: number;
-      latitude?: number;
-      altitude?: number;
-      rotation?: [number, number, number];
-      scale?: number;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private async _createSplatMesh(data: ArrayBuffer, format: AssetFormat | null, fileName: string): Promise<any> {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const splatMesh = new (SplatMesh as any)({
+      fileBytes: new Uint8Array(data),
+      fileType: toSplatFileType(format),
+      fileName,
+    });
+    try {
+      await splatMesh.initialized;
+    } catch (err) {
+      splatMesh.dispose?.();
+      throw err;
     }
-  ): Promise<string> {
-    if (!this._map || !this._mapScene) {
-      throw new Error('Map not initialized');
+    this._interleaveSplats(splatMesh.packedSplats);
+    return splatMesh;
+  }
+
+  /**
+   * Reorder loaded splats so that the first splats of a layer, which are all the budget
+   * draws of it, are spread over the whole layer. Files are often stored sorted by
+   * position, and in file order they would leave out whole regions. Done on every load,
+   * as `maxSplats` can be set later and the order matters for nothing else.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _interleaveSplats(packedSplats: any): void {
+    const { numSplats, packedArray, extra } = packedSplats ?? {};
+    if (!packedArray || numSplats < 2) return;
+    const order = interleavedOrder(numSplats);
+    // Words per splat of the packed splats and of each level of spherical harmonics
+    const arrays: [Uint32Array, number][] = [[packedArray, 4]];
+    for (const [key, words] of [['sh1', 2], ['sh2', 4], ['sh3', 4]] as const) {
+      if (extra?.[key] instanceof Uint32Array) arrays.push([extra[key], words]);
     }
+    for (const [array, words] of arrays) {
+      const source = array.slice(0, numSplats * words);
+      for (let i = 0; i < numSplats; i++) {
+        for (let word = 0; word < words; word++) array[i * words + word] = source[order[i] * words + word];
+      }
+    }
+    packedSplats.needsUpdate = true;
+  }
 
-    const lng = options?.longitude ?? (this._state.longitude || this._map.getCenter().lng);
-    const lat = options?.latitude ?? (this._state.latitude || this._map.getCenter().lat);
-    const alt = options?.altitude ?? (this._state.altitude || 0);
-    // Use model-specific rotation defaults for GLTF/GLB
-    const rotation = options?.rotation ?? this._options.defaultModelRotation;
-    const scale = options?.scale ?? this._state.scale;
+  /**
+   * Load a frame of a sequence into the layer's RTC group, hidden until it is shown.
+   * Concurrent calls for the same frame share one load.
+   */
+  private _loadSequenceFrame(layer: SplatLayerInfo, index: number): Promise<void> {
+    const sequence = layer.sequence!;
+    const frame = sequence.frames[index];
+    if (frame.mesh) return Promise.resolve();
+    if (frame.loading) return frame.loading;
+    frame.loading = (async () => {
+      const url = typeof frame.source === 'string' ? frame.source : frame.name;
+      const signal = sequence.abortController.signal;
+      try {
+        const { data, contentType, filename } = await this._readSource(frame.source, url, 'splat', signal);
+        const format = sequence.format ?? inferAssetFormat(data, { contentType, name: filename || frame.name });
+        const splatMesh = await this._createSplatMesh(data, format, frame.name);
+        if (signal.aborted) {
+          splatMesh.dispose?.();
+          signal.throwIfAborted();
+        }
+        splatMesh.visible = false;
+        if (splatMesh.scale?.setScalar) splatMesh.scale.setScalar(layer.scale);
+        splatMesh.onFrame = () => {
+          splatMesh.numSplats = Math.min(splatMesh.numSplats, this._meshSplatLimit(layer, splatMesh));
+        };
+        layer.rtcGroup.add(splatMesh);
+        frame.mesh = splatMesh;
+        frame.localBounds = this._computeSplatBounds(splatMesh);
+      } finally {
+        frame.loading = null;
+      }
+    })();
+    // Reported once here; callers waiting for the frame see the rejection too
+    frame.loading.catch((err) => this._handleSequenceFrameError(layer, frame, err));
+    return frame.loading;
+  }
 
-    this._state.url = url;
-    this._state.loading = true;
-    this._state.error = null;
-    this._state.status = 'Loading model...';
-    this._state.longitude = lng;
-    this._state.latitude = lat;
-    this._state.altitude = alt;
+  /**
+   * Load the frames within `preload` of the frame asked for, and release the others apart
+   * from the frames shown and fading out.
+   */
+  private _preloadSequenceFrames(layer: SplatLayerInfo): void {
+    const sequence = layer.sequence!;
+    const count = sequence.frames.length;
+    const wanted = new Set([sequence.index]);
+    for (let offset = -sequence.preload; offset <= sequence.preload; offset++) {
+      const index = sequence.target + offset;
+      if (sequence.loop) wanted.add(((index % count) + count) % count);
+      else if (index >= 0 && index < count) wanted.add(index);
+    }
+
+    sequence.frames.forEach((frame, index) => {
+      if (wanted.has(index)) {
+        void this._loadSequenceFrame(layer, index);
+      } else if (frame.mesh && frame.mesh !== sequence.fadingMesh) {
+        layer.rtcGroup.remove(frame.mesh);
+        frame.mesh.dispose?.();
+        frame.mesh = null;
+        frame.localBounds = null;
+      }
+    });
+  }
+
+  /**
+   * Report a sequence frame that failed to load and stop playback at the frame before it.
+   */
+  private _handleSequenceFrameError(layer: SplatLayerInfo, frame: SequenceFrameInfo, err: unknown): void {
+    if (isAbortError(err) || this._splatLayers.get(layer.id) !== layer) return;
+    layer.sequence!.playing = false;
+    this._state.error = `Failed to load: ${err instanceof Error ? err.message : String(err)}`;
     this._render();
+    const url = typeof frame.source === 'string' ? frame.source : frame.name;
+    this._emit('error', { url, error: this._state.error });
+  }
 
-    try {
-      // Initialize GLTF loader if not already done
-      if (!this._gltfLoader) {
-        this._gltfLoader = new GLTFLoader();
+  /**
+   * Make a loaded frame the layer's mesh, carrying over the crop, color grading and camera
+   * frusta, and fade it in over the frame shown before.
+   */
+  private _showSequenceFrame(layer: SplatLayerInfo, index: number): void {
+    const sequence = layer.sequence!;
+    const frame = sequence.frames[index];
+    if (index === sequence.index || !frame.mesh) return;
+
+    const previous = layer.mesh;
+    if (sequence.fadingMesh && sequence.fadingMesh !== frame.mesh) sequence.fadingMesh.visible = false;
+    for (const edit of layer.cropEdits) previous.remove(edit);
+    if (layer.cameraFrusta) {
+      previous.remove(layer.cameraFrusta);
+      frame.mesh.add(layer.cameraFrusta);
+    }
+
+    layer.mesh = frame.mesh;
+    layer.localBounds = frame.localBounds;
+    layer.splatLimit = frame.mesh.packedSplats?.numSplats ?? 0;
+    if (frame.mesh.scale?.setScalar) frame.mesh.scale.setScalar(layer.scale);
+    this._applyLayerCrop(layer);
+    // Every frame reads the layer's color uniforms once it has been graded
+    if (layer.colorUniforms) {
+      if (!frame.mesh.objectModifier) this._createSplatColorUniforms(frame.mesh, layer.colorUniforms);
+      frame.mesh.updateVersion?.();
+    }
+    frame.mesh.visible = !layer.culled;
+
+    sequence.index = index;
+    sequence.shownAt = performance.now();
+    sequence.fadingMesh = sequence.crossfade > 0 ? previous : null;
+    if (sequence.fadingMesh) {
+      frame.mesh.opacity = 0;
+    } else {
+      previous.visible = false;
+      this._applyLayerOpacity(layer);
+    }
+    this._preloadSequenceFrames(layer);
+    this._updateSequenceTimeline(layer);
+    this._map?.triggerRepaint();
+    this._emit('framechange', { layerId: layer.id, frame: { index, name: frame.name, time: frame.time } });
+  }
+
+  /**
+   * Crossfade between frames of sequences and advance the playing ones.
+   */
+  private _updateSequences(): void {
+    const now = performance.now();
+    for (const layer of this._splatLayers.values()) {
+      const sequence = layer.sequence;
+      if (!sequence) continue;
+
+      if (sequence.fadingMesh) {
+        const t = Math.min((now - sequence.shownAt) / sequence.crossfade, 1);
+        layer.mesh.opacity = layer.opacity * t;
+        sequence.fadingMesh.opacity = layer.opacity * (1 - t);
+        if (t === 1) {
+          sequence.fadingMesh.visible = false;
+          sequence.fadingMesh = null;
+          this._preloadSequenceFrames(layer);
+        }
       }
 
-      // Create RTC group for georeferenced positioning
-      // GLTF models need rotation to align with map coordinate system
-      // Create RTC group for georeferenced positioning
-      // eslint-disable-next-line @typescript-eslint/no-explicit-any
-      const rtcGroup = (MTP.Creator as any).createMercatorRTCGroup(
-        [lng, lat, alt],
-        [
-          THREE.MathUtils.degToRad(rotation[0]),
-          THREE.MathUtils.degToRad(rotation[1]),
-          THREE.MathUtils.degToRad(rotation[2]),
-        ],
-        scale // Pass user scale to RTC group for mercator coordinate scaling
+      if (sequence.target !== sequence.index) {
+        // Frames asked for are shown once they have loaded, holding playback until then
+        if (sequence.frames[sequence.target].mesh) this._showSequenceFrame(layer, sequence.target);
+      } else if (sequence.playing && now - sequence.shownAt >= sequence.frameDuration) {
+        const next = sequence.index + 1;
+        if (next < sequence.frames.length || sequence.loop) {
+          sequence.target = next % sequence.frames.length;
+          if (sequence.frames[sequence.target].mesh) this._showSequenceFrame(layer, sequence.target);
+          else this._preloadSequenceFrames(layer);
+          this._updateSequenceTimeline(layer);
+        } else {
+          sequence.playing = false;
+          this._render();
+        }
+      }
+    }
+  }
+
+  /**
+   * Stop loading the frames of a removed sequence and release those not shown.
+   */
+  private _releaseSequence(layer: SplatLayerInfo): void {
+    const sequence = layer.sequence;
+    if (!sequence) return;
+    sequence.playing = false;
+    sequence.abortController.abort(new DOMException('Layer removed', 'AbortError'));
+    for (const frame of sequence.frames) {
+      if (frame.mesh && frame.mesh !== layer.mesh) frame.mesh.dispose?.();
+      frame.mesh = null;
+    }
+  }
+
+  /**
+   * Parse GLTF/GLB bytes, resolving external resources relative to the source URL.
+   * External buffers and textures are fetched up front so each request goes through
+   * `transformRequest`, then handed to the loader as object URLs.
+   */
+  private async _parseModel(
+    data: ArrayBuffer,
+    source: AssetSource,
+    signal: AbortSignal
+  ): Promise<{ scene: THREE.Group; animations: THREE.AnimationClip[] }> {
+    // Initialize GLTF loader if not already done
+    if (!this._gltfLoader) {
+      this._gltfLoader = new GLTFLoader();
+    }
+
+    const resourcePath = typeof source === 'string' ? THREE.LoaderUtils.extractUrlBase(source) : '';
+    const objectUrls = new Map<string, string>();
+    try {
+      await Promise.all(
+        getExternalGltfUris(data).map(async (uri) => {
+          const resolved = THREE.LoaderUtils.resolveURL(uri, resourcePath);
+          const request = this._transformRequest(resolved, 'model-resource');
+          const resource = await fetchAsset(request.url, { signal, init: request.init });
+          const blob = new Blob([resource.data], resource.contentType ? { type: resource.contentType } : undefined);
+          objectUrls.set(resolved, URL.createObjectURL(blob));
+        })
       );
 
-      // Load the GLTF model
-      const gltf = await this._gltfLoader.loadAsync(url);
-      const modelScene = gltf.scene;
-
-      // Apply scale with Y-axis flip for proper GLTF orientation
-      // MapLibre uses a different coordinate system than GLTF
-      // Scale is applied to both RTC group and model (like splats)
-      modelScene.scale.set(scale, -scale, scale);
-
-      // Add model to RTC group and scene (lighting is handled by the global scene)
-      rtcGroup.add(modelScene);
-      this._mapScene.addObject(rtcGroup);
-
-      // Store layer info
-      const layerId = `model-${this._modelCounter++}`;
-      this._modelLayers.set(layerId, {
-        id: layerId,
-        url,
-        scene: modelScene,
-        rtcGroup,
-        longitude: lng,
-        latitude: lat,
-        altitude: alt,
+      const manager = new THREE.LoadingManager();
+      manager.setURLModifier((url) => objectUrls.get(url) ?? url);
+      // The parser captures the manager synchronously, so concurrent loads don't interfere
+      this._gltfLoader.manager = manager;
+      const gltf = await this._gltfLoader.parseAsync(data, resourcePath);
+      return { scene: gltf.scene, animations: gltf.animations ?? [] };
+    } finally {
+      for (const objectUrl of objectUrls.values()) {
+        URL.revokeObjectURL(objectUrl);
+      }
+    }
+  }
+
+  /**
+   * Read the bytes of an asset source, downloading URLs with progress reporting.
+   */
+  private async _readSource(
+    source: AssetSource,
+    url: string,
+    kind: AssetRequestKind,
+    signal: AbortSignal
+  ): Promise<FetchedAsset> {
+    if (typeof source === 'string') {
+      const request = this._transformRequest(source, kind);
+      return fetchAsset(request.url, {
+        signal,
+        init: request.init,
+        onProgress: (loaded, total) => this._onProgress(url, loaded, total),
       });
+    }
+    const data = await readSourceBytes(source);
+    signal.throwIfAborted();
+    this._onProgress(url, data.byteLength, data.byteLength);
+    return { data, contentType: source instanceof Blob ? source.type || null : null, filename: null };
+  }
 
-      // Fly to location
-      if (this._options.flyTo) {
-        this._map.flyTo({
-          center: [lng, lat],
-          zoom: this._options.flyToZoom,
-          pitch: 60,
-          duration: 1500,
-        });
-      }
+  /**
+   * Apply the `transformRequest` option to an asset URL.
+   */
+  private _transformRequest(url: string, kind: AssetRequestKind): { url: string; init: RequestInit } {
+    const params = this._options.transformRequest(url, kind);
+    return {
+      url: params?.url || url,
+      init: { headers: params?.headers, credentials: params?.credentials },
+    };
+  }
 
-      this._state.hasLayer = true;
-      this._state.layerCount = this._splatLayers.size + this._modelLayers.size;
-      this._state.loading = false;
-      this._state.status = `Loaded: ${this._getFilename(url)}`;
-      this._render();
-      this._emit('modelload', { url, modelId: layerId });
+  private _onProgress(url: string, loaded: number, total: number): void {
+    const progress = total > 0 ? Math.min(loaded / total, 1) : null;
+    // Only re-render the panel when the displayed percentage changes
+    const changed =
+      progress === null || this._state.progress === null
+        ? progress !== this._state.progress
+        : Math.floor(progress * 100) !== Math.floor(this._state.progress * 100);
+    this._state.progress = progress;
+    if (changed) this._render();
+    this._emit('progress', { url, loaded, total });
+  }
 
-      return layerId;
-    } catch (err) {
-      this._state.loading = false;
-      this._state.error = `Failed to load: ${err instanceof Error ? err.message : String(err)}`;
+  /**
+   * Update state after a failed or cancelled load.
+   */
+  private _handleLoadError(err: unknown, abortController: AbortController): void {
+    this._state.loading = this._activeLoads.size > 1;
+    this._state.progress = null;
+    if (abortController.signal.aborted || isAbortError(err)) {
+      this._state.status = 'Load cancelled';
       this._render();
-      this._emit('error', { error: this._state.error });
-      throw err;
+      return;
     }
+    this._state.error = `Failed to load: ${err instanceof Error ? err.message : String(err)}`;
+    this._render();
+    this._emit('error', { error: this._state.error });
   }
 
   /**
@@ -567,8 +1914,23 @@ export class GaussianSplatControl implements IControl {
     const layer = this._modelLayers.get(layerId);
     if (!layer || !this._mapScene) return;
 
+    if (this._editingLayerId === layerId) this.stopTransformEdit();
+    if (this._georeferencingLayerId === layerId) this.stopGeoreference();
+    if (this._colorEditingLayerId === layerId) this._colorEditingLayerId = null;
+    if (this._hoveredLayerId === layerId) this._hoveredLayerId = null;
+    this._clearLayerCompare(layerId);
+    layer.mixer?.stopAllAction();
+    layer.mixer?.uncacheRoot(layer.scene);
+    // MTP disposes the geometries and materials of removed objects even if other layers share them
+    layer.rtcGroup.remove(layer.scene);
     this._mapScene.removeObject(layer.rtcGroup);
+    this._releaseResources(layer.resources);
     this._modelLayers.delete(layerId);
+    this._removeLayerAnnotations(layerId);
+    this._updateZoomVisibility();
+    const layerOpacity = { ...this._state.layerOpacity };
+    delete layerOpacity[layerId];
+    this._state.layerOpacity = layerOpacity;
 
     this._state.hasLayer = this._splatLayers.size > 0 || this._modelLayers.size > 0;
     this._state.layerCount = this._splatLayers.size + this._modelLayers.size;
@@ -586,6 +1948,173 @@ export class GaussianSplatControl implements IControl {
     }
   }
 
+  /**
+   * List the animation clips of a model layer. Empty for unknown layers and splats.
+   */
+  listAnimations(layerId: string): ModelAnimation[] {
+    const layer = this._modelLayers.get(layerId);
+    if (!layer) return [];
+    return layer.animations.map((clip) => ({
+      name: clip.name,
+      duration: clip.duration,
+      playing: layer.mixer?.existingAction(clip)?.isRunning() ?? false,
+    }));
+  }
+
+  /**
+   * Play an animation clip of a model layer, advanced by the map's render loop.
+   * Calling this for a clip already playing changes its options without restarting it.
+   * Several clips may play at once.
+   */
+  playAnimation(layerId: string, name: string, options: ModelAnimationOptions = {}): void {
+    const layer = this._modelLayers.get(layerId);
+    if (!layer) throw new Error(`Layer not found: ${layerId}`);
+    const clip = layer.animations.find((c) => c.name === name);
+    if (!clip) throw new Error(`Animation not found: ${name}`);
+
+    if (!layer.mixer) {
+      layer.mixer = new THREE.AnimationMixer(layer.scene);
+      // Show the play button again once a clip that does not loop has finished
+      layer.mixer.addEventListener('finished', () => this._render());
+    }
+    const loop = options.loop ?? true;
+    const action = layer.mixer.clipAction(clip);
+    action.setLoop(loop ? THREE.LoopRepeat : THREE.LoopOnce, Infinity);
+    action.clampWhenFinished = !loop;
+    action.timeScale = options.speed ?? 1;
+    if (!action.isRunning()) action.reset().play();
+    this._map?.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Stop an animation clip of a model layer, or all of them if no name is given.
+   * Stopped models go back to their rest pose.
+   */
+  stopAnimation(layerId: string, name?: string): void {
+    const mixer = this._modelLayers.get(layerId)?.mixer;
+    if (!mixer) return;
+    if (name === undefined) {
+      mixer.stopAllAction();
+    } else {
+      const clip = this._modelLayers.get(layerId)?.animations.find((c) => c.name === name);
+      if (clip) mixer.existingAction(clip)?.stop();
+    }
+    this._map?.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Advance the animations of model layers to the frame about to be drawn.
+   */
+  private _updateAnimations(): void {
+    const now = performance.now();
+    const delta = this._lastAnimationTime === null ? 0 : (now - this._lastAnimationTime) / 1000;
+    this._lastAnimationTime = now;
+    for (const layer of this._modelLayers.values()) layer.mixer?.update(delta);
+  }
+
+  /**
+   * Change the lighting of GLTF/GLB models. Options left out keep their current values.
+   * Resolves once the environment map, if changed, has loaded.
+   *
+   * @example
+   * ```typescript
+   * await control.setLighting({
+   *   ambient: { intensity: 0.3 },
+   *   directional: [],
+   *   sun: { date: '2024-06-21T15:00:00+02:00' },
+   *   shadows: true,
+   * });
+   * ```
+   */
+  async setLighting(options: LightingOptions): Promise<void> {
+    const date = options.sun?.date;
+    if (date !== undefined && Number.isNaN(new Date(date).getTime())) {
+      throw new Error(`Invalid sun date: ${String(date)}`);
+    }
+    const environmentChanged = options.environment !== undefined && options.environment !== this._lighting.environment;
+    this._lighting = mergeLighting(this._lighting, options);
+    this._sceneLighting?.setLighting(this._lighting);
+    for (const layer of this._modelLayers.values()) this._applyModelShadows(layer.scene);
+    this._map?.triggerRepaint();
+    if (environmentChanged) await this._loadEnvironment();
+  }
+
+  /**
+   * Get the current lighting, with defaults filled in.
+   */
+  getLighting(): LightingOptions {
+    const { ambient, hemisphere, directional, sun } = this._lighting;
+    return {
+      ...this._lighting,
+      ambient: { ...ambient },
+      hemisphere: { ...hemisphere },
+      directional: directional.map((light) => ({ ...light })),
+      sun: sun && { ...sun },
+    };
+  }
+
+  /**
+   * Load the environment map of the lighting options into the scene, or remove it.
+   * A newer call supersedes one still loading.
+   */
+  private async _loadEnvironment(): Promise<void> {
+    this._environmentAbortController?.abort();
+    this._environmentAbortController = null;
+    const source = this._lighting.environment;
+    if (!this._sceneLighting) return;
+    if (!source) {
+      this._sceneLighting.setEnvironment(null);
+      return;
+    }
+
+    const abortController = new AbortController();
+    this._environmentAbortController = abortController;
+    let data: ArrayBuffer;
+    try {
+      if (typeof source === 'string') {
+        const request = this._transformRequest(source, 'environment');
+        ({ data } = await fetchAsset(request.url, { signal: abortController.signal, init: request.init }));
+      } else {
+        data = await readSourceBytes(source);
+      }
+    } catch (err) {
+      if (abortController.signal.aborted) return;
+      throw err;
+    }
+    if (abortController.signal.aborted || !this._sceneLighting) return;
+    const texture = await this._sceneLighting.loadEnvironment(data);
+    if (abortController.signal.aborted || !this._sceneLighting) {
+      texture.dispose();
+      return;
+    }
+    this._environmentAbortController = null;
+    this._sceneLighting.setEnvironment(texture);
+  }
+
+  /**
+   * Report an environment map given in the control options that failed to load.
+   */
+  private _handleEnvironmentError(err: unknown): void {
+    if (isAbortError(err)) return;
+    this._state.error = `Failed to load environment map: ${err instanceof Error ? err.message : String(err)}`;
+    this._render();
+    this._emit('error', { error: this._state.error });
+  }
+
+  /**
+   * Let the meshes of a model cast and receive shadows while the lighting draws them.
+   */
+  private _applyModelShadows(scene: THREE.Object3D): void {
+    const shadows = this._lighting.shadows;
+    scene.traverse((child) => {
+      if (!(child as THREE.Mesh).isMesh) return;
+      child.castShadow = shadows;
+      child.receiveShadow = shadows;
+    });
+  }
+
   /**
    * Remove a splat layer by ID.
    */
@@ -593,8 +2122,23 @@ export class GaussianSplatControl implements IControl {
     const layer = this._splatLayers.get(layerId);
     if (!layer || !this._mapScene) return;
 
+    if (this._editingLayerId === layerId) this.stopTransformEdit();
+    if (this._georeferencingLayerId === layerId) this.stopGeoreference();
+    if (this._croppingLayerId === layerId) this.stopCropEdit();
+    if (this._colorEditingLayerId === layerId) this._colorEditingLayerId = null;
+    if (this._camerasLayerId === layerId) this._camerasLayerId = null;
+    if (this._hoveredLayerId === layerId) this._hoveredLayerId = null;
+    this._clearLayerCompare(layerId);
+    this.setLayerCameras(layerId, null);
+    this._releaseSequence(layer);
     this._mapScene.removeObject(layer.rtcGroup);
+    layer.mesh.dispose?.();
     this._splatLayers.delete(layerId);
+    this._removeLayerAnnotations(layerId);
+    this._updateZoomVisibility();
+    const layerOpacity = { ...this._state.layerOpacity };
+    delete layerOpacity[layerId];
+    this._state.layerOpacity = layerOpacity;
 
     this._state.hasLayer = this._splatLayers.size > 0 || this._modelLayers.size > 0;
     this._state.layerCount = this._splatLayers.size + this._modelLayers.size;
@@ -618,17 +2162,1731 @@ export class GaussianSplatControl implements IControl {
   }
 
   /**
-   * Get info about a specific splat layer.
+   * Get info about a specific splat layer.
+   * `origin` holds the coordinates in the CRS the layer was loaded with, if any, until the layer is moved.
+   * `crop` is the layer's crop volume, if any.
+   */
+  getSplatInfo(layerId: string): {
+    url: string;
+    name: string;
+    longitude: number;
+    latitude: number;
+    altitude: number;
+    origin: LayerOrigin | null;
+    crop: LayerCrop | null;
+  } | null {
+    const layer = this._splatLayers.get(layerId);
+    if (!layer) return null;
+    return {
+      url: layer.url,
+      name: layer.name,
+      longitude: layer.longitude,
+      latitude: layer.latitude,
+      altitude: layer.altitude,
+      origin: layer.origin ? { crs: layer.origin.crs, coordinates: [...layer.origin.coordinates] } : null,
+      crop: this.getLayerCrop(layerId),
+    };
+  }
+
+  /**
+   * Get the placement of a splat or model layer.
+   */
+  getLayerTransform(layerId: string): LayerTransform | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return null;
+    return {
+      longitude: layer.longitude,
+      latitude: layer.latitude,
+      altitude: layer.altitude,
+      altitudeMode: layer.altitudeMode,
+      rotation: [...layer.rotation],
+      orientation: layer.orientation ? { ...layer.orientation } : null,
+      scale: layer.scale,
+    };
+  }
+
+  /**
+   * Move, rotate or scale a splat or model layer in place, without reloading it.
+   *
+   * @example
+   * ```typescript
+   * control.setLayerTransform('splat-0', { altitude: 12, rotation: [-90, 120, 0] });
+   * ```
+   */
+  setLayerTransform(layerId: string, transform: Partial<LayerTransform>): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+
+    // The original CRS coordinates no longer describe a moved layer
+    if (transform.longitude !== undefined || transform.latitude !== undefined || transform.altitude !== undefined) {
+      layer.origin = null;
+    }
+    layer.longitude = transform.longitude ?? layer.longitude;
+    layer.latitude = transform.latitude ?? layer.latitude;
+    layer.altitude = transform.altitude ?? layer.altitude;
+    layer.altitudeMode = transform.altitudeMode ?? layer.altitudeMode;
+    if (transform.orientation) {
+      layer.orientation = this._resolveOrientation(transform.orientation, 'scene' in layer);
+      layer.rotation = orientationToRotation(layer.orientation, layer.orientation.upAxis!, 'scene' in layer);
+    } else if (transform.rotation) {
+      layer.rotation = [...transform.rotation];
+      layer.orientation = null;
+    }
+    layer.scale = transform.scale ?? layer.scale;
+    this._applyLayerTransform(layer);
+    if (this._editingLayerId === layerId) this._gizmo?.update();
+    this._updateZoomVisibility();
+
+    this._map?.triggerRepaint();
+    const isModel = this._modelLayers.has(layerId);
+    this._emit('transformchange', {
+      layerId,
+      splatId: isModel ? undefined : layerId,
+      modelId: isModel ? layerId : undefined,
+      transform: this.getLayerTransform(layerId)!,
+    });
+  }
+
+  /**
+   * Set the opacity (0-1) of a splat or model layer.
+   * GLTF materials keep their own opacity, multiplied by the layer opacity.
+   */
+  setLayerOpacity(layerId: string, opacity: number): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.opacity = Math.min(Math.max(opacity, 0), 1);
+    this._applyLayerOpacity(layer);
+    this._state.layerOpacity = { ...this._state.layerOpacity, [layerId]: layer.opacity };
+    this._map?.triggerRepaint();
+  }
+
+  /**
+   * Get the opacity (0-1) of a splat or model layer.
+   */
+  getLayerOpacity(layerId: string): number | null {
+    return (this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId))?.opacity ?? null;
+  }
+
+  /**
+   * Color grade a splat or model layer, e.g. to match captures taken on different days.
+   * Only the given adjustments change; pass null to reset all of them.
+   *
+   * @example
+   * ```typescript
+   * control.setLayerColorAdjustments('splat-1', { exposure: 0.5, saturation: -0.2, tint: 0.1 });
+   * ```
+   */
+  setLayerColorAdjustments(layerId: string, adjustments: Partial<ColorAdjustments> | null): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.colorAdjustments = adjustments
+      ? { ...layer.colorAdjustments, ...adjustments }
+      : { ...NEUTRAL_COLOR_ADJUSTMENTS };
+    this._applyLayerColorAdjustments(layer);
+    this._map?.triggerRepaint();
+  }
+
+  /**
+   * Get the color grading of a splat or model layer.
+   */
+  getLayerColorAdjustments(layerId: string): ColorAdjustments | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    return layer ? { ...layer.colorAdjustments } : null;
+  }
+
+  /**
+   * Set the share of the `maxSplats` budget a splat layer gets relative to the others.
+   * A layer with priority 2 gets twice the splats of a layer of the same size on screen with priority 1.
+   */
+  setLayerPriority(layerId: string, priority: number): void {
+    const layer = this._splatLayers.get(layerId);
+    if (!layer) return;
+    layer.priority = Math.max(priority, 0);
+    this._map?.triggerRepaint();
+  }
+
+  /**
+   * Get the splat budget priority of a splat layer.
+   */
+  getLayerPriority(layerId: string): number | null {
+    return this._splatLayers.get(layerId)?.priority ?? null;
+  }
+
+  /**
+   * Get the splats held and drawn per splat layer and in total, as of the last frame.
+   */
+  getSplatStats(): SplatStats {
+    const layers: Record<string, SplatLayerStats> = {};
+    let total = 0;
+    let rendered = 0;
+    for (const [layerId, layer] of this._splatLayers) {
+      const layerTotal = this._drawnSplatCount(layer);
+      const drawn = layer.culled || layer.rtcGroup.visible === false ? 0 : Math.min(layer.splatLimit, layerTotal);
+      layers[layerId] = {
+        total: layerTotal,
+        rendered: drawn,
+        priority: layer.priority,
+        screenSize: layer.screenSize,
+        culled: layer.culled,
+      };
+      total += layerTotal;
+      rendered += drawn;
+    }
+    return { maxSplats: this._options.maxSplats, total, rendered, layers };
+  }
+
+  /**
+   * Estimate the GPU and browser memory held by each layer and in total. Splat sequences
+   * count every frame currently loaded.
+   */
+  getMemoryStats(): MemoryStats {
+    const layers: Record<string, LayerMemoryStats> = {};
+    let gpuBytes = 0;
+    let cpuBytes = 0;
+    for (const [layerId, layer] of this._splatLayers) {
+      const meshes = new Set([layer.mesh, ...(layer.sequence?.frames.map((frame) => frame.mesh) ?? [])]);
+      const stats: LayerMemoryStats = { gpuBytes: 0, cpuBytes: 0 };
+      for (const mesh of meshes) {
+        if (!mesh?.packedSplats) continue;
+        const { gpu, cpu } = packedSplatsBytes(mesh.packedSplats);
+        stats.gpuBytes += gpu;
+        stats.cpuBytes += cpu;
+      }
+      layers[layerId] = stats;
+      gpuBytes += stats.gpuBytes;
+      cpuBytes += stats.cpuBytes;
+    }
+    const counted = new Set<GpuResource>();
+    for (const [layerId, layer] of this._modelLayers) {
+      const stats: LayerMemoryStats = { gpuBytes: 0, cpuBytes: 0 };
+      for (const resource of layer.resources) {
+        const { gpu, cpu } = resourceBytes(resource);
+        stats.gpuBytes += gpu;
+        stats.cpuBytes += cpu;
+        if (counted.has(resource)) continue;
+        counted.add(resource);
+        gpuBytes += gpu;
+        cpuBytes += cpu;
+      }
+      layers[layerId] = stats;
+    }
+    return { gpuBytes, cpuBytes, layers };
+  }
+
+  /**
+   * Count a model's geometries, materials and textures as used by one more layer.
+   */
+  private _retainResources(object: THREE.Object3D): Set<GpuResource> {
+    const resources = collectResources(object);
+    for (const resource of resources) {
+      this._resourceRefs.set(resource, (this._resourceRefs.get(resource) ?? 0) + 1);
+    }
+    return resources;
+  }
+
+  /**
+   * Count resources as used by one layer fewer, disposing those no layer uses anymore.
+   */
+  private _releaseResources(resources: Set<GpuResource>): void {
+    for (const resource of resources) {
+      const refs = (this._resourceRefs.get(resource) ?? 1) - 1;
+      if (refs > 0) {
+        this._resourceRefs.set(resource, refs);
+        continue;
+      }
+      this._resourceRefs.delete(resource);
+      resource.dispose();
+    }
+  }
+
+  /**
+   * Get the geographic extent of a splat or model layer as currently placed.
+   * Splat layers leave out stray splats far from the rest. Returns null if the extent is unknown.
+   */
+  getLayerBounds(layerId: string): LayerBounds | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    const corners = layer ? this._getLayerCorners(layer) : null;
+    if (!corners) return null;
+    const [lngs, lats, altitudes] = [0, 1, 2].map((axis) => corners.map((corner) => corner[axis]));
+    return {
+      west: Math.min(...lngs),
+      south: Math.min(...lats),
+      east: Math.max(...lngs),
+      north: Math.max(...lats),
+      minAltitude: Math.min(...altitudes),
+      maxAltitude: Math.max(...altitudes),
+    };
+  }
+
+  /**
+   * Fly to a splat or model layer, fitting its bounds in view. The zoom is kept within the
+   * layer's zoom range so that it is drawn on arrival.
+   *
+   * @example
+   * ```typescript
+   * control.zoomToLayer('splat-0', { padding: 80, pitch: 45, bearing: 30 });
+   * ```
+   */
+  zoomToLayer(layerId: string, options: ZoomToLayerOptions = {}): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer || !this._map) return;
+    const map = this._map;
+    const pitch = options.pitch ?? 60;
+    const bearing = options.bearing ?? map.getBearing();
+
+    let center: [number, number] = [layer.longitude, layer.latitude];
+    let zoom = this._options.flyToZoom;
+    const corners = this._getLayerCorners(layer);
+    if (corners) {
+      // Seen at a pitch, the top of a layer covers ground beyond its base, along the view direction
+      const minAltitude = Math.min(...corners.map((corner) => corner[2]));
+      const reach = Math.tan(THREE.MathUtils.degToRad(Math.min(pitch, 85)));
+      const heading = THREE.MathUtils.degToRad(bearing);
+      const points = corners.flatMap(([lng, lat, alt]) => {
+        const distance = (alt - minAltitude) * reach;
+        const beyond = enuToLngLatAlt([lng, lat], [Math.sin(heading) * distance, Math.cos(heading) * distance, 0]);
+        return [[lng, lat], beyond];
+      });
+      const lngs = points.map((point) => point[0]);
+      const lats = points.map((point) => point[1]);
+      const camera = map.cameraForBounds(
+        [
+          [Math.min(...lngs), Math.min(...lats)],
+          [Math.max(...lngs), Math.max(...lats)],
+        ],
+        { padding: options.padding ?? 50, bearing, maxZoom: options.maxZoom }
+      );
+      if (camera?.zoom !== undefined) {
+        // cameraForBounds() returns a LngLat
+        const fitCenter = camera.center as LngLat;
+        center = [fitCenter.lng, fitCenter.lat];
+        zoom = camera.zoom;
+      }
+    }
+    // maxzoom itself is outside the range
+    zoom = Math.max(Math.min(zoom, layer.maxzoom - 0.01), layer.minzoom);
+    map.flyTo({ center, zoom, pitch, bearing, duration: options.duration ?? 1500 });
+  }
+
+  /**
+   * Show or hide a splat or model layer. A shown layer is still only drawn within its zoom range.
+   */
+  setLayerVisibility(layerId: string, visible: boolean): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.visible = visible;
+    this._updateZoomVisibility();
+  }
+
+  /**
+   * Whether a splat or model layer is shown, as set by `setLayerVisibility()`.
+   */
+  getLayerVisibility(layerId: string): boolean | null {
+    return (this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId))?.visible ?? null;
+  }
+
+  /**
+   * Set the zoom range in which a splat or model layer is drawn, like `map.setLayerZoomRange()`
+   * for style layers: from `minzoom` up to, but not including, `maxzoom`.
+   */
+  setLayerZoomRange(layerId: string, minzoom: number, maxzoom: number): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.minzoom = minzoom;
+    layer.maxzoom = maxzoom;
+    this._updateZoomVisibility();
+  }
+
+  /**
+   * Get the zoom range in which a splat or model layer is drawn.
+   */
+  getLayerZoomRange(layerId: string): { minzoom: number; maxzoom: number } | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    return layer ? { minzoom: layer.minzoom, maxzoom: layer.maxzoom } : null;
+  }
+
+  /**
+   * Set what stands in for a splat or model layer below its `minzoom`.
+   */
+  setLayerProxy(layerId: string, proxy: LayerProxy): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.proxy = proxy;
+    this._updateZoomVisibility();
+  }
+
+  /**
+   * Get what stands in for a splat or model layer below its `minzoom`.
+   */
+  getLayerProxy(layerId: string): LayerProxy | null {
+    return (this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId))?.proxy ?? null;
+  }
+
+  /**
+   * Show on-map handles to move, raise, rotate and scale a layer.
+   * Only one layer can be edited at a time; editing another layer ends the current edit.
+   */
+  startTransformEdit(layerId: string): void {
+    if (!this._map || (!this._splatLayers.has(layerId) && !this._modelLayers.has(layerId))) return;
+    this._gizmo?.destroy();
+    this._gizmo = new TransformGizmo(this._map, {
+      getTransform: () => this.getLayerTransform(layerId),
+      projectOrigin: () => this._projectLayerOrigin(layerId),
+      onChange: (transform) => this.setLayerTransform(layerId, transform),
+      onCommit: (transform) => {
+        // The panel is left alone during the drag, which re-rendering it would interrupt
+        this._render();
+        const isModel = this._modelLayers.has(layerId);
+        this._emit('transformend', {
+          layerId,
+          splatId: isModel ? undefined : layerId,
+          modelId: isModel ? layerId : undefined,
+          transform,
+        });
+      },
+    });
+    this._editingLayerId = layerId;
+    this._render();
+  }
+
+  /**
+   * Screen position of a layer origin at its resolved altitude, as the scene camera sees it.
+   */
+  private _projectLayerOrigin(layerId: string): { x: number; y: number } | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer || !this._map) return null;
+    const camera = this._mapScene?.camera;
+    // Until the scene has drawn, the origin's ground point is the best there is
+    if (!camera) return this._map.project([layer.longitude, layer.latitude]);
+    layer.rtcGroup.updateWorldMatrix(true, false);
+    const origin = new THREE.Vector3().setFromMatrixPosition(layer.rtcGroup.matrixWorld);
+    const canvas = this._map.getCanvas();
+    return worldToScreen(origin, camera, canvas.clientWidth, canvas.clientHeight);
+  }
+
+  /**
+   * Hide the transform handles. The layer keeps its edited placement.
+   */
+  stopTransformEdit(): void {
+    if (!this._gizmo) return;
+    this._gizmo.destroy();
+    this._gizmo = undefined;
+    this._editingLayerId = null;
+    this._render();
+  }
+
+  /**
+   * Get the ID of the layer being edited with the transform handles, if any.
+   */
+  getEditingLayerId(): string | null {
+    return this._editingLayerId;
+  }
+
+  /**
+   * Add a control point to a layer: a point on the layer matched to its position on the map.
+   */
+  addControlPoint(layerId: string, point: ControlPoint): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.controlPoints.push({ local: [...point.local], lngLatAlt: [...point.lngLatAlt] });
+    this._render();
+  }
+
+  /**
+   * Remove a control point from a layer by index.
+   */
+  removeControlPoint(layerId: string, index: number): void {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) return;
+    layer.controlPoints.splice(index, 1);
+    this._render();
+  }
+
+  /**
+   * Get the control points of a layer.
+   */
+  getControlPoints(layerId: string): ControlPoint[] {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    return layer ? layer.controlPoints.map((p) => ({ local: [...p.local], lngLatAlt: [...p.lngLatAlt] })) : [];
+  }
+
+  /**
+   * Solve the placement of a layer from its control points without applying it.
+   * Fits the rotation, uniform scale and position that best match the points, and reports
+   * how far each point ends up from its map position so bad picks can be spotted.
+   *
+   * @throws If the layer does not exist, has fewer than three control points or they are degenerate.
+   */
+  solveGeoreference(layerId: string): GeoreferenceSolution {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) throw new Error(`Layer not found: ${layerId}`);
+
+    const controlPoints = this.getControlPoints(layerId);
+    if (controlPoints.length < 3) throw new Error('At least three control points are required');
+
+    // Models are mirrored in y when placed; fit in the mirrored frame so the rotation stays proper
+    const mirrorY = 'scene' in layer ? -1 : 1;
+    const reference: [number, number] = [controlPoints[0].lngLatAlt[0], controlPoints[0].lngLatAlt[1]];
+    const fit = solveSimilarityTransform(
+      controlPoints.map((p): Vec3 => [p.local[0], p.local[1] * mirrorY, p.local[2]]),
+      controlPoints.map((p) => lngLatAltToEnu(reference, p.lngLatAlt))
+    );
+
+    const [longitude, latitude, altitude] = enuToLngLatAlt(reference, fit.translation);
+    // Flipping the east and north rows turns the fitted axes into the RTC group's parent frame
+    const signs = flipEastNorth([1, 1, 1]);
+    const rotation = rotationMatrixToEuler(
+      fit.rotation.map((row, i) => row.map((value) => value * signs[i])) as [Vec3, Vec3, Vec3]
+    );
+    // Layer scale is in scene units, which vary with latitude like Web Mercator
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const unitsPerMeter = (MTP.SceneTransform as any).projectedUnitsPerMeter(latitude);
+
+    return {
+      controlPoints,
+      transform: {
+        longitude,
+        latitude,
+        altitude,
+        altitudeMode: 'absolute',
+        rotation,
+        orientation: null,
+        scale: fit.scale * unitsPerMeter,
+      },
+      metersPerUnit: fit.scale,
+      residuals: fit.residuals,
+      rmse: fit.rmse,
+    };
+  }
+
+  /**
+   * Place a layer from its control points, or from a previously saved solution.
+   *
+   * @example
+   * ```typescript
+   * control.addControlPoint('splat-0', { local: [0, 0, 0], lngLatAlt: [-122.4194, 37.7749, 12] });
+   * // ...at least three points
+   * const { rmse } = control.applyGeoreference('splat-0');
+   * ```
+   */
+  applyGeoreference(layerId: string, solution?: GeoreferenceSolution): GeoreferenceSolution {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    if (!layer) throw new Error(`Layer not found: ${layerId}`);
+
+    const result = solution ?? this.solveGeoreference(layerId);
+    if (solution) layer.controlPoints = [...solution.controlPoints];
+    layer.georeference = result;
+    this.setLayerTransform(layerId, result.transform);
+    this._render();
+    this._emit('georeference', { layerId, georeference: result });
+    return result;
+  }
+
+  /**
+   * Get the georeferencing applied to a layer as plain JSON, to save and pass to
+   * `load()` with the `georeference` option later. Returns null if none was applied.
+   */
+  exportGeoreference(layerId: string): GeoreferenceSolution | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    return layer?.georeference ? JSON.parse(JSON.stringify(layer.georeference)) : null;
+  }
+
+  /**
+   * Pick control points on the map: click a point on the layer, then its real position on the map.
+   * Repeat for at least three points, then apply with `applyGeoreference()`.
+   */
+  startGeoreference(layerId: string): void {
+    if (!this._map || (!this._splatLayers.has(layerId) && !this._modelLayers.has(layerId))) return;
+    this.stopGeoreference();
+    this.stopCropEdit();
+    this.stopMeasurement();
+    this._georeferencingLayerId = layerId;
+    this._map.on('click', this._georeferenceClickHandler);
+    this._map.getCanvas().style.cursor = 'crosshair';
+    this._render();
+  }
+
+  /**
+   * Leave control point picking. Control points already picked are kept.
+   */
+  stopGeoreference(): void {
+    if (!this._georeferencingLayerId) return;
+    this._map?.off('click', this._georeferenceClickHandler);
+    if (this._map) this._map.getCanvas().style.cursor = '';
+    this._georeferencingLayerId = null;
+    this._pendingControlPoint = null;
+    this._render();
+  }
+
+  /**
+   * Get the ID of the layer control points are being picked for, if any.
+   */
+  getGeoreferencingLayerId(): string | null {
+    return this._georeferencingLayerId;
+  }
+
+  /**
+   * Crop a splat layer to one or more boxes and/or an extruded map polygon, or pass null to show it whole.
+   * Splats outside the volume are hidden when rendering; the loaded data is kept.
+   *
+   * @example
+   * ```typescript
+   * control.setLayerCrop('splat-0', {
+   *   boxes: [{ center: [0, -1, 0], size: [8, 4, 8] }],
+   *   polygon: { coordinates: [[-122.4196, 37.7747], [-122.4191, 37.7747], [-122.4193, 37.7752]], maxHeight: 40 },
+   * });
+   * ```
+   */
+  setLayerCrop(layerId: string, crop: LayerCrop | null): void {
+    const layer = this._splatLayers.get(layerId);
+    if (!layer) return;
+    layer.crop = crop ? JSON.parse(JSON.stringify(crop)) : null;
+    this._applyLayerCrop(layer);
+    this._map?.triggerRepaint();
+  }
+
+  /**
+   * Get the crop volume of a splat layer as plain JSON, or null if it is not cropped.
+   */
+  getLayerCrop(layerId: string): LayerCrop | null {
+    const crop = this._splatLayers.get(layerId)?.crop;
+    return crop ? JSON.parse(JSON.stringify(crop)) : null;
+  }
+
+  /**
+   * Draw the crop polygon of a splat layer on the map: each click adds a vertex.
+   * The crop updates as soon as the polygon has three vertices.
+   */
+  startCropEdit(layerId: string): void {
+    if (!this._map || !this._splatLayers.has(layerId)) return;
+    this.stopCropEdit();
+    this.stopGeoreference();
+    this.stopMeasurement();
+    this._croppingLayerId = layerId;
+    this._map.on('click', this._cropClickHandler);
+    this._map.getCanvas().style.cursor = 'crosshair';
+    this._render();
+  }
+
+  /**
+   * Stop drawing the crop polygon. The layer keeps its crop.
+   */
+  stopCropEdit(): void {
+    if (!this._croppingLayerId) return;
+    this._map?.off('click', this._cropClickHandler);
+    if (this._map) this._map.getCanvas().style.cursor = '';
+    this._croppingLayerId = null;
+    this._render();
+  }
+
+  /**
+   * Get the ID of the layer whose crop polygon is being drawn, if any.
+   */
+  getCropEditingLayerId(): string | null {
+    return this._croppingLayerId;
+  }
+
+  /**
+   * Measure on the splat and model layers: each click picks the surface point under the pointer.
+   * Distances and heights are complete after two points; finish an area with `finishMeasurement()`.
+   * Completed measurements fire 'measure' and stay drawn until removed.
+   *
+   * @example
+   * ```typescript
+   * control.on('measure', ({ measurement }) => console.log(measurement.value));
+   * control.startMeasurement('height');
+   * ```
+   */
+  startMeasurement(mode: MeasurementMode): void {
+    if (!this._map) return;
+    this.stopMeasurement();
+    this.stopGeoreference();
+    this.stopCropEdit();
+    this._measurementMode = mode;
+    this._map.on('click', this._measureClickHandler);
+    this._map.getCanvas().style.cursor = 'crosshair';
+    this._render();
+  }
+
+  /**
+   * Complete the measurement being taken, if it has enough points. Keeps measuring in the same mode.
+   * Returns the completed measurement, or null if there was nothing to complete.
+   */
+  finishMeasurement(): Measurement | null {
+    const mode = this._measurementMode;
+    const points = this._measurementDraft;
+    if (!mode || points.length < (mode === 'area' ? 3 : 2)) return null;
+
+    const measurement: Measurement = {
+      id: `measure-${this._measurementCounter++}`,
+      mode,
+      points: points.map((p) => [...p]),
+      value: measurePoints(mode, points),
+    };
+    this._measurements.push(measurement);
+    this._measurementDraft = [];
+    this._updateMeasurementOverlay();
+    this._render();
+    this._emit('measure', { measurement: this._copyMeasurement(measurement) });
+    return this._copyMeasurement(measurement);
+  }
+
+  /**
+   * Stop measuring. Points of an unfinished measurement are dropped; completed ones are kept.
+   */
+  stopMeasurement(): void {
+    if (!this._measurementMode) return;
+    this._map?.off('click', this._measureClickHandler);
+    if (this._map) this._map.getCanvas().style.cursor = '';
+    this._measurementMode = null;
+    this._measurementDraft = [];
+    this._updateMeasurementOverlay();
+    this._render();
+  }
+
+  /**
+   * Get the kind of measurement being taken, if any.
+   */
+  getMeasurementMode(): MeasurementMode | null {
+    return this._measurementMode;
+  }
+
+  /**
+   * Get the completed measurements, oldest first.
+   */
+  getMeasurements(): Measurement[] {
+    return this._measurements.map((m) => this._copyMeasurement(m));
+  }
+
+  /**
+   * Remove a completed measurement.
+   */
+  removeMeasurement(id: string): void {
+    const count = this._measurements.length;
+    this._measurements = this._measurements.filter((m) => m.id !== id);
+    if (this._measurements.length === count) return;
+    this._updateMeasurementOverlay();
+    this._render();
+  }
+
+  /**
+   * Remove all measurements, including the one being taken.
+   */
+  clearMeasurements(): void {
+    this._measurements = [];
+    this._measurementDraft = [];
+    this._updateMeasurementOverlay();
+    this._render();
+  }
+
+  /**
+   * Show measurements in meters or feet. Values returned and exported stay in meters.
+   */
+  setMeasurementUnits(units: MeasurementUnits): void {
+    this._measurementUnits = units;
+    this._updateMeasurementOverlay();
+    this._render();
+  }
+
+  /**
+   * Get the units measurements are shown in.
+   */
+  getMeasurementUnits(): MeasurementUnits {
+    return this._measurementUnits;
+  }
+
+  /**
+   * Get the completed measurements as GeoJSON with altitudes as Z: lines for distances and heights,
+   * polygons for areas. Each feature has the measured `value` in meters and its formatted `label`.
+   */
+  exportMeasurements(): GeoJSON.FeatureCollection {
+    return measurementsToGeoJSON(this._measurements, this._measurementUnits);
+  }
+
+  /**
+   * Add the layer point under a click to the measurement being taken.
+   */
+  private _onMeasureClick(e: MapMouseEvent): void {
+    const mode = this._measurementMode;
+    if (!mode) return;
+
+    const pick = this._pickLayers(e.point);
+    this._state.status = pick ? null : 'No splat or model there; click on a layer to measure';
+    if (pick) {
+      this._measurementDraft.push(pick.lngLatAlt);
+      this._updateMeasurementOverlay();
+    }
+    if (mode !== 'area' && this._measurementDraft.length === 2) this.finishMeasurement();
+    else this._render();
+  }
+
+  private _copyMeasurement(measurement: Measurement): Measurement {
+    return { ...measurement, points: measurement.points.map((p) => [...p]) };
+  }
+
+  /**
+   * Redraw the completed measurements and the one being taken.
+   */
+  private _updateMeasurementOverlay(): void {
+    if (!this._measurementOverlay) return;
+    const label = (mode: MeasurementMode, value: number) => formatMeasurement(value, mode, this._measurementUnits);
+    const drawings: MeasurementDrawing[] = this._measurements.map(({ mode, points, value }) => ({
+      mode,
+      points,
+      label: label(mode, value),
+    }));
+    const mode = this._measurementMode;
+    const draft = this._measurementDraft;
+    if (mode && draft.length > 0) {
+      const complete = draft.length >= (mode === 'area' ? 3 : 2);
+      drawings.push({ mode, points: draft, label: complete ? label(mode, measurePoints(mode, draft)) : null });
+    }
+    this._measurementOverlay.setMeasurements(drawings);
+  }
+
+  /**
+   * Pin a note to a point of a splat or model layer, given in the layer's own coordinates
+   * (e.g. `pick.local` from a 'click' event). The note is shown as an HTML label that follows
+   * the layer and dims while the layer or another one is in front of it.
+   * Returns the annotation ID.
+   *
+   * @example
+   * ```typescript
+   * control.on('click', ({ pick }) => {
+   *   control.addAnnotation(pick.layerId, pick.local, { title: 'Meter #42', html: '<em>Read monthly</em>' });
+   * });
+   * ```
+   */
+  addAnnotation(layerId: string, localPosition: [number, number, number], options: AnnotationOptions = {}): string {
+    if (!this._splatLayers.has(layerId) && !this._modelLayers.has(layerId)) {
+      throw new Error(`Layer not found: ${layerId}`);
+    }
+    let id: string;
+    do {
+      id = `annotation-${this._annotationCounter++}`;
+    } while (this._annotations.has(id));
+    this._annotations.set(id, {
+      id,
+      layerId,
+      position: [...localPosition],
+      title: options.title ?? '',
+      ...(options.html !== undefined && { html: options.html }),
+    });
+    this._updateAnnotationLabels();
+    return id;
+  }
+
+  /**
+   * Change the content or anchor of an annotation.
+   */
+  updateAnnotation(id: string, changes: AnnotationOptions & { position?: [number, number, number] }): void {
+    const annotation = this._annotations.get(id);
+    if (!annotation) return;
+    if (changes.position) annotation.position = [...changes.position];
+    if (changes.title !== undefined) annotation.title = changes.title;
+    if (changes.html !== undefined) annotation.html = changes.html;
+    this._updateAnnotationLabels();
+  }
+
+  /**
+   * Remove an annotation.
+   */
+  removeAnnotation(id: string): void {
+    if (this._annotations.delete(id)) this._updateAnnotationLabels();
+  }
+
+  /**
+   * Get an annotation, or null if there is none with the ID.
+   */
+  getAnnotation(id: string): Annotation | null {
+    const annotation = this._annotations.get(id);
+    return annotation ? JSON.parse(JSON.stringify(annotation)) : null;
+  }
+
+  /**
+   * Get the annotations as plain JSON, to save and restore with `importAnnotations()`.
+   * Pass a layer ID for the annotations of one layer only.
+   */
+  exportAnnotations(layerId?: string): Annotation[] {
+    const annotations = [...this._annotations.values()].filter((a) => !layerId || a.layerId === layerId);
+    return JSON.parse(JSON.stringify(annotations));
+  }
+
+  /**
+   * Add annotations saved with `exportAnnotations()`, replacing any with the same IDs. Layer IDs
+   * are given anew each time a layer loads, so pass `layerId` to pin them all to that layer.
+   * Annotations of layers that are not loaded are skipped. Returns the IDs of those added.
+   *
+   * @example
+   * ```typescript
+   * const layerId = await control.load(url);
+   * control.importAnnotations(await (await fetch('notes.json')).json(), layerId);
+   * ```
+   */
+  importAnnotations(annotations: Annotation[], layerId?: string): string[] {
+    const ids: string[] = [];
+    for (const annotation of annotations) {
+      const target = layerId ?? annotation.layerId;
+      if (!this._splatLayers.has(target) && !this._modelLayers.has(target)) continue;
+      const { id, position, title, html } = annotation;
+      this._annotations.set(id, {
+        id,
+        layerId: target,
+        position: [...position],
+        title: title ?? '',
+        ...(html !== undefined && { html }),
+      });
+      ids.push(id);
+    }
+    this._updateAnnotationLabels();
+    return ids;
+  }
+
+  private _removeLayerAnnotations(layerId: string): void {
+    const count = this._annotations.size;
+    for (const [id, annotation] of this._annotations) {
+      if (annotation.layerId === layerId) this._annotations.delete(id);
+    }
+    if (this._annotations.size !== count) this._updateAnnotationLabels();
+  }
+
+  private _updateAnnotationLabels(): void {
+    this._annotationLabels?.setAnnotations([...this._annotations.values()]);
+  }
+
+  /**
+   * World position of an annotation's anchor, or null while its layer is not drawn.
+   */
+  private _getAnnotationPosition(annotation: Annotation): THREE.Vector3 | null {
+    const layer = this._splatLayers.get(annotation.layerId) ?? this._modelLayers.get(annotation.layerId);
+    if (!layer || !this._isLayerDrawn(layer)) return null;
+    const object = 'scene' in layer ? layer.scene : layer.mesh;
+    layer.rtcGroup.updateWorldMatrix(true, true);
+    return object.localToWorld(new THREE.Vector3(...annotation.position));
+  }
+
+  /**
+   * Whether a drawn layer is hit before a world position along the ray through a map pixel.
+   */
+  private _isOccluded(position: THREE.Vector3, point: { x: number; y: number }): boolean {
+    const raycaster = this._createPickRaycaster(point);
+    if (!raycaster) return false;
+    // Anchors picked on a surface are hit at about their own distance, so allow some slack
+    const distance = raycaster.ray.origin.distanceTo(position) * (1 - ANNOTATION_OCCLUSION_TOLERANCE);
+    return [...this._splatLayers.values(), ...this._modelLayers.values()].some((layer) => {
+      if (!this._isLayerDrawn(layer)) return false;
+      const hit = this._intersectLayer(layer, raycaster);
+      return !!hit && hit.distance < distance;
+    });
+  }
+
+  /**
+   * Attach the camera poses a splat layer was trained from, read from a nerfstudio `transforms.json`
+   * or a COLMAP `images.txt`. Pass COLMAP's `cameras.txt` as `colmapCameras` for their fields of view.
+   * The cameras are drawn as frusta that move with the layer. Resolves with the number of cameras.
+   *
+   * @example
+   * ```typescript
+   * await control.loadLayerCameras(layerId, 'https://example.com/capture/transforms.json');
+   * control.viewFromCamera(layerId, 0);
+   * ```
+   */
+  async loadLayerCameras(
+    layerId: string,
+    source: AssetSource,
+    options: { colmapCameras?: AssetSource } = {}
+  ): Promise<number> {
+    if (!this._splatLayers.has(layerId)) throw new Error(`Layer not found: ${layerId}`);
+    const text = await this._readText(source);
+    const camerasText = options.colmapCameras ? await this._readText(options.colmapCameras) : undefined;
+    const cameras = parseCaptureCameras(text, camerasText);
+    this.setLayerCameras(layerId, cameras);
+    return cameras.length;
+  }
+
+  /**
+   * Set the camera poses a splat layer was trained from, in the splat's own coordinates,
+   * or pass null to remove them.
+   */
+  setLayerCameras(layerId: string, cameras: CaptureCamera[] | null): void {
+    const layer = this._splatLayers.get(layerId);
+    if (!layer) return;
+    if (layer.cameraFrusta) {
+      layer.mesh.remove(layer.cameraFrusta);
+      layer.cameraFrusta.geometry.dispose();
+      (layer.cameraFrusta.material as THREE.Material).dispose();
+      layer.cameraFrusta = null;
+    }
+    layer.cameras = cameras ? JSON.parse(JSON.stringify(cameras)) : [];
+
+    if (layer.cameras.length > 0) {
+      const depth = frustumDepth(layer.cameras);
+      const points = layer.cameras.flatMap((camera) => frustumSegments(camera, depth));
+      const frusta = new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(points.map((p) => new THREE.Vector3(...p))),
+        new THREE.LineBasicMaterial({ color: FRUSTUM_COLOR })
+      );
+      // Picking finds the splats, not the frusta drawn among them
+      frusta.raycast = () => {};
+      layer.mesh.add(frusta);
+      layer.cameraFrusta = frusta;
+    }
+    this._map?.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Get the camera poses attached to a splat layer.
+   */
+  getLayerCameras(layerId: string): CaptureCamera[] {
+    const cameras = this._splatLayers.get(layerId)?.cameras;
+    return cameras ? JSON.parse(JSON.stringify(cameras)) : [];
+  }
+
+  /**
+   * Fly the map camera to where a capture camera stood, looking the way it looked, so the
+   * view matches the photo taken there. The pitch is limited to the map's maximum pitch.
+   */
+  viewFromCamera(layerId: string, index: number, options: { duration?: number } = {}): void {
+    const layer = this._splatLayers.get(layerId);
+    const camera = layer?.cameras[index];
+    if (!this._map || !layer || !camera) return;
+
+    const [lng, lat, altitude] = this._localToLngLatAlt(layer, camera.position);
+    const { bearing, pitch, roll } = viewRotation(
+      this._localToEnu(layer, camera.forward),
+      this._localToEnu(layer, camera.up)
+    );
+    const cameraOptions = this._map.calculateCameraOptionsFromCameraLngLatAltRotation(
+      [lng, lat],
+      altitude,
+      bearing,
+      Math.min(pitch, this._map.getMaxPitch()),
+      roll
+    );
+    this._map.flyTo({ ...cameraOptions, duration: options.duration ?? 1500 });
+  }
+
+  /**
+   * Read a text file from a URL, honoring `transformRequest`, or from local data.
+   */
+  private async _readText(source: AssetSource): Promise<string> {
+    if (typeof source !== 'string') return new TextDecoder().decode(await readSourceBytes(source));
+    const request = this._transformRequest(source, 'asset');
+    const { data } = await fetchAsset(request.url, { init: request.init });
+    return new TextDecoder().decode(data);
+  }
+
+  /**
+   * Compare two splat or model layers, e.g. captures of a site before and after a change.
+   * A draggable divider splits the map: layer A is drawn on its left (or above it) and layer B
+   * on its right (or below it), both seen by the same camera. Other layers are drawn as usual.
+   *
+   * @example
+   * ```typescript
+   * control.setCompare(beforeId, afterId, { orientation: 'vertical', position: 0.5 });
+   * ```
+   */
+  setCompare(layerIdA: string, layerIdB: string, options: CompareOptions = {}): void {
+    if (!this._map || !this._mapScene) throw new Error('Map not initialized');
+    for (const layerId of [layerIdA, layerIdB]) {
+      if (!this._splatLayers.has(layerId) && !this._modelLayers.has(layerId)) {
+        throw new Error(`Layer not found: ${layerId}`);
+      }
+    }
+    if (layerIdA === layerIdB) throw new Error('Compare needs two different layers');
+    const orientation = options.orientation ?? this._compare?.orientation ?? 'vertical';
+    const position = Math.min(Math.max(options.position ?? this._compare?.position ?? 0.5, 0), 1);
+    this._removeCompare();
+
+    const planes: [THREE.Plane, THREE.Plane] = [new THREE.Plane(), new THREE.Plane()];
+    const edits: [SplatEdit | null, SplatEdit | null] = [null, null];
+    [layerIdA, layerIdB].forEach((layerId, side) => {
+      const model = this._modelLayers.get(layerId);
+      if (model) {
+        // Models are clipped per material; splats are hidden by a Spark edit beyond a plane
+        model.scene.traverse((child) => {
+          const material = (child as THREE.Mesh).material;
+          if (!material) return;
+          for (const m of Array.isArray(material) ? material : [material]) m.clippingPlanes = [planes[side]];
+        });
+        return;
+      }
+      const edit = new SplatEdit({ rgbaBlendMode: SplatEditRgbaBlendMode.MULTIPLY, name: 'Compare' });
+      edit.add(new SplatEditSdf({ type: SplatEditSdfType.PLANE, opacity: 0 }));
+      this._splatLayers.get(layerId)!.mesh.add(edit);
+      edits[side] = edit;
+    });
+    this._mapScene.renderer.localClippingEnabled = true;
+
+    const slider = new CompareSlider(this._map, {
+      orientation,
+      position,
+      onChange: (value) => {
+        if (!this._compare) return;
+        this._compare.position = value;
+        this._map?.triggerRepaint();
+      },
+    });
+    this._compare = { layerIdA, layerIdB, orientation, position, planes, edits, slider };
+    this._comparePickLayerId = null;
+    this._updateCompare();
+    this._map.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Stop comparing layers and draw them whole again.
+   */
+  clearCompare(): void {
+    if (!this._compare && !this._comparePickLayerId) return;
+    this._removeCompare();
+    this._comparePickLayerId = null;
+    this._map?.triggerRepaint();
+    this._render();
+  }
+
+  /**
+   * Get the compared layers and the divider, or null when not comparing.
+   */
+  getCompare(): LayerCompare | null {
+    if (!this._compare) return null;
+    const { layerIdA, layerIdB, orientation, position } = this._compare;
+    return { layerIdA, layerIdB, orientation, position };
+  }
+
+  /**
+   * Stop comparing a layer about to be removed.
+   */
+  private _clearLayerCompare(layerId: string): void {
+    if (this._comparePickLayerId === layerId) this._comparePickLayerId = null;
+    if (this._compare?.layerIdA === layerId || this._compare?.layerIdB === layerId) this._removeCompare();
+  }
+
+  /**
+   * Remove the divider, clipping planes and edits of the compare mode.
+   */
+  private _removeCompare(): void {
+    const compare = this._compare;
+    if (!compare) return;
+    for (const edit of compare.edits) edit?.parent?.remove(edit);
+    for (const layerId of [compare.layerIdA, compare.layerIdB]) {
+      this._modelLayers.get(layerId)?.scene.traverse((child) => {
+        const material = (child as THREE.Mesh).material;
+        if (!material) return;
+        for (const m of Array.isArray(material) ? material : [material]) m.clippingPlanes = null;
+      });
+    }
+    compare.slider.destroy();
+    this._compare = null;
+  }
+
+  /**
+   * Move the compare planes to the divider as seen by the camera of the frame about to be drawn.
+   */
+  private _updateCompare(): void {
+    const compare = this._compare;
+    const camera = this._mapScene?.camera;
+    if (!compare || !camera) return;
+
+    // Two rays along the divider and one to its B side, from the projection inverse as for picking
+    const inverse = camera.projectionMatrix.clone().invert();
+    const unproject = (x: number, y: number, z: number) =>
+      new THREE.Vector3(x, y, z).applyMatrix4(inverse).applyMatrix4(camera.matrixWorld);
+    const offset = compare.position * 2 - 1;
+    const divider = compare.orientation === 'vertical' ? (t: number) => [offset, t] : (t: number) => [t, -offset];
+    const [x0, y0] = divider(-1);
+    const [x1, y1] = divider(1);
+    const [xb, yb] = compare.orientation === 'vertical' ? [offset + 1, 0] : [0, -offset - 1];
+    const plane = new THREE.Plane().setFromCoplanarPoints(
+      unproject(x0, y0, -1),
+      unproject(x0, y0, 1),
+      unproject(x1, y1, -1)
+    );
+    if (plane.distanceToPoint(unproject(xb, yb, -1)) < 0) plane.negate();
+    compare.planes[0].copy(plane).negate();
+    compare.planes[1].copy(plane);
+
+    [compare.layerIdA, compare.layerIdB].forEach((layerId, side) => {
+      const layer = this._splatLayers.get(layerId);
+      const edit = compare.edits[side];
+      if (!layer || !edit) return;
+      // Sequences swap their mesh between frames
+      if (edit.parent !== layer.mesh) layer.mesh.add(edit);
+      layer.rtcGroup.updateWorldMatrix(true, true);
+      const local = compare.planes[side].clone().applyMatrix4(layer.mesh.matrixWorld.clone().invert());
+      // Spark hides the splats behind the plane SDF, which faces the kept side
+      const [sdf] = edit.children;
+      local.coplanarPoint(sdf.position);
+      sdf.quaternion.setFromUnitVectors(new THREE.Vector3(0, 0, 1), local.normal);
+    });
+  }
+
+  /**
+   * Alternate between picking a point on the layer and its matching map position.
+   */
+  private _onGeoreferenceClick(e: MapMouseEvent): void {
+    const layerId = this._georeferencingLayerId;
+    if (!layerId || !this._map) return;
+
+    if (!this._pendingControlPoint) {
+      this._pendingControlPoint = this._pickLayerPoint(layerId, e.point);
+      this._state.status = this._pendingControlPoint ? null : 'No point on the layer there; click on the layer itself';
+      this._render();
+      return;
+    }
+
+    const altitude = this._map.queryTerrainElevation?.(e.lngLat) ?? 0;
+    const local = this._pendingControlPoint;
+    this._pendingControlPoint = null;
+    this.addControlPoint(layerId, { local, lngLatAlt: [e.lngLat.lng, e.lngLat.lat, altitude] });
+  }
+
+  /**
+   * Add a clicked map position to the crop polygon of the layer being cropped.
+   */
+  private _onCropClick(e: MapMouseEvent): void {
+    const layerId = this._croppingLayerId;
+    const crop = layerId ? this.getLayerCrop(layerId) : null;
+    if (!layerId) return;
+
+    const polygon: CropPolygon = crop?.polygon ?? { coordinates: [] };
+    polygon.coordinates.push([e.lngLat.lng, e.lngLat.lat]);
+    this.setLayerCrop(layerId, { ...crop, polygon });
+    this._render();
+  }
+
+  /**
+   * Find the point of a layer under a screen position, in the layer's own coordinates.
+   */
+  private _pickLayerPoint(layerId: string, point: { x: number; y: number }): Vec3 | null {
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    const raycaster = layer ? this._createPickRaycaster(point) : null;
+    if (!layer || !raycaster) return null;
+    return this._intersectLayer(layer, raycaster)?.local ?? null;
+  }
+
+  /**
+   * Find the nearest point on any drawn layer under a map pixel.
+   */
+  private _pickLayers(point: { x: number; y: number }): LayerPick | null {
+    const raycaster = this._createPickRaycaster(point);
+    if (!raycaster) return null;
+
+    let nearest: { layer: SplatLayerInfo | ModelLayerInfo; hit: LayerHit } | null = null;
+    for (const layer of [...this._splatLayers.values(), ...this._modelLayers.values()]) {
+      if (!this._isLayerDrawn(layer)) continue;
+      const hit = this._intersectLayer(layer, raycaster);
+      if (hit && (!nearest || hit.distance < nearest.hit.distance)) nearest = { layer, hit };
+    }
+    if (!nearest) return null;
+
+    const { layer, hit } = nearest;
+    const pick: LayerPick = {
+      layerId: layer.id,
+      lngLatAlt: this._localToLngLatAlt(layer, hit.local),
+      local: hit.local,
+      point: { x: point.x, y: point.y },
+    };
+    if ('scene' in layer) {
+      // GLTFLoader names objects after their nodes; primitives of a mesh node may be unnamed
+      for (let object: THREE.Object3D | null = hit.object; object && object !== layer.scene; object = object.parent) {
+        if (object.name) {
+          pick.nodeName = object.name;
+          break;
+        }
+      }
+    }
+    return pick;
+  }
+
+  /**
+   * Whether a layer is drawn: not hidden by its zoom range or visibility, nor culled by the splat budget.
+   */
+  private _isLayerDrawn(layer: SplatLayerInfo | ModelLayerInfo): boolean {
+    return layer.rtcGroup.visible !== false && !('mesh' in layer && layer.mesh.visible === false);
+  }
+
+  /**
+   * Ray from the camera through a map pixel, in world space.
+   */
+  private _createPickRaycaster(point: { x: number; y: number }): THREE.Raycaster | null {
+    if (!this._map || !this._mapScene) return null;
+
+    // MTP sets the camera matrices directly, so build the ray from the projection inverse
+    const canvas = this._map.getCanvas();
+    const ndcX = (point.x / canvas.clientWidth) * 2 - 1;
+    const ndcY = 1 - (point.y / canvas.clientHeight) * 2;
+    const camera = this._mapScene.camera;
+    const inverse = camera.projectionMatrix.clone().invert();
+    const near = new THREE.Vector3(ndcX, ndcY, -1).applyMatrix4(inverse).applyMatrix4(camera.matrixWorld);
+    const far = new THREE.Vector3(ndcX, ndcY, 1).applyMatrix4(inverse).applyMatrix4(camera.matrixWorld);
+    return new THREE.Raycaster(near, far.sub(near).normalize());
+  }
+
+  /**
+   * Nearest intersection of a ray with a layer's splats or meshes.
+   */
+  private _intersectLayer(layer: SplatLayerInfo | ModelLayerInfo, raycaster: THREE.Raycaster): LayerHit | null {
+    const object = 'scene' in layer ? layer.scene : layer.mesh;
+    layer.rtcGroup.updateWorldMatrix(true, true);
+    const [hit] = raycaster.intersectObject(object, true);
+    if (!hit) return null;
+    const local = object.worldToLocal(hit.point.clone());
+    return { distance: hit.distance, local: [local.x, local.y, local.z], object: hit.object };
+  }
+
+  private _onPickClick(e: MapMouseEvent): void {
+    if (!this._eventHandlers.get('click')?.size) return;
+    const pick = this._pickLayers(e.point);
+    if (pick) this._emit('click', { layerId: pick.layerId, pick });
+  }
+
+  private _onPickMove(e: MapMouseEvent): void {
+    if (!this._eventHandlers.get('mousemove')?.size && !this._eventHandlers.get('mouseleave')?.size) return;
+    // Raycasting splats visits every splat, so pick at most once per frame
+    this._hoverPoint = { x: e.point.x, y: e.point.y };
+    if (this._hoverFrame) return;
+    this._hoverFrame = requestAnimationFrame(() => {
+      this._hoverFrame = 0;
+      const pick = this._hoverPoint && this._pickLayers(this._hoverPoint);
+      this._setHoveredLayer(pick?.layerId ?? null);
+      if (pick) this._emit('mousemove', { layerId: pick.layerId, pick });
+    });
+  }
+
+  /**
+   * Track the layer under the pointer, firing 'mouseleave' for the one it left.
+   */
+  private _setHoveredLayer(layerId: string | null): void {
+    const left = this._hoveredLayerId;
+    this._hoveredLayerId = layerId;
+    if (left && left !== layerId) this._emit('mouseleave', { layerId: left });
+  }
+
+  /**
+   * Update the RTC group and object of a layer to match its stored placement.
+   * Mirrors how createMercatorRTCGroup() positions and rotates the group.
+   */
+  private _applyLayerTransform(layer: SplatLayerInfo | ModelLayerInfo): void {
+    const altitude = this._resolveAltitude(layer.longitude, layer.latitude, layer.altitude, layer.altitudeMode);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const position = (MTP.SceneTransform as any).lngLatToVector3([layer.longitude, layer.latitude, altitude]);
+    layer.rtcGroup.position.copy(position);
+    layer.rtcGroup.rotation.set(
+      THREE.MathUtils.degToRad(layer.rotation[0]),
+      THREE.MathUtils.degToRad(layer.rotation[1]),
+      THREE.MathUtils.degToRad(layer.rotation[2]),
+      'XYZ'
+    );
+    if ('scene' in layer) {
+      layer.scene.scale.set(layer.scale, -layer.scale, layer.scale);
+    } else {
+      if (layer.mesh.scale?.setScalar) layer.mesh.scale.setScalar(layer.scale);
+      // The crop polygon is fixed to the map, so it moves relative to the layer
+      if (layer.crop?.polygon) this._applyLayerCrop(layer);
+    }
+  }
+
+  /**
+   * Apply the stored opacity of a layer to its splat mesh or model materials.
+   */
+  private _applyLayerOpacity(layer: SplatLayerInfo | ModelLayerInfo): void {
+    if (!('scene' in layer)) {
+      // Spark fades splats through the mesh opacity rather than its material
+      layer.mesh.opacity = layer.opacity;
+      return;
+    }
+    layer.scene.traverse((child) => {
+      const material = (child as THREE.Mesh).material;
+      if (!material) return;
+      for (const m of Array.isArray(material) ? material : [material]) {
+        // Remember each material's own settings so fading back to 1 restores them
+        if (!m.userData.layerBase) {
+          m.userData.layerBase = { opacity: m.opacity, transparent: m.transparent, depthWrite: m.depthWrite };
+        }
+        const base = m.userData.layerBase;
+        m.opacity = base.opacity * layer.opacity;
+        m.transparent = base.transparent || layer.opacity < 1;
+        // Without this, faded models hide their own surfaces behind them
+        m.depthWrite = base.depthWrite && layer.opacity >= 1;
+        m.needsUpdate = true;
+      }
+    });
+  }
+
+  /**
+   * Show the shown layers whose zoom range contains the map zoom, and put proxies in place
+   * of those below their range.
+   */
+  private _updateZoomVisibility(): void {
+    if (!this._map) return;
+    const zoom = this._map.getZoom();
+    const features: GeoJSON.Feature[] = [];
+    let changed = false;
+    for (const layer of [...this._splatLayers.values(), ...this._modelLayers.values()]) {
+      const visible = layer.visible && zoom >= layer.minzoom && zoom < layer.maxzoom;
+      if (layer.rtcGroup.visible !== visible) changed = true;
+      layer.rtcGroup.visible = visible;
+      if (layer.visible && zoom < layer.minzoom && layer.proxy !== 'none') {
+        features.push(this._createProxyFeature(layer));
+      }
+    }
+    this._proxies?.setFeatures(features);
+    if (changed) this._map.triggerRepaint();
+  }
+
+  /**
+   * A marker at the layer origin, or the outline of its bounds on the ground.
+   * Layers of unknown extent get a marker.
+   */
+  private _createProxyFeature(layer: SplatLayerInfo | ModelLayerInfo): GeoJSON.Feature {
+    const properties = { layerId: layer.id, name: layer.name };
+    const corners = layer.proxy === 'footprint' ? this._getLayerCorners(layer) : null;
+    if (!corners) {
+      const coordinates = [layer.longitude, layer.latitude];
+      return { type: 'Feature', properties, geometry: { type: 'Point', coordinates } };
+    }
+    const ring = convexHull(corners.map(([lng, lat]): [number, number] => [lng, lat]));
+    return { type: 'Feature', properties, geometry: { type: 'Polygon', coordinates: [[...ring, ring[0]]] } };
+  }
+
+  /**
+   * Corners of a layer's bounds as [lng, lat, alt], or null if its extent is unknown.
+   */
+  private _getLayerCorners(layer: SplatLayerInfo | ModelLayerInfo): Vec3[] | null {
+    if (!layer.localBounds) return null;
+    return boundsCorners(layer.localBounds).map((corner) => this._localToLngLatAlt(layer, corner));
+  }
+
+  /**
+   * Convert a point in a layer's own coordinates to [lng, lat, alt].
+   */
+  private _localToLngLatAlt(layer: SplatLayerInfo | ModelLayerInfo, local: Vec3): Vec3 {
+    const [east, north, up] = this._localToEnu(layer, local);
+    const altitude = this._resolveAltitude(layer.longitude, layer.latitude, layer.altitude, layer.altitudeMode);
+    return enuToLngLatAlt([layer.longitude, layer.latitude], [east, north, altitude + up]);
+  }
+
+  /**
+   * Offset of a point in a layer's own coordinates from the layer origin, as east/north/up meters.
+   * Also turns directions in the layer into east/north/up, as the mapping is linear.
+   */
+  private _localToEnu(layer: SplatLayerInfo | ModelLayerInfo, local: Vec3): Vec3 {
+    // Layer scale is in scene units, which vary with latitude like Web Mercator
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const unitsPerMeter = (MTP.SceneTransform as any).projectedUnitsPerMeter(layer.latitude);
+    // Models are mirrored in y when placed
+    const mirrorY = 'scene' in layer ? -1 : 1;
+    const offset = new THREE.Vector3(local[0], local[1] * mirrorY, local[2])
+      .multiplyScalar(layer.scale / unitsPerMeter)
+      .applyEuler(
+        new THREE.Euler(
+          THREE.MathUtils.degToRad(layer.rotation[0]),
+          THREE.MathUtils.degToRad(layer.rotation[1]),
+          THREE.MathUtils.degToRad(layer.rotation[2]),
+          'XYZ'
+        )
+      );
+    return flipEastNorth([offset.x, offset.y, offset.z]);
+  }
+
+  /**
+   * Bounds of a model's meshes in the model's own coordinates.
+   */
+  private _computeModelBounds(scene: THREE.Group): Bounds3 | null {
+    const box = new THREE.Box3();
+    scene.updateWorldMatrix(true, true);
+    const sceneInverse = scene.matrixWorld.clone().invert();
+    scene.traverse((child) => {
+      const geometry = (child as THREE.Mesh).geometry;
+      if (!geometry) return;
+      if (!geometry.boundingBox) geometry.computeBoundingBox();
+      box.union(geometry.boundingBox!.clone().applyMatrix4(sceneInverse.clone().multiply(child.matrixWorld)));
+    });
+    return box.isEmpty() ? null : { min: box.min.toArray(), max: box.max.toArray() };
+  }
+
+  /**
+   * Estimate the extent of a splat layer from a sample of its splat centers.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _computeSplatBounds(mesh: any): Bounds3 | null {
+    const count = mesh.packedSplats?.numSplats ?? 0;
+    if (!count) return null;
+    const stride = Math.max(1, Math.floor(count / BOUNDS_SAMPLES));
+    const centers: Vec3[] = [];
+    mesh.packedSplats.forEachSplat((index: number, center: THREE.Vector3) => {
+      if (index % stride === 0) centers.push([center.x, center.y, center.z]);
+    });
+    return trimmedBounds(centers);
+  }
+
+  /**
+   * Size of a splat layer on screen in pixels: the larger side of the screen rectangle
+   * covering its bounds, clipped to the viewport. 0 when off screen.
+   */
+  private _getScreenSize(layer: SplatLayerInfo, viewProjection: THREE.Matrix4, width: number, height: number): number {
+    const bounds = layer.localBounds;
+    // Without bounds, or with the camera among them, count the layer as filling the screen
+    if (!bounds) return Math.max(width, height);
+    layer.mesh.updateWorldMatrix?.(true, false);
+    const toClip = viewProjection.clone().multiply(layer.mesh.matrixWorld);
+
+    let minX = Infinity;
+    let minY = Infinity;
+    let maxX = -Infinity;
+    let maxY = -Infinity;
+    let behind = 0;
+    for (const [x, y, z] of boundsCorners(bounds)) {
+      const point = new THREE.Vector4(x, y, z, 1).applyMatrix4(toClip);
+      if (point.w <= 0) {
+        behind++;
+        continue;
+      }
+      minX = Math.min(minX, point.x / point.w);
+      maxX = Math.max(maxX, point.x / point.w);
+      minY = Math.min(minY, point.y / point.w);
+      maxY = Math.max(maxY, point.y / point.w);
+    }
+    if (behind === 8) return 0;
+    if (behind > 0) return Math.max(width, height);
+    if (maxX < -1 || minX > 1 || maxY < -1 || minY > 1) return 0;
+
+    const clippedWidth = ((Math.min(maxX, 1) - Math.max(minX, -1)) / 2) * width;
+    const clippedHeight = ((Math.min(maxY, 1) - Math.max(minY, -1)) / 2) * height;
+    return Math.max(clippedWidth, clippedHeight);
+  }
+
+  /**
+   * Splats of the meshes a splat layer draws: the frame shown and, while a sequence
+   * crossfades, the frame fading out.
+   */
+  private _drawnSplatCount(layer: SplatLayerInfo): number {
+    const fading = layer.sequence?.fadingMesh;
+    return (layer.mesh.packedSplats?.numSplats ?? 0) + (fading?.packedSplats?.numSplats ?? 0);
+  }
+
+  /**
+   * Splats a mesh of a splat layer may draw. While a sequence crossfades, the layer's share
+   * of the budget is split between the two frames in proportion to their sizes.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _meshSplatLimit(layer: SplatLayerInfo, mesh: any): number {
+    if (!layer.sequence?.fadingMesh) return layer.splatLimit;
+    const shown = layer.mesh.packedSplats?.numSplats ?? 0;
+    const shownLimit = Math.round((layer.splatLimit * shown) / Math.max(this._drawnSplatCount(layer), 1));
+    return mesh === layer.mesh ? shownLimit : layer.splatLimit - shownLimit;
+  }
+
+  /**
+   * Cull splat layers that are off screen or too small, and share the `maxSplats` budget
+   * among the rest by priority and screen area.
+   */
+  private _updateSplatBudget(): void {
+    if (!this._map || !this._mapScene || this._splatLayers.size === 0) return;
+
+    // MTP sets the camera matrices directly, so its inverse world matrix may be stale
+    const camera = this._mapScene.camera;
+    const viewProjection = camera.projectionMatrix.clone().multiply(camera.matrixWorld.clone().invert());
+    const canvas = this._map.getCanvas();
+    const requests: BudgetRequest[] = [];
+    for (const [layerId, layer] of this._splatLayers) {
+      layer.screenSize = this._getScreenSize(layer, viewProjection, canvas.clientWidth, canvas.clientHeight);
+      layer.culled = layer.screenSize < this._options.minScreenSize;
+      layer.mesh.visible = !layer.culled;
+      const total = this._drawnSplatCount(layer);
+      if (!layer.culled && layer.rtcGroup.visible !== false && layer.priority > 0) {
+        requests.push({ id: layerId, total, weight: layer.priority * layer.screenSize ** 2 });
+      }
+    }
+
+    const allocation = allocateSplatBudget(requests, this._options.maxSplats);
+    for (const [layerId, layer] of this._splatLayers) {
+      const total = this._drawnSplatCount(layer);
+      const limit = allocation.get(layerId) ?? 0;
+      // Hold back small changes; each change makes Spark regenerate the layer
+      if (limit === total || Math.abs(limit - layer.splatLimit) > total * SPLAT_LIMIT_STEP) {
+        layer.splatLimit = limit;
+      }
+    }
+  }
+
+  /**
+   * Apply the stored color grading of a layer as an affine color transform.
+   *
+   * The transform lives in uniforms created the first time a layer is graded: a Spark
+   * modifier reads them for splats, and a shader patch on every material for models.
+   * Later changes only update the uniforms.
+   */
+  private _applyLayerColorAdjustments(layer: SplatLayerInfo | ModelLayerInfo): void {
+    if (!layer.colorUniforms) {
+      layer.colorUniforms =
+        'scene' in layer ? this._createModelColorUniforms(layer.scene) : this._createSplatColorUniforms(layer.mesh);
+    }
+    const { matrix, offset } = colorAdjustmentsToAffine(layer.colorAdjustments);
+    layer.colorUniforms.matrix.value.set(...(matrix as Parameters<THREE.Matrix3['set']>));
+    layer.colorUniforms.offset.value.set(...offset);
+    // Spark only regenerates splats when the mesh reports a change
+    if (!('scene' in layer)) layer.mesh.updateVersion?.();
+  }
+
+  /**
+   * Add a Spark modifier that transforms splat colors by a matrix and offset.
+   * Pass the uniforms of another mesh to share them, as the frames of a sequence do.
+   */
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _createSplatColorUniforms(mesh: any, uniforms?: ColorUniforms): ColorUniforms {
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const matrix = (uniforms?.matrix as any) ?? dyno.dynoMat3(new THREE.Matrix3());
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const offset = (uniforms?.offset as any) ?? dyno.dynoVec3(new THREE.Vector3());
+    mesh.objectModifier = dyno.dynoBlock({ gsplat: dyno.Gsplat }, { gsplat: dyno.Gsplat }, ({ gsplat }) => {
+      if (!gsplat) throw new Error('No gsplat input');
+      const { rgb } = dyno.splitGsplat(gsplat).outputs;
+      return { gsplat: dyno.combineGsplat({ gsplat, rgb: dyno.add(dyno.mul(matrix, rgb), offset) }) };
+    });
+    mesh.updateGenerator();
+    return { matrix, offset };
+  }
+
+  /**
+   * Patch the materials of a model to transform their output color by a matrix and offset.
+   * The transform is applied in display color space, as splat colors are.
+   */
+  private _createModelColorUniforms(scene: THREE.Group): ColorUniforms {
+    const uniforms: ColorUniforms = {
+      matrix: { value: new THREE.Matrix3() },
+      offset: { value: new THREE.Vector3() },
+    };
+    scene.traverse((child) => {
+      const material = (child as THREE.Mesh).material;
+      if (!material) return;
+      for (const m of Array.isArray(material) ? material : [material]) {
+        const onBeforeCompile = m.onBeforeCompile;
+        const cacheKey = m.customProgramCacheKey;
+        m.onBeforeCompile = (shader, renderer) => {
+          onBeforeCompile.call(m, shader, renderer);
+          shader.uniforms.layerColorMatrix = uniforms.matrix;
+          shader.uniforms.layerColorOffset = uniforms.offset;
+          shader.fragmentShader = shader.fragmentShader
+            .replace('void main() {', 'uniform mat3 layerColorMatrix;\nuniform vec3 layerColorOffset;\nvoid main() {')
+            .replace(
+              '#include <colorspace_fragment>',
+              '#include <colorspace_fragment>\ngl_FragColor.rgb = layerColorMatrix * gl_FragColor.rgb + layerColorOffset;'
+            );
+        };
+        m.customProgramCacheKey = () => `${cacheKey.call(m)}|layerColor`;
+        m.needsUpdate = true;
+      }
+    });
+    return uniforms;
+  }
+
+  /**
+   * Rebuild the Spark edits that hide the splats outside a layer's crop volume.
+   *
+   * Each part of the crop is an inverted edit: splats outside the union of its boxes get
+   * zero opacity. The polygon is covered with boxes in an east/north/up frame in meters,
+   * so it depends on the layer placement and is rebuilt when the layer moves.
+   */
+  private _applyLayerCrop(layer: SplatLayerInfo): void {
+    for (const edit of layer.cropEdits) layer.mesh.remove(edit);
+    layer.cropEdits = [];
+    const crop = layer.crop;
+    if (!crop) return;
+
+    const createEdit = () =>
+      new SplatEdit({ rgbaBlendMode: SplatEditRgbaBlendMode.MULTIPLY, invert: true, name: 'Crop' });
+    const createBox = (center: Vec3, halfSize: Vec3): SplatEditSdf => {
+      const sdf = new SplatEditSdf({ type: SplatEditSdfType.BOX, opacity: 0 });
+      sdf.position.set(...center);
+      // Spark reads the half extents of a box from its scale
+      sdf.scale.set(...halfSize);
+      return sdf;
+    };
+
+    if (crop.boxes?.length) {
+      const edit = createEdit();
+      for (const box of crop.boxes) {
+        const sdf = createBox(box.center, [box.size[0] / 2, box.size[1] / 2, box.size[2] / 2]);
+        const [rx, ry, rz] = box.rotation ?? [0, 0, 0];
+        sdf.rotation.set(THREE.MathUtils.degToRad(rx), THREE.MathUtils.degToRad(ry), THREE.MathUtils.degToRad(rz));
+        edit.add(sdf);
+      }
+      layer.cropEdits.push(edit);
+    }
+
+    const reference: [number, number] = [layer.longitude, layer.latitude];
+    const boxes = polygonToBoxes(
+      (crop.polygon?.coordinates ?? []).map(([lng, lat]): [number, number] => {
+        const [east, north] = lngLatAltToEnu(reference, [lng, lat, 0]);
+        return [east, north];
+      })
+    );
+    if (crop.polygon && boxes.length) {
+      const altitude = this._resolveAltitude(layer.longitude, layer.latitude, layer.altitude, layer.altitudeMode);
+      const bottom = (crop.polygon.minHeight ?? altitude - UNBOUNDED_CROP_HEIGHT) - altitude;
+      const top = (crop.polygon.maxHeight ?? altitude + UNBOUNDED_CROP_HEIGHT) - altitude;
+
+      // Frame at the layer origin with east/north/up axes in meters. The mesh sits in the RTC group,
+      // whose parent frame is a half turn about z from east/north/up and measured in scene units
+      const frame = new THREE.Object3D();
+      frame.quaternion
+        .setFromEuler(
+          new THREE.Euler(
+            THREE.MathUtils.degToRad(layer.rotation[0]),
+            THREE.MathUtils.degToRad(layer.rotation[1]),
+            THREE.MathUtils.degToRad(layer.rotation[2]),
+            'XYZ'
+          )
+        )
+        .invert()
+        .multiply(new THREE.Quaternion().setFromAxisAngle(new THREE.Vector3(0, 0, 1), Math.PI));
+      // eslint-disable-next-line @typescript-eslint/no-explicit-any
+      const unitsPerMeter = (MTP.SceneTransform as any).projectedUnitsPerMeter(layer.latitude);
+      frame.scale.setScalar(unitsPerMeter / layer.scale);
+
+      const middle = (bottom + top) / 2;
+      for (const { center, size } of boxes) {
+        frame.add(createBox([center[0], center[1], middle], [size[0] / 2, size[1] / 2, (top - bottom) / 2]));
+      }
+      const edit = createEdit();
+      edit.add(frame);
+      layer.cropEdits.push(edit);
+    }
+
+    // Spark applies edits found among the mesh's children
+    for (const edit of layer.cropEdits) layer.mesh.add(edit);
+  }
+
+  /**
+   * Fill in the default up axis of an orientation for the layer type.
+   */
+  private _resolveOrientation(orientation: LayerOrientation, isModel: boolean): LayerOrientation {
+    return { ...orientation, upAxis: orientation.upAxis ?? (isModel ? 'Y-up' : '-Y-up') };
+  }
+
+  /**
+   * Convert a layer altitude to meters above sea level using the map terrain.
+   * Without terrain the ground is at 0 m, so all modes resolve to the plain altitude
+   * (or 0 for clampToGround).
+   */
+  private _resolveAltitude(lng: number, lat: number, altitude: number, mode: AltitudeMode): number {
+    if (mode === 'absolute') return altitude;
+    // queryTerrainElevation already includes the terrain exaggeration
+    const ground = this._map?.queryTerrainElevation?.([lng, lat]) ?? 0;
+    return mode === 'clampToGround' ? ground : ground + altitude;
+  }
+
+  /**
+   * Re-place terrain-relative layers after the terrain, its exaggeration or its tiles change.
    */
-  getSplatInfo(layerId: string): { url: string; longitude: number; latitude: number; altitude: number } | null {
-    const layer = this._splatLayers.get(layerId);
-    if (!layer) return null;
-    return {
-      url: layer.url,
-      longitude: layer.longitude,
-      latitude: layer.latitude,
-      altitude: layer.altitude,
-    };
+  private _updateTerrainAltitudes(): void {
+    for (const layer of [...this._splatLayers.values(), ...this._modelLayers.values()]) {
+      if (layer.altitudeMode !== 'absolute') this._applyLayerTransform(layer);
+    }
+    this._gizmo?.update();
   }
 
   private _removeAllLayers(): void {
@@ -642,7 +3900,20 @@ export class GaussianSplatControl implements IControl {
 
   private _emit(
     event: GaussianSplatEvent,
-    extra?: { url?: string; error?: string; splatId?: string; modelId?: string }
+    extra?: {
+      url?: string;
+      error?: string;
+      splatId?: string;
+      modelId?: string;
+      loaded?: number;
+      total?: number;
+      layerId?: string;
+      transform?: LayerTransform;
+      georeference?: GeoreferenceSolution;
+      pick?: LayerPick;
+      measurement?: Measurement;
+      frame?: { index: number; name: string; time: number };
+    }
   ): void {
     const handlers = this._eventHandlers.get(event);
     if (!handlers) return;
@@ -658,13 +3929,35 @@ export class GaussianSplatControl implements IControl {
     // eslint-disable-next-line @typescript-eslint/no-explicit-any
     const mapScene = new (MTP.MapScene as any)(this._map as any);
     this._mapScene = mapScene;
-    mapScene.addLight(new THREE.AmbientLight(0xffffff, 1));
-    mapScene.addLight(new THREE.DirectionalLight(0xffffff, 0.5));
+
+    // Share out the splat budget with the camera of the frame about to be drawn
+    mapScene.on('preRender', () => {
+      this._updateAnimations();
+      this._updateSequences();
+      this._updateSplatBudget();
+      this._updateCompare();
+    });
+
+    this._sceneLighting = new SceneLighting(this._map, mapScene, {
+      getShadowCasters: () =>
+        [...this._modelLayers.values()].filter((layer) => this._isLayerDrawn(layer)).map((layer) => layer.rtcGroup),
+    });
+    this._sceneLighting.setLighting(this._lighting);
+    if (this._lighting.environment) {
+      this._loadEnvironment().catch((err) => this._handleEnvironmentError(err));
+    }
 
     // Trigger repaint on post-render
     mapScene.on('postRender', () => {
       this._map?.triggerRepaint();
     });
+
+    this._measurementOverlay = new MeasurementOverlay(this._map, mapScene);
+    this._updateMeasurementOverlay();
+    this._annotationLabels = new AnnotationLabels(this._map, mapScene, {
+      getPosition: (annotation) => this._getAnnotationPosition(annotation),
+      isOccluded: (position, point) => this._isOccluded(position, point),
+    });
   }
 
   private _createContainer(): HTMLElement {
@@ -772,6 +4065,35 @@ export class GaussianSplatControl implements IControl {
       this._state.url = urlInput.value;
     });
     urlGroup.appendChild(urlInput);
+
+    // Local file picker
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = ASSET_FILE_ACCEPT;
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', () => {
+      const file = fileInput.files?.[0];
+      if (file) this._loadFile(file);
+    });
+    urlGroup.appendChild(fileInput);
+
+    const fileBtn = document.createElement('button');
+    fileBtn.textContent = 'Choose file...';
+    fileBtn.title = 'Load a local file (or drop it onto the panel or map)';
+    fileBtn.disabled = this._state.loading;
+    fileBtn.style.cssText = `
+      width: 100%;
+      margin-top: 6px;
+      padding: 6px 10px;
+      font-size: 12px;
+      border: 1px dashed #bbb;
+      border-radius: 4px;
+      background: #fafafa;
+      color: #555;
+      cursor: pointer;
+    `;
+    fileBtn.addEventListener('click', () => fileInput.click());
+    urlGroup.appendChild(fileBtn);
     panel.appendChild(urlGroup);
 
     // Location inputs
@@ -793,27 +4115,95 @@ export class GaussianSplatControl implements IControl {
     locRow.appendChild(latInput);
     locRow.appendChild(altInput);
     locGroup.appendChild(locRow);
+
+    const altModeSelect = this._createSelect<AltitudeMode>(
+      'Altitude mode',
+      [
+        ['absolute', 'Absolute (above sea level)'],
+        ['relativeToGround', 'Relative to ground'],
+        ['clampToGround', 'Clamp to ground'],
+      ],
+      this._state.altitudeMode,
+      (value) => {
+        this._state.altitudeMode = value;
+      }
+    );
+    locGroup.appendChild(altModeSelect);
     panel.appendChild(locGroup);
 
-    // Rotation inputs (X, Y, Z in degrees)
+    // Rotation inputs: X/Y/Z Euler angles or heading/pitch/roll (degrees)
     const rotGroup = this._createFormGroup('Rotation (°)');
     const rotRow = document.createElement('div');
     rotRow.style.cssText = 'display: flex; gap: 6px;';
 
-    const rotXInput = this._createSmallInput('X', String(this._state.rotation[0]), (val) => {
-      this._state.rotation[0] = Number(val) || 0;
-    });
-    const rotYInput = this._createSmallInput('Y', String(this._state.rotation[1]), (val) => {
-      this._state.rotation[1] = Number(val) || 0;
-    });
-    const rotZInput = this._createSmallInput('Z', String(this._state.rotation[2]), (val) => {
-      this._state.rotation[2] = Number(val) || 0;
-    });
+    const orientation = this._state.orientation;
+    if (orientation) {
+      rotRow.appendChild(
+        this._createSmallInput('Heading', String(orientation.heading), (val) => {
+          orientation.heading = Number(val) || 0;
+        })
+      );
+      rotRow.appendChild(
+        this._createSmallInput('Pitch', String(orientation.pitch), (val) => {
+          orientation.pitch = Number(val) || 0;
+        })
+      );
+      rotRow.appendChild(
+        this._createSmallInput('Roll', String(orientation.roll), (val) => {
+          orientation.roll = Number(val) || 0;
+        })
+      );
+    } else {
+      const rotXInput = this._createSmallInput('X', String(this._state.rotation[0]), (val) => {
+        this._state.rotation[0] = Number(val) || 0;
+      });
+      const rotYInput = this._createSmallInput('Y', String(this._state.rotation[1]), (val) => {
+        this._state.rotation[1] = Number(val) || 0;
+      });
+      const rotZInput = this._createSmallInput('Z', String(this._state.rotation[2]), (val) => {
+        this._state.rotation[2] = Number(val) || 0;
+      });
 
-    rotRow.appendChild(rotXInput);
-    rotRow.appendChild(rotYInput);
-    rotRow.appendChild(rotZInput);
+      rotRow.appendChild(rotXInput);
+      rotRow.appendChild(rotYInput);
+      rotRow.appendChild(rotZInput);
+    }
     rotGroup.appendChild(rotRow);
+
+    const rotModeRow = document.createElement('div');
+    rotModeRow.style.cssText = 'display: flex; gap: 6px;';
+    rotModeRow.appendChild(
+      this._createSelect<'euler' | 'orientation'>(
+        'Rotation mode',
+        [
+          ['euler', 'X / Y / Z'],
+          ['orientation', 'Heading / Pitch / Roll'],
+        ],
+        orientation ? 'orientation' : 'euler',
+        (mode) => {
+          this._state.orientation = mode === 'orientation' ? { heading: 0, pitch: 0, roll: 0 } : null;
+          this._render();
+        }
+      )
+    );
+    if (orientation) {
+      rotModeRow.appendChild(
+        this._createSelect<UpAxis | 'auto'>(
+          'Up axis of the asset',
+          [
+            ['auto', 'Up axis: auto'],
+            ['-Y-up', '-Y up (splats)'],
+            ['Y-up', 'Y up (GLTF)'],
+            ['Z-up', 'Z up'],
+          ],
+          orientation.upAxis ?? 'auto',
+          (value) => {
+            orientation.upAxis = value === 'auto' ? undefined : value;
+          }
+        )
+      );
+    }
+    rotGroup.appendChild(rotModeRow);
     panel.appendChild(rotGroup);
 
     // Scale input
@@ -859,8 +4249,12 @@ export class GaussianSplatControl implements IControl {
           longitude: this._state.longitude,
           latitude: this._state.latitude,
           altitude: this._state.altitude,
+          altitudeMode: this._state.altitudeMode,
           rotation: this._state.rotation,
+          orientation: this._state.orientation ?? undefined,
           scale: this._state.scale,
+        }).catch(() => {
+          // Errors are surfaced through the panel status and the 'error' event
         });
       }
     });
@@ -868,7 +4262,26 @@ export class GaussianSplatControl implements IControl {
 
     // Status/error
     if (this._state.loading) {
-      panel.appendChild(this._createStatus('Loading...', 'info'));
+      const percent = this._state.progress !== null ? ` ${Math.floor(this._state.progress * 100)}%` : '';
+      const status = this._createStatus(`Loading...${percent}`, 'info');
+      status.style.display = 'flex';
+      status.style.justifyContent = 'space-between';
+      status.style.alignItems = 'center';
+
+      const cancelBtn = document.createElement('button');
+      cancelBtn.textContent = 'Cancel';
+      cancelBtn.style.cssText = `
+        border: none;
+        background: transparent;
+        color: inherit;
+        font-size: 11px;
+        font-weight: 500;
+        cursor: pointer;
+        padding: 0;
+      `;
+      cancelBtn.addEventListener('click', () => this.cancelLoads());
+      status.appendChild(cancelBtn);
+      panel.appendChild(status);
     } else if (this._state.error) {
       panel.appendChild(this._createStatus(this._state.error, 'error'));
     } else if (this._state.status) {
@@ -892,15 +4305,16 @@ export class GaussianSplatControl implements IControl {
 
       // Splat layers
       for (const [layerId, layer] of this._splatLayers) {
-        const item = this._createLayerItem(this._getFilename(layer.url), 'splat', () => {
+        const item = this._createLayerItem(layer.name, 'splat', this._createLayerActions(layerId), () => {
           this.removeSplat(layerId);
         });
         listDiv.appendChild(item);
+        if (layer.sequence) listDiv.appendChild(this._createSequenceTimeline(layer));
       }
 
       // Model layers
       for (const [layerId, layer] of this._modelLayers) {
-        const item = this._createLayerItem(this._getFilename(layer.url), 'model', () => {
+        const item = this._createLayerItem(layer.name, 'model', this._createLayerActions(layerId), () => {
           this.removeModel(layerId);
         });
         listDiv.appendChild(item);
@@ -909,10 +4323,89 @@ export class GaussianSplatControl implements IControl {
       panel.appendChild(listDiv);
     }
 
+    if (this._georeferencingLayerId) {
+      panel.appendChild(this._createGeoreferenceSection(this._georeferencingLayerId));
+    }
+    if (this._croppingLayerId) {
+      panel.appendChild(this._createCropSection(this._croppingLayerId));
+    }
+    if (this._colorEditingLayerId) {
+      panel.appendChild(this._createColorSection(this._colorEditingLayerId));
+    }
+    if (this._camerasLayerId) {
+      panel.appendChild(this._createCamerasSection(this._camerasLayerId));
+    }
+    if (this._compare || this._comparePickLayerId) {
+      panel.appendChild(this._createCompareSection());
+    }
+    if (totalLayers > 0 || this._measurements.length > 0) {
+      panel.appendChild(this._createMeasureSection());
+    }
+
+    // Drag-and-drop local files onto the panel
+    panel.addEventListener('dragover', (e) => {
+      if (!e.dataTransfer?.types.includes('Files')) return;
+      e.preventDefault();
+      panel.classList.add('dragover');
+    });
+    panel.addEventListener('dragleave', () => panel.classList.remove('dragover'));
+    panel.addEventListener('drop', (e) => {
+      panel.classList.remove('dragover');
+      const file = e.dataTransfer?.files[0];
+      if (!file) return;
+      e.preventDefault();
+      e.stopPropagation();
+      this._loadFile(file);
+    });
+
     this._container.appendChild(panel);
     this._panel = panel;
   }
 
+  /**
+   * Load a local file using the placement values from the panel.
+   */
+  private _loadFile(file: File, lngLat?: { lng: number; lat: number }): void {
+    this.load(file, {
+      longitude: lngLat?.lng ?? this._state.longitude,
+      latitude: lngLat?.lat ?? this._state.latitude,
+      altitude: this._state.altitude,
+      altitudeMode: this._state.altitudeMode,
+      rotation: this._state.rotation,
+      orientation: this._state.orientation ?? undefined,
+      scale: this._state.scale,
+    }).catch(() => {
+      // Errors are surfaced through the panel status and the 'error' event
+    });
+  }
+
+  /**
+   * Allow local files to be dropped onto the map, placing them at the drop location.
+   */
+  private _setupMapDrop(): void {
+    if (!this._map) return;
+    const target = this._map.getCanvasContainer();
+
+    const onDragOver = (e: DragEvent) => {
+      if (e.dataTransfer?.types.includes('Files')) e.preventDefault();
+    };
+    const onDrop = (e: DragEvent) => {
+      const file = e.dataTransfer?.files[0];
+      if (!file || !this._map) return;
+      e.preventDefault();
+      const rect = target.getBoundingClientRect();
+      const lngLat = this._map.unproject([e.clientX - rect.left, e.clientY - rect.top]);
+      this._loadFile(file, lngLat);
+    };
+
+    target.addEventListener('dragover', onDragOver);
+    target.addEventListener('drop', onDrop);
+    this._removeMapDrop = () => {
+      target.removeEventListener('dragover', onDragOver);
+      target.removeEventListener('drop', onDrop);
+    };
+  }
+
   private _createFormGroup(label: string): HTMLElement {
     const group = document.createElement('div');
     group.style.marginBottom = '12px';
@@ -976,6 +4469,58 @@ export class GaussianSplatControl implements IControl {
     return wrapper;
   }
 
+  /**
+   * A range input that applies every change while it is dragged. Callers update what the
+   * slider changes in place rather than re-rendering, which would interrupt the drag.
+   */
+  private _createLiveSlider(
+    min: number,
+    max: number,
+    step: number,
+    value: number,
+    onInput: (value: number) => void
+  ): HTMLInputElement {
+    const slider = document.createElement('input');
+    slider.type = 'range';
+    slider.min = String(min);
+    slider.max = String(max);
+    slider.step = String(step);
+    slider.value = String(value);
+    slider.addEventListener('input', () => onInput(Number(slider.value)));
+    return slider;
+  }
+
+  private _createSelect<T extends string>(
+    title: string,
+    options: Array<[T, string]>,
+    value: T,
+    onChange: (value: T) => void
+  ): HTMLSelectElement {
+    const select = document.createElement('select');
+    select.title = title;
+    select.style.cssText = `
+      flex: 1;
+      width: 100%;
+      margin-top: 6px;
+      padding: 4px 6px;
+      font-size: 11px;
+      border: 1px solid #ddd;
+      border-radius: 4px;
+      box-sizing: border-box;
+      background: white;
+      min-width: 0;
+    `;
+    for (const [optionValue, label] of options) {
+      const option = document.createElement('option');
+      option.value = optionValue;
+      option.textContent = label;
+      option.selected = optionValue === value;
+      select.appendChild(option);
+    }
+    select.addEventListener('change', () => onChange(select.value as T));
+    return select;
+  }
+
   private _createStatus(message: string, type: 'info' | 'error' | 'success'): HTMLElement {
     const status = document.createElement('div');
     const colors = {
@@ -995,7 +4540,611 @@ export class GaussianSplatControl implements IControl {
     return status;
   }
 
-  private _createLayerItem(name: string, type: 'splat' | 'model', onRemove: () => void): HTMLElement {
+  /**
+   * Create the per-layer buttons shown in the layer list.
+   */
+  private _createLayerActions(layerId: string): HTMLElement[] {
+    const opacity = this.getLayerOpacity(layerId) ?? 1;
+    const zoomBtn = this._createIconButton('⤢', 'Zoom to layer', () => this.zoomToLayer(layerId));
+
+    const opacitySlider = this._createLiveSlider(0, 1, 0.05, opacity, (value) => {
+      this.setLayerOpacity(layerId, value);
+      opacitySlider.title = `Opacity: ${Math.round(value * 100)}%`;
+    });
+    opacitySlider.title = `Opacity: ${Math.round(opacity * 100)}%`;
+    opacitySlider.style.cssText = 'width: 56px; margin: 0 4px; cursor: pointer;';
+
+    const editing = this._editingLayerId === layerId;
+    const editBtn = this._createIconButton('✥', editing ? 'Stop editing placement' : 'Edit placement on map', () => {
+      if (editing) this.stopTransformEdit();
+      else this.startTransformEdit(layerId);
+    });
+    if (editing) editBtn.style.color = '#0078d7';
+
+    const georeferencing = this._georeferencingLayerId === layerId;
+    const georefBtn = this._createIconButton(
+      '⌖',
+      georeferencing ? 'Stop picking control points' : 'Georeference with control points',
+      () => {
+        if (georeferencing) this.stopGeoreference();
+        else this.startGeoreference(layerId);
+      }
+    );
+    if (georeferencing) georefBtn.style.color = '#0078d7';
+
+    const grading = this._colorEditingLayerId === layerId;
+    const colorBtn = this._createIconButton('◐', grading ? 'Hide color adjustments' : 'Adjust colors', () => {
+      this._colorEditingLayerId = grading ? null : layerId;
+      this._render();
+    });
+    if (grading) colorBtn.style.color = '#0078d7';
+
+    const compared = this._compare?.layerIdA === layerId || this._compare?.layerIdB === layerId;
+    const picked = this._comparePickLayerId === layerId;
+    const compareTitle = compared || picked ? 'Stop comparing' : 'Compare with another layer';
+    const compareBtn = this._createIconButton('◧', compareTitle, () => this._onCompareClick(layerId));
+    if (compared || picked) compareBtn.style.color = '#0078d7';
+    const model = this._modelLayers.get(layerId);
+    if (model) {
+      const actions = [zoomBtn, opacitySlider, editBtn, georefBtn, colorBtn, compareBtn];
+      if (model.animations.length > 0) actions.push(this._createAnimationButton(layerId));
+      return actions;
+    }
+
+    const cropping = this._croppingLayerId === layerId;
+    const cropBtn = this._createIconButton('✂', cropping ? 'Stop editing crop' : 'Edit crop', () => {
+      if (cropping) this.stopCropEdit();
+      else this.startCropEdit(layerId);
+    });
+    if (cropping) cropBtn.style.color = '#0078d7';
+
+    const listing = this._camerasLayerId === layerId;
+    const camerasBtn = this._createIconButton('◫', listing ? 'Hide capture cameras' : 'Capture cameras', () => {
+      this._camerasLayerId = listing ? null : layerId;
+      this._render();
+    });
+    if (listing) camerasBtn.style.color = '#0078d7';
+    return [zoomBtn, opacitySlider, editBtn, georefBtn, colorBtn, compareBtn, cropBtn, camerasBtn];
+  }
+
+  /**
+   * Play/stop button of a model row, playing all of the model's clips on a loop.
+   */
+  private _createAnimationButton(layerId: string): HTMLElement {
+    const animations = this.listAnimations(layerId);
+    const playing = animations.some((a) => a.playing);
+    const title = playing ? 'Stop animation' : `Play animation (${animations.map((a) => a.name).join(', ')})`;
+    const button = this._createIconButton(playing ? '■' : '▶', title, () => {
+      if (playing) this.stopAnimation(layerId);
+      else for (const { name } of animations) this.playAnimation(layerId, name);
+    });
+    if (playing) button.style.color = '#0078d7';
+    return button;
+  }
+
+  /**
+   * Pick the first layer to compare, or compare the picked layer with this one.
+   */
+  private _onCompareClick(layerId: string): void {
+    const compared = this._compare?.layerIdA === layerId || this._compare?.layerIdB === layerId;
+    if (compared || this._comparePickLayerId === layerId) {
+      this.clearCompare();
+    } else if (this._comparePickLayerId) {
+      this.setCompare(this._comparePickLayerId, layerId);
+    } else {
+      this._comparePickLayerId = layerId;
+      this._render();
+    }
+  }
+
+  /**
+   * Panel section for the compare mode: which layer is on which side, and the divider direction.
+   */
+  private _createCompareSection(): HTMLElement {
+    const section = this._createPanelSection();
+    const layerName = (layerId: string) =>
+      (this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId))?.name ?? layerId;
+    const hint = document.createElement('div');
+    hint.style.cssText = 'color: #555;';
+    section.appendChild(hint);
+
+    const compare = this._compare;
+    if (this._comparePickLayerId || !compare) {
+      hint.textContent = `Choose another layer with ◧ to compare with ${layerName(this._comparePickLayerId ?? '')}.`;
+      section.appendChild(
+        this._createSectionButtons([
+          [
+            'Cancel',
+            true,
+            () => {
+              this._comparePickLayerId = null;
+              this._render();
+            },
+          ],
+        ])
+      );
+      return section;
+    }
+
+    const { layerIdA, layerIdB, orientation } = compare;
+    const [sideA, sideB] = orientation === 'vertical' ? ['on the left', 'on the right'] : ['above', 'below'];
+    hint.textContent = `${layerName(layerIdA)} ${sideA}, ${layerName(layerIdB)} ${sideB}. Drag the divider to compare.`;
+    section.appendChild(
+      this._createSelect<CompareOrientation>(
+        'Divider',
+        [
+          ['vertical', 'Side by side'],
+          ['horizontal', 'Top and bottom'],
+        ],
+        orientation,
+        (value) => this.setCompare(layerIdA, layerIdB, { orientation: value })
+      )
+    );
+    section.appendChild(
+      this._createSectionButtons([
+        ['Swap', true, () => this.setCompare(layerIdB, layerIdA)],
+        ['Stop', true, () => this.clearCompare()],
+      ])
+    );
+    return section;
+  }
+
+  /**
+   * Create the control point list and actions for the layer being georeferenced.
+   */
+  private _createGeoreferenceSection(layerId: string): HTMLElement {
+    const section = this._createPanelSection();
+
+    const hint = document.createElement('div');
+    hint.textContent = this._pendingControlPoint
+      ? 'Now click the matching position on the map.'
+      : 'Click a recognizable point on the layer.';
+    hint.style.cssText = 'color: #555; margin-bottom: 6px;';
+    section.appendChild(hint);
+
+    // Preview the fit as points are added so a bad pick stands out
+    const points = this.getControlPoints(layerId);
+    let preview: GeoreferenceSolution | null = null;
+    let previewError: string | null = null;
+    if (points.length >= 3) {
+      try {
+        preview = this.solveGeoreference(layerId);
+      } catch (err) {
+        previewError = err instanceof Error ? err.message : String(err);
+      }
+    }
+
+    points.forEach((point, index) => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 4px; padding: 2px 0;';
+      const label = document.createElement('span');
+      const [lng, lat] = point.lngLatAlt;
+      const residual = preview ? ` · ${preview.residuals[index].toFixed(2)} m` : '';
+      label.textContent = `${index + 1}. ${lng.toFixed(6)}, ${lat.toFixed(6)}${residual}`;
+      label.style.cssText = 'flex: 1; font-family: monospace;';
+      row.appendChild(label);
+      row.appendChild(this._createIconButton('×', 'Remove control point', () => this.removeControlPoint(layerId, index)));
+      section.appendChild(row);
+    });
+
+    if (preview || previewError) {
+      const summary = document.createElement('div');
+      summary.textContent = preview ? `RMS error: ${preview.rmse.toFixed(2)} m` : previewError;
+      summary.style.cssText = `margin-top: 4px; color: ${preview ? '#555' : '#c62828'};`;
+      section.appendChild(summary);
+    }
+
+    section.appendChild(
+      this._createSectionButtons([
+        ['Apply', !!preview, () => this.applyGeoreference(layerId)],
+        ['Export', !!this.exportGeoreference(layerId), () => this._downloadGeoreference(layerId)],
+        ['Done', true, () => this.stopGeoreference()],
+      ])
+    );
+
+    return section;
+  }
+
+  /**
+   * Create the crop polygon status, height limits and actions for the layer being cropped.
+   */
+  private _createCropSection(layerId: string): HTMLElement {
+    const section = this._createPanelSection();
+    const crop = this.getLayerCrop(layerId);
+    const polygon = crop?.polygon;
+    const count = polygon?.coordinates.length ?? 0;
+
+    const hint = document.createElement('div');
+    hint.textContent =
+      count < 3
+        ? `Click the map to outline the area to keep (${count} of at least 3 points).`
+        : `Keeping splats inside ${count} points. Click the map to add more.`;
+    hint.style.cssText = 'color: #555; margin-bottom: 6px;';
+    section.appendChild(hint);
+
+    // Heights are edited in place rather than re-rendering, which would interrupt typing
+    const setHeight = (key: 'minHeight' | 'maxHeight', value: string) => {
+      const current = this.getLayerCrop(layerId) ?? {};
+      const next: CropPolygon = { ...(current.polygon ?? { coordinates: [] }) };
+      if (value.trim() === '' || !Number.isFinite(Number(value))) delete next[key];
+      else next[key] = Number(value);
+      this.setLayerCrop(layerId, { ...current, polygon: next });
+    };
+    const heights = document.createElement('div');
+    heights.style.cssText = 'display: flex; gap: 6px;';
+    heights.appendChild(
+      this._createSmallInput('Min height (m)', String(polygon?.minHeight ?? ''), (v) => setHeight('minHeight', v))
+    );
+    heights.appendChild(
+      this._createSmallInput('Max height (m)', String(polygon?.maxHeight ?? ''), (v) => setHeight('maxHeight', v))
+    );
+    section.appendChild(heights);
+
+    section.appendChild(
+      this._createSectionButtons([
+        [
+          'Undo point',
+          count > 0,
+          () => {
+            polygon!.coordinates.pop();
+            this.setLayerCrop(layerId, { ...crop, polygon });
+            this._render();
+          },
+        ],
+        [
+          'Clear',
+          !!crop,
+          () => {
+            this.setLayerCrop(layerId, null);
+            this._render();
+          },
+        ],
+        ['Done', true, () => this.stopCropEdit()],
+      ])
+    );
+
+    return section;
+  }
+
+  /**
+   * Create the color adjustment sliders for a layer.
+   */
+  private _createColorSection(layerId: string): HTMLElement {
+    const section = this._createPanelSection();
+    const adjustments = this.getLayerColorAdjustments(layerId) ?? { ...NEUTRAL_COLOR_ADJUSTMENTS };
+    const sliders: Array<[keyof ColorAdjustments, string, number, number]> = [
+      ['brightness', 'Brightness', -0.5, 0.5],
+      ['contrast', 'Contrast', -1, 1],
+      ['saturation', 'Saturation', -1, 1],
+      ['exposure', 'Exposure (stops)', -3, 3],
+      ['tint', 'Tint', -1, 1],
+    ];
+
+    for (const [key, label, min, max] of sliders) {
+      const row = document.createElement('label');
+      row.style.cssText = 'display: flex; align-items: center; gap: 6px; padding: 2px 0;';
+      const name = document.createElement('span');
+      name.textContent = label;
+      name.style.cssText = 'width: 96px; color: #555;';
+      const value = document.createElement('span');
+      value.textContent = adjustments[key].toFixed(2);
+      value.style.cssText = 'width: 36px; text-align: right; font-family: monospace;';
+      const slider = this._createLiveSlider(min, max, 0.01, adjustments[key], (adjusted) => {
+        this.setLayerColorAdjustments(layerId, { [key]: adjusted });
+        value.textContent = adjusted.toFixed(2);
+      });
+      slider.style.cssText = 'flex: 1; min-width: 0; cursor: pointer;';
+      row.append(name, slider, value);
+      section.appendChild(row);
+    }
+
+    section.appendChild(
+      this._createSectionButtons([
+        [
+          'Reset',
+          !isNeutralColorAdjustments(adjustments),
+          () => {
+            this.setLayerColorAdjustments(layerId, null);
+            this._render();
+          },
+        ],
+        [
+          'Done',
+          true,
+          () => {
+            this._colorEditingLayerId = null;
+            this._render();
+          },
+        ],
+      ])
+    );
+
+    return section;
+  }
+
+  /**
+   * Create the capture camera list of a splat layer, and a file picker to attach camera poses.
+   */
+  private _createCamerasSection(layerId: string): HTMLElement {
+    const section = this._createPanelSection();
+    const cameras = this.getLayerCameras(layerId);
+
+    const hint = document.createElement('div');
+    hint.textContent =
+      cameras.length > 0
+        ? `${cameras.length} capture cameras. View the layer from where a photo was taken.`
+        : 'Attach the transforms.json (nerfstudio) or images.txt and cameras.txt (COLMAP) the splat was trained from.';
+    hint.style.cssText = 'color: #555; margin-bottom: 6px;';
+    section.appendChild(hint);
+
+    const list = document.createElement('div');
+    list.style.cssText = 'max-height: 120px; overflow-y: auto;';
+    cameras.forEach((camera, index) => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 4px; padding: 2px 0;';
+      const label = document.createElement('span');
+      label.textContent = camera.name;
+      label.title = camera.name;
+      label.style.cssText = 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
+      row.appendChild(label);
+      const viewBtn = this._createIconButton('➜', 'View from this camera', () => this.viewFromCamera(layerId, index));
+      row.appendChild(viewBtn);
+      list.appendChild(row);
+    });
+    section.appendChild(list);
+
+    // A COLMAP images.txt may come with its cameras.txt
+    const fileInput = document.createElement('input');
+    fileInput.type = 'file';
+    fileInput.accept = '.json,.txt';
+    fileInput.multiple = true;
+    fileInput.style.display = 'none';
+    fileInput.addEventListener('change', () => {
+      const files = [...(fileInput.files ?? [])];
+      const intrinsics = files.find((file) => /cameras\.txt$/i.test(file.name));
+      const poses = files.find((file) => file !== intrinsics);
+      if (!poses) return;
+      this.loadLayerCameras(layerId, poses, { colmapCameras: intrinsics }).catch((err) => {
+        this._state.error = err instanceof Error ? err.message : String(err);
+        this._render();
+      });
+    });
+    section.appendChild(fileInput);
+
+    section.appendChild(
+      this._createSectionButtons([
+        ['Attach...', true, () => fileInput.click()],
+        ['Remove', cameras.length > 0, () => this.setLayerCameras(layerId, null)],
+        [
+          'Done',
+          true,
+          () => {
+            this._camerasLayerId = null;
+            this._render();
+          },
+        ],
+      ])
+    );
+
+    return section;
+  }
+
+  /**
+   * Create the measurement tools, the list of completed measurements and their actions.
+   */
+  private _createMeasureSection(): HTMLElement {
+    const section = this._createPanelSection();
+    const mode = this._measurementMode;
+    const modes: Array<[MeasurementMode, string]> = [
+      ['distance', 'Distance'],
+      ['height', 'Height'],
+      ['area', 'Area'],
+    ];
+
+    const title = document.createElement('div');
+    title.textContent = 'Measure';
+    title.style.cssText = 'font-weight: 500; color: #555;';
+    section.appendChild(title);
+
+    const modeButtons = this._createSectionButtons(
+      modes.map(([value, label]): [string, boolean, () => void] => [
+        label,
+        true,
+        () => (mode === value ? this.stopMeasurement() : this.startMeasurement(value)),
+      ])
+    );
+    modes.forEach(([value], index) => {
+      if (value === mode) (modeButtons.children[index] as HTMLElement).style.color = '#0078d7';
+    });
+    section.appendChild(modeButtons);
+
+    if (mode) {
+      const count = this._measurementDraft.length;
+      const hint = document.createElement('div');
+      hint.textContent =
+        mode === 'area'
+          ? `Click the layers to outline the area (${count} of at least 3 points), then Finish.`
+          : `Click ${count === 0 ? 'the first' : 'the second'} point on a layer.`;
+      hint.style.cssText = 'color: #555; margin-top: 6px;';
+      section.appendChild(hint);
+    }
+
+    this._measurements.forEach((measurement, index) => {
+      const row = document.createElement('div');
+      row.style.cssText = 'display: flex; align-items: center; gap: 4px; padding: 2px 0;';
+      const label = document.createElement('span');
+      const name = modes.find(([value]) => value === measurement.mode)![1];
+      const value = formatMeasurement(measurement.value, measurement.mode, this._measurementUnits);
+      label.textContent = `${index + 1}. ${name}: ${value}`;
+      label.style.cssText = 'flex: 1;';
+      row.appendChild(label);
+      row.appendChild(this._createIconButton('×', 'Remove measurement', () => this.removeMeasurement(measurement.id)));
+      section.appendChild(row);
+    });
+
+    section.appendChild(
+      this._createSelect<MeasurementUnits>(
+        'Measurement units',
+        [
+          ['metric', 'Meters'],
+          ['imperial', 'Feet'],
+        ],
+        this._measurementUnits,
+        (units) => this.setMeasurementUnits(units)
+      )
+    );
+
+    section.appendChild(
+      this._createSectionButtons([
+        ['Finish', mode === 'area' && this._measurementDraft.length >= 3, () => this.finishMeasurement()],
+        [
+          'Clear',
+          this._measurements.length > 0 || this._measurementDraft.length > 0,
+          () => this.clearMeasurements(),
+        ],
+        ['Export', this._measurements.length > 0, () => this._downloadMeasurements()],
+      ])
+    );
+
+    return section;
+  }
+
+  /**
+   * Create a bordered panel section for editing one layer.
+   */
+  private _createPanelSection(): HTMLElement {
+    const section = document.createElement('div');
+    section.style.cssText = `
+      margin-top: 12px;
+      padding: 8px;
+      border: 1px solid #e0e0e0;
+      border-radius: 4px;
+      font-size: 11px;
+    `;
+    return section;
+  }
+
+  /**
+   * Create a row of equally wide buttons given as [label, enabled, onClick].
+   */
+  private _createSectionButtons(buttons: Array<[string, boolean, () => void]>): HTMLElement {
+    const row = document.createElement('div');
+    row.style.cssText = 'display: flex; gap: 6px; margin-top: 8px;';
+    for (const [text, enabled, onClick] of buttons) {
+      const button = document.createElement('button');
+      button.textContent = text;
+      button.disabled = !enabled;
+      button.style.cssText = `
+        flex: 1;
+        padding: 4px 6px;
+        font-size: 11px;
+        border: 1px solid #ddd;
+        border-radius: 4px;
+        background: white;
+        cursor: pointer;
+        opacity: ${enabled ? '1' : '0.5'};
+      `;
+      button.addEventListener('click', onClick);
+      row.appendChild(button);
+    }
+    return row;
+  }
+
+  /**
+   * Save the applied georeferencing of a layer as a JSON file.
+   */
+  private _downloadGeoreference(layerId: string): void {
+    const solution = this.exportGeoreference(layerId);
+    if (!solution) return;
+    const layer = this._splatLayers.get(layerId) ?? this._modelLayers.get(layerId);
+    const blob = new Blob([JSON.stringify(solution, null, 2)], { type: 'application/json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = `${(layer?.name || layerId).replace(/\.[^.]*$/, '')}.georeference.json`;
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Save the completed measurements as a GeoJSON file.
+   */
+  private _downloadMeasurements(): void {
+    const blob = new Blob([JSON.stringify(this.exportMeasurements(), null, 2)], { type: 'application/geo+json' });
+    const link = document.createElement('a');
+    link.href = URL.createObjectURL(blob);
+    link.download = 'measurements.geojson';
+    link.click();
+    URL.revokeObjectURL(link.href);
+  }
+
+  /**
+   * Play button, frame slider and capture date of a sequence layer.
+   */
+  private _createSequenceTimeline(layer: SplatLayerInfo): HTMLElement {
+    const sequence = layer.sequence!;
+    const row = document.createElement('div');
+    row.className = 'maplibre-gl-splat-timeline';
+    row.dataset.layerId = layer.id;
+    row.style.cssText = 'display: flex; align-items: center; gap: 4px; margin: -2px 0 6px; padding: 0 4px;';
+
+    const { playing } = sequence;
+    const playBtn = this._createIconButton(playing ? '❚❚' : '▶', playing ? 'Pause' : 'Play', () => {
+      if (playing) this.pauseSequence(layer.id);
+      else this.playSequence(layer.id);
+    });
+    row.appendChild(playBtn);
+
+    const slider = this._createLiveSlider(0, sequence.frames.length - 1, 1, sequence.target, (index) => {
+      this.seekSequence(layer.id, index).catch(() => {});
+    });
+    slider.style.cssText = 'flex: 1; min-width: 0; cursor: pointer;';
+    row.appendChild(slider);
+
+    const label = document.createElement('span');
+    label.className = 'maplibre-gl-splat-timeline-label';
+    label.style.cssText = 'font-size: 11px; color: #555; white-space: nowrap;';
+    row.appendChild(label);
+
+    this._updateSequenceTimeline(layer, row);
+    return row;
+  }
+
+  /**
+   * Move the timeline of a sequence layer to the frame asked for.
+   */
+  private _updateSequenceTimeline(layer: SplatLayerInfo, row?: HTMLElement | null): void {
+    row ??= this._container?.querySelector<HTMLElement>(`.maplibre-gl-splat-timeline[data-layer-id="${layer.id}"]`);
+    const sequence = layer.sequence;
+    if (!row || !sequence) return;
+    const frame = sequence.frames[sequence.target];
+    row.querySelector('input')!.value = String(sequence.target);
+    const label = row.querySelector<HTMLElement>('.maplibre-gl-splat-timeline-label')!;
+    label.textContent = new Date(frame.time).toISOString().slice(0, 10);
+    label.title = `${frame.name} (${sequence.target + 1}/${sequence.frames.length})`;
+  }
+
+  private _createIconButton(icon: string, title: string, onClick: () => void): HTMLElement {
+    const button = document.createElement('button');
+    button.textContent = icon;
+    button.title = title;
+    button.style.cssText = `
+      border: none;
+      background: transparent;
+      cursor: pointer;
+      color: #666;
+      font-size: 12px;
+      padding: 0 4px;
+    `;
+    button.addEventListener('click', onClick);
+    return button;
+  }
+
+  private _createLayerItem(
+    name: string,
+    type: 'splat' | 'model',
+    actions: HTMLElement[],
+    onRemove: () => void
+  ): HTMLElement {
     const item = document.createElement('div');
     item.style.cssText = `
       display: flex;
@@ -1014,6 +5163,10 @@ export class GaussianSplatControl implements IControl {
     label.style.cssText = 'flex: 1; overflow: hidden; text-overflow: ellipsis; white-space: nowrap;';
     item.appendChild(label);
 
+    for (const action of actions) {
+      item.appendChild(action);
+    }
+
     const removeBtn = document.createElement('button');
     removeBtn.innerHTML = '×';
     removeBtn.title = 'Remove';
@@ -1030,13 +5183,4 @@ export class GaussianSplatControl implements IControl {
 
     return item;
   }
-
-  private _getFilename(url: string): string {
-    try {
-      const path = new URL(url).pathname;
-      return path.split('/').pop() || url;
-    } catch {
-      return url.split('/').pop() || url;
-    }
-  }
 }
@@ -0,0 +1,131 @@
+import type { GeoJSONSource, Map as MapLibreMap, MapLayerMouseEvent } from 'maplibre-gl';
+
+/**
+ * ID of the GeoJSON source holding the proxy features. Its style layers use it as a prefix.
+ */
+export const PROXY_SOURCE_ID = 'maplibre-gl-splat-proxies';
+
+const MARKER_LAYER_ID = `${PROXY_SOURCE_ID}-marker`;
+const FOOTPRINT_FILL_LAYER_ID = `${PROXY_SOURCE_ID}-footprint-fill`;
+const FOOTPRINT_LINE_LAYER_ID = `${PROXY_SOURCE_ID}-footprint-line`;
+
+/**
+ * Style layers that can be clicked to select a proxied layer.
+ */
+const CLICKABLE_LAYER_IDS = [MARKER_LAYER_ID, FOOTPRINT_FILL_LAYER_ID];
+
+/**
+ * Options for the LayerProxies.
+ */
+export interface LayerProxiesOptions {
+  /** Called with the splat or model layer ID when its proxy is clicked. */
+  onClick: (layerId: string) => void;
+}
+
+/**
+ * 2D stand-ins for 3D layers, drawn by MapLibre from a GeoJSON source the control owns.
+ *
+ * Points are drawn as circle markers and polygons as outlined footprints. Each feature
+ * carries the ID of the layer it stands for in its `layerId` property. The source and
+ * its style layers are added again when the map style changes.
+ */
+export class LayerProxies {
+  private _map: MapLibreMap;
+  private _options: LayerProxiesOptions;
+  private _data: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features: [] };
+  private _serialized = '';
+  private _onStyleData = () => this._addToStyle();
+  private _onClick = (e: MapLayerMouseEvent) => {
+    const layerId = e.features?.[0]?.properties?.layerId;
+    if (typeof layerId === 'string') this._options.onClick(layerId);
+  };
+  private _onMouseEnter = () => {
+    this._map.getCanvas().style.cursor = 'pointer';
+  };
+  private _onMouseLeave = () => {
+    this._map.getCanvas().style.cursor = '';
+  };
+
+  constructor(map: MapLibreMap, options: LayerProxiesOptions) {
+    this._map = map;
+    this._options = options;
+    map.on('styledata', this._onStyleData);
+    for (const id of CLICKABLE_LAYER_IDS) {
+      map.on('click', id, this._onClick);
+      map.on('mouseenter', id, this._onMouseEnter);
+      map.on('mouseleave', id, this._onMouseLeave);
+    }
+    this._addToStyle();
+  }
+
+  /**
+   * Replace the proxy features. Unchanged features are not sent to MapLibre again.
+   */
+  setFeatures(features: GeoJSON.Feature[]): void {
+    const data: GeoJSON.FeatureCollection = { type: 'FeatureCollection', features };
+    const serialized = JSON.stringify(data);
+    if (serialized === this._serialized) return;
+    this._data = data;
+    this._serialized = serialized;
+    const source = this._map.getSource(PROXY_SOURCE_ID) as GeoJSONSource | undefined;
+    if (source) {
+      source.setData(data);
+    } else {
+      this._addToStyle();
+    }
+  }
+
+  /**
+   * Remove the proxies and their source from the map.
+   */
+  destroy(): void {
+    const map = this._map;
+    map.off('styledata', this._onStyleData);
+    for (const id of CLICKABLE_LAYER_IDS) {
+      map.off('click', id, this._onClick);
+      map.off('mouseenter', id, this._onMouseEnter);
+      map.off('mouseleave', id, this._onMouseLeave);
+    }
+    for (const id of [MARKER_LAYER_ID, FOOTPRINT_LINE_LAYER_ID, FOOTPRINT_FILL_LAYER_ID]) {
+      if (map.getLayer(id)) map.removeLayer(id);
+    }
+    if (map.getSource(PROXY_SOURCE_ID)) map.removeSource(PROXY_SOURCE_ID);
+  }
+
+  private _addToStyle(): void {
+    const map = this._map;
+    if (map.getSource(PROXY_SOURCE_ID)) return;
+    try {
+      map.addSource(PROXY_SOURCE_ID, { type: 'geojson', data: this._data });
+    } catch {
+      // The style is still loading; added on its next 'styledata' event
+      return;
+    }
+    map.addLayer({
+      id: FOOTPRINT_FILL_LAYER_ID,
+      type: 'fill',
+      source: PROXY_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'fill-color': '#0078d7', 'fill-opacity': 0.25 },
+    });
+    map.addLayer({
+      id: FOOTPRINT_LINE_LAYER_ID,
+      type: 'line',
+      source: PROXY_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'Polygon'],
+      paint: { 'line-color': '#0078d7', 'line-width': 2 },
+    });
+    map.addLayer({
+      id: MARKER_LAYER_ID,
+      type: 'circle',
+      source: PROXY_SOURCE_ID,
+      filter: ['==', ['geometry-type'], 'Point'],
+      paint: {
+        'circle-color': '#0078d7',
+        'circle-radius': 7,
+        'circle-stroke-color': '#ffffff',
+        'circle-stroke-width': 2,
+      },
+    });
+  }
+}
@@ -0,0 +1,167 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import * as THREE from 'three';
+// eslint-disable-next-line @typescript-eslint/ban-ts-comment
+// @ts-ignore - MTP types not fully typed
+import * as MTP from '@dvt3d/maplibre-three-plugin';
+import { flipEastNorth, lngLatAltToEnu, type Vec3 } from '../utils/georeference';
+import { worldToScreen } from '../utils/projection';
+import type { MeasurementMode } from './types';
+
+const LINE_COLOR = 0xffc107;
+
+/**
+ * A measurement to draw: its picked points as [lng, lat, alt] and the text of its label.
+ */
+export interface MeasurementDrawing {
+  mode: MeasurementMode;
+  points: Vec3[];
+  /** Shown at the middle of the measurement; null for none. */
+  label: string | null;
+}
+
+/**
+ * Internal state of a drawn measurement.
+ */
+interface DrawnMeasurement {
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  rtcGroup: any;
+  /** Label position in the RTC group's coordinates. */
+  labelAnchor: THREE.Vector3 | null;
+  label: HTMLElement | null;
+}
+
+/**
+ * Measurement lines in the 3D scene, with HTML labels over the map.
+ *
+ * Each measurement is drawn in its own RTC group anchored at its first point. Lines and
+ * points are drawn over the splats and models they were picked on, so they stay visible.
+ * Heights are drawn as a vertical leg from the lower point and a level leg to the upper one.
+ */
+export class MeasurementOverlay {
+  private _map: MapLibreMap;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _mapScene: any;
+  private _drawn: DrawnMeasurement[] = [];
+  private _onPostRender = () => this.update();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(map: MapLibreMap, mapScene: any) {
+    this._map = map;
+    this._mapScene = mapScene;
+    mapScene.on('postRender', this._onPostRender);
+  }
+
+  /**
+   * Replace the drawn measurements.
+   */
+  setMeasurements(measurements: MeasurementDrawing[]): void {
+    this._clear();
+    this._drawn = measurements.filter((m) => m.points.length > 0).map((m) => this._draw(m));
+    this._map.triggerRepaint();
+  }
+
+  /**
+   * Move the labels to their anchors as seen by the current camera.
+   */
+  update(): void {
+    const camera = this._mapScene.camera;
+    if (!camera) return;
+    const canvas = this._map.getCanvas();
+    for (const { rtcGroup, labelAnchor, label } of this._drawn) {
+      if (!label || !labelAnchor) continue;
+      rtcGroup.updateWorldMatrix(true, false);
+      const world = labelAnchor.clone().applyMatrix4(rtcGroup.matrixWorld);
+      const screen = worldToScreen(world, camera, canvas.clientWidth, canvas.clientHeight);
+      label.style.display = screen ? '' : 'none';
+      if (screen) label.style.transform = `translate(${screen.x}px, ${screen.y}px) translate(-50%, -50%)`;
+    }
+  }
+
+  /**
+   * Remove the drawn measurements and stop following the camera.
+   */
+  destroy(): void {
+    this._clear();
+    this._mapScene.off('postRender', this._onPostRender);
+  }
+
+  private _clear(): void {
+    for (const { rtcGroup, label } of this._drawn) {
+      this._mapScene.removeObject(rtcGroup);
+      rtcGroup.traverse((child: THREE.Object3D) => {
+        const object = child as THREE.Line;
+        object.geometry?.dispose();
+        (object.material as THREE.Material | undefined)?.dispose();
+      });
+      label?.remove();
+    }
+    this._drawn = [];
+  }
+
+  private _draw(measurement: MeasurementDrawing): DrawnMeasurement {
+    const [origin] = measurement.points;
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const rtcGroup = (MTP.Creator as any).createMercatorRTCGroup(origin, [0, 0, 0], 1);
+    // eslint-disable-next-line @typescript-eslint/no-explicit-any
+    const unitsPerMeter = (MTP.SceneTransform as any).projectedUnitsPerMeter(origin[1]);
+    const toLocal = (point: Vec3) => {
+      const [east, north, up] = lngLatAltToEnu([origin[0], origin[1]], point);
+      return new THREE.Vector3(...flipEastNorth([east, north, up - origin[2]])).multiplyScalar(unitsPerMeter);
+    };
+    const points = measurement.points.map(toLocal);
+
+    const segments: THREE.Vector3[] = [];
+    let labelAnchor: THREE.Vector3 | null = null;
+    if (measurement.mode === 'height' && points.length === 2) {
+      const [low, high] = points[0].z <= points[1].z ? points : [points[1], points[0]];
+      const corner = new THREE.Vector3(low.x, low.y, high.z);
+      segments.push(low, corner, corner, high);
+      labelAnchor = low.clone().add(corner).multiplyScalar(0.5);
+    } else {
+      for (let i = 1; i < points.length; i++) segments.push(points[i - 1], points[i]);
+      if (measurement.mode === 'area' && points.length > 2) segments.push(points[points.length - 1], points[0]);
+      if (measurement.mode === 'area') {
+        labelAnchor = points.reduce((sum, p) => sum.add(p), new THREE.Vector3()).divideScalar(points.length);
+      } else if (points.length > 1) {
+        labelAnchor = points[points.length - 2].clone().add(points[points.length - 1]).multiplyScalar(0.5);
+      }
+    }
+
+    if (segments.length > 0) {
+      const lines = new THREE.LineSegments(
+        new THREE.BufferGeometry().setFromPoints(segments),
+        new THREE.LineBasicMaterial({ color: LINE_COLOR, depthTest: false, transparent: true })
+      );
+      lines.renderOrder = 1000;
+      rtcGroup.add(lines);
+    }
+    const vertices = new THREE.Points(
+      new THREE.BufferGeometry().setFromPoints(points),
+      new THREE.PointsMaterial({ color: LINE_COLOR, size: 6, sizeAttenuation: false, depthTest: false })
+    );
+    vertices.renderOrder = 1000;
+    rtcGroup.add(vertices);
+    this._mapScene.addObject(rtcGroup);
+
+    let label: HTMLElement | null = null;
+    if (measurement.label && labelAnchor) {
+      label = document.createElement('div');
+      label.className = 'maplibre-gl-splat-measure-label';
+      label.textContent = measurement.label;
+      label.style.cssText = `
+        position: absolute;
+        top: 0;
+        left: 0;
+        padding: 2px 6px;
+        border-radius: 3px;
+        background: rgba(0, 0, 0, 0.75);
+        color: white;
+        font: 11px/1.4 sans-serif;
+        white-space: nowrap;
+        pointer-events: none;
+      `;
+      this._map.getCanvasContainer().appendChild(label);
+    }
+    return { rtcGroup, labelAnchor, label };
+  }
+}
@@ -0,0 +1,242 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import * as THREE from 'three';
+import { RGBELoader } from 'three/addons/loaders/RGBELoader.js';
+import { skyDirection, sunPosition } from '../utils/sun';
+import type { DirectionalLightOptions, LightingOptions, SunLightOptions } from './types';
+
+const SHADOW_MAP_SIZE = 2048;
+
+/**
+ * Lighting of a new control: the flat white light models have always been drawn with.
+ */
+export const DEFAULT_LIGHTING: Required<LightingOptions> = {
+  ambient: { color: 0xffffff, intensity: 1 },
+  hemisphere: { skyColor: 0xffffff, groundColor: 0xffffff, intensity: 0 },
+  directional: [{ color: 0xffffff, intensity: 0.5, azimuth: 0, elevation: 0 }],
+  sun: null,
+  environment: null,
+  environmentIntensity: 1,
+  shadows: false,
+};
+
+/**
+ * Apply lighting options on top of the current lighting. Ambient and hemisphere settings
+ * left out keep their values; the other options are replaced whole.
+ */
+export function mergeLighting(current: Required<LightingOptions>, options: LightingOptions): Required<LightingOptions> {
+  const defined = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined));
+  return {
+    ...current,
+    ...defined,
+    ambient: { ...current.ambient, ...options.ambient },
+    hemisphere: { ...current.hemisphere, ...options.hemisphere },
+  };
+}
+
+/**
+ * Options for the SceneLighting.
+ */
+export interface SceneLightingOptions {
+  /** Objects drawn with shadows, which the shadow cameras are fitted around each frame. */
+  getShadowCasters: () => THREE.Object3D[];
+}
+
+/**
+ * A directional light added to the scene, from fixed angles or from the sun.
+ */
+interface PlacedLight {
+  light: THREE.DirectionalLight;
+  options: DirectionalLightOptions | SunLightOptions;
+  sun: boolean;
+}
+
+/**
+ * Lights of the map scene, with the sun placed from a date and location and an optional
+ * environment map for reflections on PBR materials.
+ *
+ * The scene's lights group has east = +x, north = +y and up = +z, with the map center at
+ * the origin. Directional lights shine at the origin, or at the shadow casters while
+ * shadows are drawn, so their shadow cameras cover them tightly.
+ */
+export class SceneLighting {
+  private _map: MapLibreMap;
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  private _mapScene: any;
+  private _options: SceneLightingOptions;
+  private _lighting: Required<LightingOptions> = DEFAULT_LIGHTING;
+  private _ambient = new THREE.AmbientLight();
+  private _hemisphere = new THREE.HemisphereLight();
+  private _placed: PlacedLight[] = [];
+  /** Equirectangular map waiting to be prefiltered while the scene renders. */
+  private _pendingEnvironment: THREE.Texture | null = null;
+  private _environment: THREE.Texture | null = null;
+  private _onPreRender = () => this.update();
+
+  // eslint-disable-next-line @typescript-eslint/no-explicit-any
+  constructor(map: MapLibreMap, mapScene: any, options: SceneLightingOptions) {
+    this._map = map;
+    this._mapScene = mapScene;
+    this._options = options;
+    this._hemisphere.position.set(0, 0, 1);
+    mapScene.addLight(this._ambient);
+    mapScene.addLight(this._hemisphere);
+    mapScene.on('preRender', this._onPreRender);
+  }
+
+  /**
+   * Replace the lights and shadow settings. The environment map is set with `setEnvironment`.
+   */
+  setLighting(lighting: Required<LightingOptions>): void {
+    this._lighting = lighting;
+    const { ambient, hemisphere, directional, sun, shadows } = lighting;
+    this._ambient.color.set(ambient.color ?? 0xffffff);
+    this._ambient.intensity = ambient.intensity ?? 1;
+    this._hemisphere.color.set(hemisphere.skyColor ?? 0xffffff);
+    this._hemisphere.groundColor.set(hemisphere.groundColor ?? 0xffffff);
+    this._hemisphere.intensity = hemisphere.intensity ?? 0;
+
+    this._removePlacedLights();
+    const place = (options: DirectionalLightOptions | SunLightOptions, isSun: boolean, castShadow: boolean) => {
+      const light = new THREE.DirectionalLight(options.color ?? 0xffffff, options.intensity ?? 1);
+      light.castShadow = shadows && castShadow;
+      light.shadow.mapSize.set(SHADOW_MAP_SIZE, SHADOW_MAP_SIZE);
+      light.shadow.bias = -0.0005;
+      this._mapScene.addLight(light);
+      // The target is in the lights group so its world matrix follows it
+      this._mapScene.addLight(light.target);
+      this._placed.push({ light, options, sun: isSun });
+    };
+    for (const options of directional) place(options, false, options.castShadow ?? false);
+    if (sun) place(sun, true, sun.castShadow ?? true);
+
+    const renderer = this._mapScene.renderer;
+    if (renderer?.shadowMap) {
+      renderer.shadowMap.enabled = shadows;
+      renderer.shadowMap.type = THREE.PCFSoftShadowMap;
+    }
+    this.update();
+  }
+
+  /**
+   * Read an equirectangular environment map, Radiance HDR or an image format the browser
+   * decodes. Resolves with a texture for `setEnvironment`.
+   */
+  async loadEnvironment(data: ArrayBuffer): Promise<THREE.Texture> {
+    const header = new TextDecoder().decode(new Uint8Array(data, 0, Math.min(data.byteLength, 2)));
+    const url = URL.createObjectURL(new Blob([data]));
+    try {
+      const loader = header === '#?' ? new RGBELoader() : new THREE.TextureLoader();
+      const texture = await loader.loadAsync(url);
+      texture.mapping = THREE.EquirectangularReflectionMapping;
+      if (header !== '#?') texture.colorSpace = THREE.SRGBColorSpace;
+      return texture;
+    } finally {
+      URL.revokeObjectURL(url);
+    }
+  }
+
+  /**
+   * Light PBR materials with an environment map from `loadEnvironment`, or stop with null.
+   * Takes ownership of the texture.
+   */
+  setEnvironment(texture: THREE.Texture | null): void {
+    this._pendingEnvironment?.dispose();
+    this._pendingEnvironment = texture;
+    if (!texture) this._setSceneEnvironment(null);
+    this._map.triggerRepaint();
+  }
+
+  /**
+   * Place the sun and fit the shadow cameras for the frame about to be drawn.
+   */
+  update(): void {
+    const scene = this._mapScene.scene as THREE.Scene | undefined;
+    if (scene) scene.environmentIntensity = this._lighting.environmentIntensity;
+    // Prefiltering renders with the map's context, which is only ours while the scene renders
+    if (this._pendingEnvironment && this._mapScene.renderer) {
+      const generator = new THREE.PMREMGenerator(this._mapScene.renderer);
+      const environment = generator.fromEquirectangular(this._pendingEnvironment).texture;
+      generator.dispose();
+      this._pendingEnvironment.dispose();
+      this._pendingEnvironment = null;
+      this._setSceneEnvironment(environment);
+    }
+
+    const focus = this._shadowFocus();
+    for (const { light, options, sun } of this._placed) {
+      let { azimuth = 0, elevation = 90 } = options as DirectionalLightOptions;
+      if (sun) {
+        const { date, longitude, latitude } = options as SunLightOptions;
+        const center = this._map.getCenter();
+        const position = sunPosition(
+          date === undefined ? new Date() : new Date(date),
+          longitude ?? center.lng,
+          latitude ?? center.lat
+        );
+        ({ azimuth, elevation } = position);
+        // Nothing is lit by the sun once it has set
+        light.intensity = elevation > 0 ? (options.intensity ?? 1) : 0;
+      }
+      const direction = new THREE.Vector3(...skyDirection(azimuth, elevation));
+      if (!focus || !light.castShadow) {
+        light.position.copy(direction);
+        light.target.position.set(0, 0, 0);
+        continue;
+      }
+      // Look at the casters from twice their radius away, with a box just enclosing them
+      const { center, radius } = focus;
+      light.position.copy(center).addScaledVector(direction, 2 * radius);
+      light.target.position.copy(center);
+      const camera = light.shadow.camera;
+      camera.left = camera.bottom = -radius;
+      camera.right = camera.top = radius;
+      camera.near = radius / 2;
+      camera.far = 3.5 * radius;
+      camera.updateProjectionMatrix();
+    }
+  }
+
+  /**
+   * Remove the lights and environment map from the scene.
+   */
+  destroy(): void {
+    this._mapScene.off('preRender', this._onPreRender);
+    this._removePlacedLights();
+    this._mapScene.removeLight(this._ambient);
+    this._mapScene.removeLight(this._hemisphere);
+    this._pendingEnvironment?.dispose();
+    this._pendingEnvironment = null;
+    this._setSceneEnvironment(null);
+  }
+
+  private _removePlacedLights(): void {
+    for (const { light } of this._placed) {
+      this._mapScene.removeLight(light);
+      this._mapScene.removeLight(light.target);
+      light.dispose();
+    }
+    this._placed = [];
+  }
+
+  private _setSceneEnvironment(texture: THREE.Texture | null): void {
+    this._environment?.dispose();
+    this._environment = texture;
+    if (this._mapScene.scene) this._mapScene.scene.environment = texture;
+  }
+
+  /**
+   * Bounding sphere of the shadow casters in scene coordinates, or null when no shadows are drawn.
+   */
+  private _shadowFocus(): THREE.Sphere | null {
+    if (!this._lighting.shadows) return null;
+    const casters = this._options.getShadowCasters();
+    if (casters.length === 0) return null;
+    // The world group is moved with the map camera, which updates its matrix but not its world matrix
+    this._mapScene.world?.updateMatrixWorld();
+    const bounds = new THREE.Box3();
+    for (const caster of casters) bounds.expandByObject(caster);
+    if (bounds.isEmpty()) return null;
+    const sphere = bounds.getBoundingSphere(new THREE.Sphere());
+    return sphere.radius > 0 ? sphere : null;
+  }
+}
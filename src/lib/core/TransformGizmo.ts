@@ -0,0 +1,253 @@
+import type { Map as MapLibreMap } from 'maplibre-gl';
+import * as THREE from 'three';
+import type { LayerTransform } from './types';
+
+/**
+ * Radius of the heading ring in pixels.
+ */
+const RING_RADIUS = 64;
+
+/**
+ * Earth circumference in meters, used for the meters-per-pixel estimate.
+ */
+const EARTH_CIRCUMFERENCE = 40075016.686;
+
+type DragMode = 'move' | 'altitude' | 'rotate' | 'scale';
+
+/**
+ * Options for the TransformGizmo.
+ */
+export interface TransformGizmoOptions {
+  /** Read the current placement of the edited layer. */
+  getTransform: () => LayerTransform | null;
+  /** Screen position of the layer origin at its resolved altitude, or null while it is behind the camera. */
+  projectOrigin: () => { x: number; y: number } | null;
+  /** Apply a new placement while a handle is dragged. */
+  onChange: (transform: Partial<LayerTransform>) => void;
+  /** Called once when a drag ends, with the final placement. */
+  onCommit?: (transform: LayerTransform) => void;
+}
+
+/**
+ * Internal state of an active drag.
+ */
+interface DragState {
+  mode: DragMode;
+  pointerId: number;
+  start: LayerTransform;
+  startPoint: { x: number; y: number };
+  /** Layer origin on screen at drag start, which rotating and scaling turn about. */
+  origin: { x: number; y: number };
+  /** Pointer angle (rotate) or distance (scale) from the origin at drag start. */
+  startValue: number;
+}
+
+/**
+ * Rotate an Euler XYZ rotation (degrees) about the vertical axis of the map.
+ * Positive deltas turn the layer clockwise when seen from above, like a compass heading.
+ */
+export function rotateAboutVertical(rotation: [number, number, number], deltaDegrees: number): [number, number, number] {
+  const euler = new THREE.Euler(
+    THREE.MathUtils.degToRad(rotation[0]),
+    THREE.MathUtils.degToRad(rotation[1]),
+    THREE.MathUtils.degToRad(rotation[2]),
+    'XYZ'
+  );
+  // The RTC group's parent frame is a half turn about z from east/north/up (see
+  // flipEastNorth), so a clockwise heading change is still a negative rotation about z
+  const turn = new THREE.Quaternion().setFromAxisAngle(
+    new THREE.Vector3(0, 0, 1),
+    -THREE.MathUtils.degToRad(deltaDegrees)
+  );
+  const result = new THREE.Euler().setFromQuaternion(turn.multiply(new THREE.Quaternion().setFromEuler(euler)), 'XYZ');
+  return [
+    THREE.MathUtils.radToDeg(result.x),
+    THREE.MathUtils.radToDeg(result.y),
+    THREE.MathUtils.radToDeg(result.z),
+  ];
+}
+
+/**
+ * On-map handles for moving, raising, rotating and scaling a layer.
+ *
+ * The handles are HTML elements over the map canvas, anchored at the layer origin:
+ * drag the center to move in longitude/latitude, the arrow to change altitude,
+ * the ring to change heading and the square to scale uniformly. The arrow is hidden
+ * for layers clamped to the ground. Map drag-panning is suspended while a handle is held.
+ */
+export class TransformGizmo {
+  private _map: MapLibreMap;
+  private _options: TransformGizmoOptions;
+  private _container: HTMLElement;
+  private _altitudeHandle?: HTMLElement;
+  private _drag?: DragState;
+  private _dragPanWasEnabled = false;
+  private _onMapMove = () => this.update();
+
+  constructor(map: MapLibreMap, options: TransformGizmoOptions) {
+    this._map = map;
+    this._options = options;
+    this._container = this._createElements();
+    map.getCanvasContainer().appendChild(this._container);
+    map.on('move', this._onMapMove);
+    this.update();
+  }
+
+  /**
+   * Reposition the handles over the layer origin.
+   */
+  update(): void {
+    const transform = this._options.getTransform();
+    if (!transform) return;
+    if (this._altitudeHandle) {
+      this._altitudeHandle.style.display = transform.altitudeMode === 'clampToGround' ? 'none' : '';
+    }
+    const point = this._options.projectOrigin();
+    this._container.style.display = point ? '' : 'none';
+    if (point) this._container.style.transform = `translate(${point.x}px, ${point.y}px)`;
+  }
+
+  /**
+   * Remove the handles and restore map interaction.
+   */
+  destroy(): void {
+    this._endDrag();
+    this._map.off('move', this._onMapMove);
+    this._container.remove();
+  }
+
+  private _createElements(): HTMLElement {
+    const container = document.createElement('div');
+    container.className = 'maplibre-gl-splat-gizmo';
+
+    const size = RING_RADIUS * 2 + 16;
+    const svgNs = 'http://www.w3.org/2000/svg';
+    const svg = document.createElementNS(svgNs, 'svg');
+    svg.setAttribute('width', String(size));
+    svg.setAttribute('height', String(size));
+    svg.setAttribute('class', 'maplibre-gl-splat-gizmo-ring');
+    svg.style.left = `${-size / 2}px`;
+    svg.style.top = `${-size / 2}px`;
+    const ring = document.createElementNS(svgNs, 'circle');
+    ring.setAttribute('cx', String(size / 2));
+    ring.setAttribute('cy', String(size / 2));
+    ring.setAttribute('r', String(RING_RADIUS));
+    svg.appendChild(ring);
+    const title = document.createElementNS(svgNs, 'title');
+    title.textContent = 'Drag to rotate';
+    ring.appendChild(title);
+    ring.addEventListener('pointerdown', (e) => this._startDrag('rotate', e));
+    container.appendChild(svg);
+
+    const handles: Array<[DragMode, string, string, number, number]> = [
+      ['move', 'maplibre-gl-splat-gizmo-move', 'Drag to move', 0, 0],
+      ['altitude', 'maplibre-gl-splat-gizmo-altitude', 'Drag up or down to change altitude', 0, -RING_RADIUS / 2],
+      ['scale', 'maplibre-gl-splat-gizmo-scale', 'Drag to scale', RING_RADIUS, 0],
+    ];
+    for (const [mode, className, label, x, y] of handles) {
+      const handle = document.createElement('div');
+      handle.className = `maplibre-gl-splat-gizmo-handle ${className}`;
+      handle.title = label;
+      handle.style.left = `${x}px`;
+      handle.style.top = `${y}px`;
+      if (mode === 'altitude') {
+        handle.textContent = '↕';
+        this._altitudeHandle = handle;
+      }
+      handle.addEventListener('pointerdown', (e) => this._startDrag(mode, e));
+      container.appendChild(handle);
+    }
+
+    return container;
+  }
+
+  private _startDrag(mode: DragMode, e: PointerEvent): void {
+    const start = this._options.getTransform();
+    if (!start || this._drag) return;
+    if (mode === 'altitude' && start.altitudeMode === 'clampToGround') return;
+    const origin = this._options.projectOrigin();
+    if (!origin) return;
+    e.preventDefault();
+    e.stopPropagation();
+
+    const point = this._getPoint(e);
+    const dx = point.x - origin.x;
+    const dy = point.y - origin.y;
+    this._drag = {
+      mode,
+      pointerId: e.pointerId,
+      start,
+      startPoint: point,
+      origin,
+      startValue: mode === 'rotate' ? Math.atan2(dy, dx) : Math.max(Math.hypot(dx, dy), 1),
+    };
+
+    // Suspend map panning while a handle is held
+    this._dragPanWasEnabled = this._map.dragPan.isEnabled();
+    this._map.dragPan.disable();
+    this._container.classList.add('active');
+
+    window.addEventListener('pointermove', this._onPointerMove);
+    window.addEventListener('pointerup', this._onPointerUp);
+    window.addEventListener('pointercancel', this._onPointerUp);
+  }
+
+  private _onPointerMove = (e: PointerEvent): void => {
+    const drag = this._drag;
+    if (!drag || e.pointerId !== drag.pointerId) return;
+    const point = this._getPoint(e);
+    const { start } = drag;
+
+    if (drag.mode === 'move') {
+      // Move by how far the pointer went on the ground, as a raised origin is not over its own ground point
+      const from = this._map.unproject([drag.startPoint.x, drag.startPoint.y]);
+      const to = this._map.unproject([point.x, point.y]);
+      this._options.onChange({
+        longitude: start.longitude + to.lng - from.lng,
+        latitude: start.latitude + to.lat - from.lat,
+      });
+    } else if (drag.mode === 'altitude') {
+      const metersPerPixel =
+        (EARTH_CIRCUMFERENCE * Math.cos(THREE.MathUtils.degToRad(start.latitude))) / (512 * 2 ** this._map.getZoom());
+      this._options.onChange({ altitude: start.altitude + (drag.startPoint.y - point.y) * metersPerPixel });
+    } else {
+      const dx = point.x - drag.origin.x;
+      const dy = point.y - drag.origin.y;
+      if (drag.mode === 'rotate') {
+        const delta = THREE.MathUtils.radToDeg(Math.atan2(dy, dx) - drag.startValue);
+        if (start.orientation) {
+          const heading = (((start.orientation.heading + delta) % 360) + 360) % 360;
+          this._options.onChange({ orientation: { ...start.orientation, heading } });
+        } else {
+          this._options.onChange({ rotation: rotateAboutVertical(start.rotation, delta) });
+        }
+      } else {
+        const factor = Math.max(Math.hypot(dx, dy), 1) / drag.startValue;
+        this._options.onChange({ scale: start.scale * factor });
+      }
+    }
+    this.update();
+  };
+
+  private _onPointerUp = (e: PointerEvent): void => {
+    if (!this._drag || e.pointerId !== this._drag.pointerId) return;
+    this._endDrag();
+    const transform = this._options.getTransform();
+    if (transform) this._options.onCommit?.(transform);
+  };
+
+  private _endDrag(): void {
+    if (!this._drag) return;
+    this._drag = undefined;
+    window.removeEventListener('pointermove', this._onPointerMove);
+    window.removeEventListener('pointerup', this._onPointerUp);
+    window.removeEventListener('pointercancel', this._onPointerUp);
+    this._container.classList.remove('active');
+    if (this._dragPanWasEnabled) this._map.dragPan.enable();
+  }
+
+  private _getPoint(e: PointerEvent): { x: number; y: number } {
+    const rect = this._map.getCanvasContainer().getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  }
+}
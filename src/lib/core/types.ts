@@ -1,7 +1,49 @@
 // Re-export all types from GaussianSplatControl
 export type {
+  AltitudeMode,
+  Annotation,
+  AnnotationOptions,
+  AssetFormat,
+  AssetRequestKind,
+  AssetRequestParameters,
+  AssetSource,
+  AssetTransformRequestFunction,
+  CaptureCamera,
+  ColorAdjustments,
+  CompareOptions,
+  CompareOrientation,
+  ControlPoint,
+  CropBox,
+  CropPolygon,
+  DirectionalLightOptions,
   GaussianSplatControlOptions,
+  GaussianSplatLoadOptions,
+  GeoreferenceSolution,
+  LayerBounds,
+  LayerCompare,
+  LayerCrop,
+  LayerMemoryStats,
+  LayerOrientation,
+  LayerOrigin,
+  LayerPick,
+  LayerProxy,
+  LayerTransform,
+  LightingOptions,
+  Measurement,
+  MeasurementMode,
+  MeasurementUnits,
+  MemoryStats,
+  ModelAnimation,
+  ModelAnimationOptions,
+  SplatLayerStats,
+  SplatSequenceFrame,
+  SplatSequenceOptions,
+  SplatSequenceState,
+  SplatStats,
+  SunLightOptions,
   GaussianSplatControlState,
   GaussianSplatEvent,
   GaussianSplatEventHandler,
+  UpAxis,
+  ZoomToLayerOptions,
 } from './GaussianSplatControl';
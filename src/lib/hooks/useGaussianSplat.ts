@@ -5,16 +5,20 @@ const DEFAULT_STATE: GaussianSplatControlState = {
   collapsed: true,
   url: '',
   loading: false,
+  progress: null,
   error: null,
   status: null,
   hasLayer: false,
   layerCount: 0,
   opacity: 1,
+  layerOpacity: {},
   rotation: [-90, 90, 0],
+  orientation: null,
   scale: 1,
   longitude: 0,
   latitude: 0,
   altitude: 0,
+  altitudeMode: 'absolute',
 };
 
 /**
@@ -0,0 +1,186 @@
+import type { AssetFormat, AssetSource } from '../core/types';
+
+/**
+ * Gaussian splat formats, in the order they are listed in the UI.
+ */
+export const SPLAT_FORMATS: AssetFormat[] = ['splat', 'ply', 'spz', 'ksplat', 'sog'];
+
+/**
+ * GLTF/GLB model formats.
+ */
+export const MODEL_FORMATS: AssetFormat[] = ['gltf', 'glb'];
+
+/**
+ * Value for the `accept` attribute of the file picker.
+ */
+export const ASSET_FILE_ACCEPT = [...SPLAT_FORMATS, ...MODEL_FORMATS].map((ext) => `.${ext}`).join(',');
+
+/**
+ * Check whether a format is a GLTF/GLB model format.
+ */
+export function isModelFormat(format: AssetFormat | null | undefined): boolean {
+  return !!format && MODEL_FORMATS.includes(format);
+}
+
+/**
+ * Get the last path segment of a URL, or the URL itself if it has none.
+ */
+export function getFilename(url: string): string {
+  try {
+    const path = new URL(url).pathname;
+    return path.split('/').pop() || url;
+  } catch {
+    return url.split('/').pop() || url;
+  }
+}
+
+/**
+ * Get a display name for an asset source.
+ * Returns an empty string for anonymous Blobs and ArrayBuffers.
+ */
+export function getSourceName(source: AssetSource): string {
+  if (typeof source === 'string') return getFilename(source);
+  if (typeof File !== 'undefined' && source instanceof File) return source.name;
+  return '';
+}
+
+/**
+ * Infer the asset format from a URL or file name extension.
+ */
+export function getFormatFromName(name: string): AssetFormat | null {
+  if (!name) return null;
+  const pathname = new URL(name, 'http://dummy').pathname;
+  const ext = pathname.split('.').pop()?.toLowerCase() || '';
+  const formats: string[] = [...SPLAT_FORMATS, ...MODEL_FORMATS];
+  return formats.includes(ext) ? (ext as AssetFormat) : null;
+}
+
+/**
+ * Read the bytes of an in-memory asset source.
+ */
+export async function readSourceBytes(source: Blob | ArrayBuffer): Promise<ArrayBuffer> {
+  if (source instanceof ArrayBuffer) return source;
+  return source.arrayBuffer();
+}
+
+/**
+ * Map an asset format to the file type name used by Spark's SplatMesh.
+ */
+export function toSplatFileType(format: AssetFormat | null | undefined): string | undefined {
+  if (!format || isModelFormat(format)) return undefined;
+  return format === 'sog' ? 'pcsogszip' : format;
+}
+
+/**
+ * Content-Type values that identify an asset format.
+ */
+const CONTENT_TYPE_FORMATS: Record<string, AssetFormat> = {
+  'model/gltf-binary': 'glb',
+  'model/gltf+json': 'gltf',
+  'application/ply': 'ply',
+  'model/ply': 'ply',
+  'text/ply': 'ply',
+};
+
+/**
+ * Formats recognized from their leading bytes, in the order they are checked.
+ */
+const MAGIC_FORMATS: AssetFormat[] = ['glb', 'gltf', 'ply', 'spz', 'sog', 'ksplat'];
+
+/**
+ * Detect an asset format from its leading bytes.
+ * `.splat` files have no header and cannot be recognized this way.
+ */
+export function getFormatFromBytes(data: ArrayBuffer): AssetFormat | null {
+  const bytes = new Uint8Array(data);
+  const ascii = (offset: number, length: number) =>
+    String.fromCharCode(...bytes.subarray(offset, offset + length));
+
+  // Binary glTF: "glTF" magic
+  if (ascii(0, 4) === 'glTF') return 'glb';
+
+  // JSON glTF: an object with an "asset" property near the start
+  const head = ascii(0, Math.min(bytes.length, 4096)).trimStart();
+  if (head.startsWith('{') && head.includes('"asset"')) return 'gltf';
+
+  // PLY: "ply" followed by a line break
+  if (/^ply\r?\n/.test(ascii(0, 5))) return 'ply';
+
+  // SPZ: gzip-compressed stream
+  if (bytes[0] === 0x1f && bytes[1] === 0x8b) return 'spz';
+
+  // SOG: zip archive
+  if (ascii(0, 4) === 'PK\x03\x04') return 'sog';
+
+  // KSPLAT: 4096-byte header starting with version 0.x and per-section headers
+  if (bytes.length >= 4096 && bytes[0] === 0 && bytes[1] >= 1) {
+    const view = new DataView(data);
+    const sectionCount = view.getUint32(4, true);
+    const compressionLevel = view.getUint16(20, true);
+    if (sectionCount > 0 && compressionLevel <= 2 && bytes.length >= 4096 + sectionCount * 1024) {
+      return 'ksplat';
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Detect an asset format from a Content-Type header value.
+ */
+export function getFormatFromContentType(contentType: string | null | undefined): AssetFormat | null {
+  if (!contentType) return null;
+  const mime = contentType.split(';')[0].trim().toLowerCase();
+  return CONTENT_TYPE_FORMATS[mime] ?? null;
+}
+
+/**
+ * Infer the format of loaded asset data.
+ * Checks magic bytes first, then the Content-Type, then the file name extension.
+ */
+export function inferAssetFormat(
+  data: ArrayBuffer,
+  hints: { contentType?: string | null; name?: string } = {}
+): AssetFormat | null {
+  return getFormatFromBytes(data) ?? getFormatFromContentType(hints.contentType) ?? getFormatFromName(hints.name ?? '');
+}
+
+/**
+ * Detect the format of loaded asset data, like inferAssetFormat().
+ *
+ * @throws If none of the checks identify the format, listing what was tried.
+ */
+export function detectAssetFormat(
+  data: ArrayBuffer,
+  hints: { contentType?: string | null; name?: string } = {}
+): AssetFormat {
+  const format = inferAssetFormat(data, hints);
+  if (format) return format;
+
+  const tried = [
+    `file signature (${MAGIC_FORMATS.join(', ')})`,
+    `Content-Type (${hints.contentType || 'none'})`,
+    `file extension (${hints.name || 'none'})`,
+  ];
+  throw new Error(
+    `Unable to detect the asset format. Tried ${tried.join(', ')}. Pass the "format" option to load it explicitly.`
+  );
+}
+
+/**
+ * Get the file name from a Content-Disposition header value.
+ */
+export function getFilenameFromContentDisposition(header: string | null | undefined): string | null {
+  if (!header) return null;
+  const encoded = /filename\*\s*=\s*(?:UTF-8'')?([^;]+)/i.exec(header);
+  if (encoded) {
+    try {
+      return decodeURIComponent(encoded[1].trim().replace(/^"|"$/g, ''));
+    } catch {
+      // Fall through to the plain filename parameter
+    }
+  }
+  const plain = /filename\s*=\s*("([^"]*)"|[^;]+)/i.exec(header);
+  if (!plain) return null;
+  return (plain[2] ?? plain[1]).trim() || null;
+}
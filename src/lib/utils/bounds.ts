@@ -0,0 +1,66 @@
+import type { Vec3 } from './georeference';
+
+/**
+ * Axis-aligned bounds as their minimum and maximum corners.
+ */
+export interface Bounds3 {
+  min: Vec3;
+  max: Vec3;
+}
+
+/**
+ * The eight corners of bounds. Bit 0 of the index picks the x extreme, bit 1 y and bit 2 z.
+ */
+export function boundsCorners(bounds: Bounds3): Vec3[] {
+  const corners: Vec3[] = [];
+  for (let corner = 0; corner < 8; corner++) {
+    corners.push([
+      corner & 1 ? bounds.max[0] : bounds.min[0],
+      corner & 2 ? bounds.max[1] : bounds.min[1],
+      corner & 4 ? bounds.max[2] : bounds.min[2],
+    ]);
+  }
+  return corners;
+}
+
+/**
+ * Bounds of a point set without its outliers: per axis, from the `trim` quantile to the
+ * `1 - trim` quantile. Captures often include floaters far from the subject, which would
+ * otherwise dominate the bounds.
+ */
+export function trimmedBounds(points: Vec3[], trim = 0.01): Bounds3 | null {
+  if (!points.length) return null;
+  const low = Math.floor(trim * (points.length - 1));
+  const high = Math.ceil((1 - trim) * (points.length - 1));
+  const min: number[] = [];
+  const max: number[] = [];
+  for (let axis = 0; axis < 3; axis++) {
+    const values = points.map((p) => p[axis]).sort((a, b) => a - b);
+    min.push(values[low]);
+    max.push(values[high]);
+  }
+  return { min: min as Vec3, max: max as Vec3 };
+}
+
+/**
+ * Convex hull of points in a plane (monotone chain), counter-clockwise and without
+ * repeating the first point.
+ */
+export function convexHull(points: [number, number][]): [number, number][] {
+  const sorted = [...points].sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+  if (sorted.length < 3) return sorted;
+  const cross = (o: [number, number], a: [number, number], b: [number, number]) =>
+    (a[0] - o[0]) * (b[1] - o[1]) - (a[1] - o[1]) * (b[0] - o[0]);
+
+  const chain = (ordered: [number, number][]) => {
+    const hull: [number, number][] = [];
+    for (const p of ordered) {
+      while (hull.length >= 2 && cross(hull[hull.length - 2], hull[hull.length - 1], p) <= 0) hull.pop();
+      hull.push(p);
+    }
+    // The last point starts the other chain
+    hull.pop();
+    return hull;
+  };
+  return [...chain(sorted), ...chain(sorted.reverse())];
+}
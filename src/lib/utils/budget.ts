@@ -0,0 +1,52 @@
+/**
+ * A layer competing for the splat budget.
+ */
+export interface BudgetRequest {
+  id: string;
+  /** Splats the layer has. */
+  total: number;
+  /** Share of the budget relative to the other layers, e.g. priority times screen area. */
+  weight: number;
+}
+
+/**
+ * Split a splat budget between layers in proportion to their weights.
+ *
+ * Layers needing less than their share keep all their splats, and what they leave over
+ * is split among the rest, so the budget is used in full whenever the layers need it.
+ *
+ * @returns Splats to render per layer ID.
+ */
+export function allocateSplatBudget(requests: BudgetRequest[], budget: number): Map<string, number> {
+  const allocation = new Map<string, number>();
+  // Settle the layers that need the least of their share first
+  const sorted = [...requests].sort((a, b) => a.total / a.weight - b.total / b.weight);
+  let remaining = Math.max(budget, 0);
+  let remainingWeight = sorted.reduce((sum, r) => sum + r.weight, 0);
+
+  for (const request of sorted) {
+    const share = remainingWeight > 0 ? (remaining * request.weight) / remainingWeight : 0;
+    const count = Math.min(request.total, Math.floor(share));
+    allocation.set(request.id, count);
+    remaining -= count;
+    remainingWeight -= request.weight;
+  }
+  return allocation;
+}
+
+/**
+ * An order of `count` items in which every leading run is spread evenly over all of them:
+ * the indices with their bits reversed, so the first half takes every second item, the
+ * first quarter every fourth, and so on.
+ */
+export function interleavedOrder(count: number): Uint32Array {
+  const order = new Uint32Array(count);
+  const bits = Math.ceil(Math.log2(Math.max(count, 1)));
+  let next = 0;
+  for (let i = 0; next < count; i++) {
+    let reversed = 0;
+    for (let bit = 0; bit < bits; bit++) reversed = (reversed << 1) | ((i >> bit) & 1);
+    if (reversed < count) order[next++] = reversed;
+  }
+  return order;
+}
@@ -0,0 +1,222 @@
+import type { CaptureCamera } from '../core/types';
+import type { Vec3 } from './georeference';
+
+/**
+ * Field of view and aspect ratio drawn for cameras whose intrinsics are unknown.
+ */
+const DEFAULT_FOV = 60;
+const DEFAULT_ASPECT = 4 / 3;
+
+/**
+ * COLMAP camera models whose parameters start with separate x and y focal lengths.
+ * The others start with a single focal length.
+ */
+const COLMAP_FX_FY_MODELS = new Set([
+  'PINHOLE',
+  'OPENCV',
+  'OPENCV_FISHEYE',
+  'FULL_OPENCV',
+  'FOV',
+  'THIN_PRISM_FISHEYE',
+]);
+
+/**
+ * Parse a camera pose file: a nerfstudio `transforms.json`, or a COLMAP `images.txt` with
+ * the matching `cameras.txt` for the fields of view if given. Poses are taken to be in the
+ * coordinates the splat was trained in.
+ */
+export function parseCaptureCameras(text: string, colmapCamerasText?: string): CaptureCamera[] {
+  let json: unknown;
+  try {
+    json = JSON.parse(text);
+  } catch {
+    json = undefined;
+  }
+  const cameras = json === undefined ? parseColmapImages(text, colmapCamerasText) : parseNerfstudioTransforms(json);
+  if (cameras.length === 0) {
+    throw new Error('No camera poses found; expected a nerfstudio transforms.json or a COLMAP images.txt');
+  }
+  return cameras;
+}
+
+/**
+ * Parse the frames of a nerfstudio (or Blender/instant-ngp style) `transforms.json`.
+ * Each `transform_matrix` is camera-to-world with the camera looking down -z and +y up.
+ * Intrinsics may be given per frame or for all frames.
+ */
+export function parseNerfstudioTransforms(json: unknown): CaptureCamera[] {
+  const data = json as Record<string, unknown> | null;
+  if (!data || !Array.isArray(data.frames)) return [];
+
+  return data.frames.flatMap((frame: Record<string, unknown>, index: number): CaptureCamera[] => {
+    const matrix = frame?.transform_matrix as number[][] | undefined;
+    if (!Array.isArray(matrix) || matrix.length < 3) return [];
+    const column = (c: number): Vec3 => [matrix[0][c], matrix[1][c], matrix[2][c]];
+    const intrinsic = (key: string) => {
+      const value = frame[key] ?? data[key];
+      return typeof value === 'number' ? value : undefined;
+    };
+
+    const camera: CaptureCamera = {
+      name: typeof frame.file_path === 'string' ? frame.file_path : `frame ${index}`,
+      position: column(3),
+      forward: normalize(scale(column(2), -1)),
+      up: normalize(column(1)),
+    };
+    const w = intrinsic('w');
+    const h = intrinsic('h');
+    const flY = intrinsic('fl_y') ?? intrinsic('fl_x');
+    const angleX = intrinsic('camera_angle_x');
+    const angleY = intrinsic('camera_angle_y');
+    if (w && h) camera.aspect = w / h;
+    if (flY && h) camera.fov = degrees(2 * Math.atan(h / (2 * flY)));
+    else if (angleY) camera.fov = degrees(angleY);
+    else if (angleX) camera.fov = degrees(w && h ? 2 * Math.atan((Math.tan(angleX / 2) * h) / w) : angleX);
+    return [camera];
+  });
+}
+
+/**
+ * Parse a COLMAP `images.txt`. Each image takes two lines: its world-to-camera pose as
+ * `IMAGE_ID QW QX QY QZ TX TY TZ CAMERA_ID NAME`, then its 2D points, which may be empty.
+ * COLMAP cameras look down +z with +y pointing down the image.
+ */
+export function parseColmapImages(imagesText: string, camerasText?: string): CaptureCamera[] {
+  const intrinsics = camerasText ? parseColmapCameras(camerasText) : new Map<string, CameraIntrinsics>();
+  const lines = imagesText.split(/\r?\n/).filter((line) => !line.startsWith('#'));
+  const cameras: CaptureCamera[] = [];
+
+  for (let i = 0; i < lines.length; i++) {
+    const tokens = lines[i].trim().split(/\s+/);
+    if (tokens.length < 10) continue;
+    const [qw, qx, qy, qz, tx, ty, tz] = tokens.slice(1, 8).map(Number);
+    if (![qw, qx, qy, qz, tx, ty, tz].every(Number.isFinite)) continue;
+
+    const rows = quaternionToRows(qw, qx, qy, qz);
+    // Camera center: -R^T t
+    const position: Vec3 = [0, 1, 2].map((c) => -(rows[0][c] * tx + rows[1][c] * ty + rows[2][c] * tz)) as Vec3;
+    const camera: CaptureCamera = {
+      name: tokens.slice(9).join(' '),
+      position,
+      forward: rows[2],
+      up: scale(rows[1], -1),
+    };
+    const intrinsic = intrinsics.get(tokens[8]);
+    if (intrinsic) Object.assign(camera, intrinsic);
+    cameras.push(camera);
+    // Skip the 2D points line
+    i++;
+  }
+  return cameras;
+}
+
+interface CameraIntrinsics {
+  fov: number;
+  aspect: number;
+}
+
+/**
+ * Read the field of view and aspect ratio of each camera in a COLMAP `cameras.txt`,
+ * given as `CAMERA_ID MODEL WIDTH HEIGHT PARAMS[]`.
+ */
+function parseColmapCameras(text: string): Map<string, CameraIntrinsics> {
+  const intrinsics = new Map<string, CameraIntrinsics>();
+  for (const line of text.split(/\r?\n/)) {
+    const [id, model, ...values] = line.trim().split(/\s+/);
+    if (!id || id.startsWith('#') || values.length < 3) continue;
+    const [width, height, ...params] = values.map(Number);
+    const fy = COLMAP_FX_FY_MODELS.has(model) ? params[1] : params[0];
+    if (!(width > 0 && height > 0 && fy > 0)) continue;
+    intrinsics.set(id, { fov: degrees(2 * Math.atan(height / (2 * fy))), aspect: width / height });
+  }
+  return intrinsics;
+}
+
+/**
+ * Rotation of a camera as MapLibre describes it, from its viewing and up directions as
+ * east/north/up: `bearing` clockwise from north, `pitch` from straight down (0) through
+ * level (90), and `roll` counter-clockwise about the viewing direction, all in degrees.
+ */
+export function viewRotation(forward: Vec3, up: Vec3): { bearing: number; pitch: number; roll: number } {
+  const f = normalize(forward);
+  const pitch = 90 + degrees(Math.asin(Math.max(-1, Math.min(1, f[2]))));
+  const level = Math.hypot(f[0], f[1]);
+  // Looking straight up or down, the top of the image gives the bearing
+  if (level < 1e-9) return { bearing: degrees(Math.atan2(up[0], up[1])), pitch, roll: 0 };
+
+  const bearing = degrees(Math.atan2(f[0], f[1]));
+  // Right and up directions of the same view without roll
+  const levelRight: Vec3 = [f[1] / level, -f[0] / level, 0];
+  const levelUp = cross(levelRight, f);
+  const roll = degrees(Math.atan2(-dot(up, levelRight), dot(up, levelUp)));
+  return { bearing, pitch, roll };
+}
+
+/**
+ * Line segments outlining the view of a camera as a pyramid `depth` units deep, with a
+ * triangle over its top edge showing which way is up. Returned as pairs of end points.
+ */
+export function frustumSegments(camera: CaptureCamera, depth: number): Vec3[] {
+  const halfHeight = depth * Math.tan(((camera.fov ?? DEFAULT_FOV) * Math.PI) / 360);
+  const halfWidth = halfHeight * (camera.aspect ?? DEFAULT_ASPECT);
+  const up = normalize(camera.up);
+  const forward = normalize(camera.forward);
+  const right = normalize(cross(forward, up));
+  const point = (x: number, y: number): Vec3 =>
+    [0, 1, 2].map((i) => camera.position[i] + forward[i] * depth + right[i] * x + up[i] * y) as Vec3;
+
+  const corners = [point(-halfWidth, halfHeight), point(halfWidth, halfHeight)];
+  corners.push(point(halfWidth, -halfHeight), point(-halfWidth, -halfHeight));
+  const segments: Vec3[] = [];
+  corners.forEach((corner, i) => segments.push(camera.position, corner, corner, corners[(i + 1) % 4]));
+  const peak = point(0, halfHeight * 1.5);
+  segments.push(corners[0], peak, peak, corners[1]);
+  return segments;
+}
+
+/**
+ * Depth to draw camera frusta at: half the median distance between consecutive cameras,
+ * which are usually listed in capture order. 1 for a single camera.
+ */
+export function frustumDepth(cameras: CaptureCamera[]): number {
+  const gaps: number[] = [];
+  for (let i = 1; i < cameras.length; i++) {
+    const gap = Math.hypot(...cameras[i].position.map((v, axis) => v - cameras[i - 1].position[axis]));
+    if (gap > 0) gaps.push(gap);
+  }
+  if (gaps.length === 0) return 1;
+  gaps.sort((a, b) => a - b);
+  return gaps[Math.floor(gaps.length / 2)] / 2;
+}
+
+/**
+ * Rows of the rotation matrix of a unit quaternion.
+ */
+function quaternionToRows(w: number, x: number, y: number, z: number): [Vec3, Vec3, Vec3] {
+  return [
+    [1 - 2 * (y * y + z * z), 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), 1 - 2 * (x * x + z * z), 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), 1 - 2 * (x * x + y * y)],
+  ];
+}
+
+function degrees(radians: number): number {
+  return (radians * 180) / Math.PI;
+}
+
+function scale(v: Vec3, s: number): Vec3 {
+  return [v[0] * s, v[1] * s, v[2] * s];
+}
+
+function normalize(v: Vec3): Vec3 {
+  const length = Math.hypot(...v);
+  return length > 0 ? scale(v, 1 / length) : v;
+}
+
+function dot(a: Vec3, b: Vec3): number {
+  return a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+}
+
+function cross(a: Vec3, b: Vec3): Vec3 {
+  return [a[1] * b[2] - a[2] * b[1], a[2] * b[0] - a[0] * b[2], a[0] * b[1] - a[1] * b[0]];
+}
@@ -0,0 +1,53 @@
+import type { ColorAdjustments } from '../core/types';
+import type { Vec3 } from './georeference';
+
+/**
+ * Adjustments that leave colors unchanged.
+ */
+export const NEUTRAL_COLOR_ADJUSTMENTS: ColorAdjustments = {
+  brightness: 0,
+  contrast: 0,
+  saturation: 0,
+  exposure: 0,
+  tint: 0,
+};
+
+/**
+ * Rec. 709 luma weights, used to desaturate toward gray of the same lightness.
+ */
+const LUMA: Vec3 = [0.2126, 0.7152, 0.0722];
+
+/**
+ * Whether the adjustments leave colors unchanged.
+ */
+export function isNeutralColorAdjustments(adjustments: ColorAdjustments): boolean {
+  return (Object.keys(NEUTRAL_COLOR_ADJUSTMENTS) as Array<keyof ColorAdjustments>).every(
+    (key) => adjustments[key] === NEUTRAL_COLOR_ADJUSTMENTS[key]
+  );
+}
+
+/**
+ * Express color adjustments as one affine transform of RGB: `rgb' = matrix * rgb + offset`,
+ * with the matrix in row-major order.
+ *
+ * Applied in order: exposure (2^stops), tint (green/magenta channel gains), saturation
+ * (mix with luma), contrast (scale about mid gray) and brightness (offset).
+ */
+export function colorAdjustmentsToAffine(adjustments: ColorAdjustments): { matrix: number[]; offset: Vec3 } {
+  const { brightness, contrast, saturation, exposure, tint } = adjustments;
+  const gain = 2 ** exposure;
+  const tintGains: Vec3 = [1 + tint / 3, 1 - tint / 3, 1 + tint / 3];
+  const saturate = 1 + saturation;
+  const contrastScale = 1 + contrast;
+
+  const matrix: number[] = [];
+  for (let row = 0; row < 3; row++) {
+    for (let col = 0; col < 3; col++) {
+      // Saturation matrix entry: luma plus the scaled difference from it
+      const s = (1 - saturate) * LUMA[col] + (row === col ? saturate : 0);
+      matrix.push(contrastScale * s * tintGains[col] * gain);
+    }
+  }
+  const shift = 0.5 * (1 - contrastScale) + brightness;
+  return { matrix, offset: [shift, shift, shift] };
+}
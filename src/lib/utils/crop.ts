@@ -0,0 +1,53 @@
+/**
+ * An axis-aligned rectangle in a plane, as a center and edge lengths.
+ */
+export interface PlanarBox {
+  center: [number, number];
+  size: [number, number];
+}
+
+/**
+ * Cover a polygon with axis-aligned rectangles, for approximating it with box volumes.
+ *
+ * The polygon is cut into horizontal slabs at its vertices, and slabs with slanted edges
+ * into strips no taller than 1 / maxStrips of the polygon's height. Each strip keeps the
+ * inside spans of its middle line (even-odd rule), so edges parallel to an axis are
+ * followed exactly and slanted edges to within half a strip.
+ *
+ * @param polygon - Vertices as [x, y]; the ring may be closed or open.
+ */
+export function polygonToBoxes(polygon: [number, number][], maxStrips = 64): PlanarBox[] {
+  const last = polygon[polygon.length - 1];
+  const closed = polygon.length > 1 && last[0] === polygon[0][0] && last[1] === polygon[0][1];
+  const ring = closed ? polygon.slice(0, -1) : polygon;
+  if (ring.length < 3) return [];
+
+  const ys = [...new Set(ring.map((p) => p[1]))].sort((a, b) => a - b);
+  const stripHeight = (ys[ys.length - 1] - ys[0]) / maxStrips;
+  const boxes: PlanarBox[] = [];
+
+  for (let s = 0; s < ys.length - 1; s++) {
+    const slabBottom = ys[s];
+    const slabHeight = ys[s + 1] - slabBottom;
+    const middle = slabBottom + slabHeight / 2;
+    // No vertex lies inside a slab, so the edges crossing its middle span all of it
+    const edges = ring
+      .map((p, j): [[number, number], [number, number]] => [p, ring[(j + 1) % ring.length]])
+      .filter(([[, y0], [, y1]]) => y0 <= middle !== y1 <= middle);
+    // Between vertical edges a single box is exact. Small tolerance so slabs that are
+    // an exact multiple of the strip height are not split once more
+    const slanted = edges.some(([[x0], [x1]]) => x0 !== x1);
+    const strips = slanted ? Math.max(1, Math.ceil(slabHeight / stripHeight - 1e-9)) : 1;
+    const height = slabHeight / strips;
+
+    for (let i = 0; i < strips; i++) {
+      const y = slabBottom + (i + 0.5) * height;
+      const xs = edges.map(([[x0, y0], [x1, y1]]) => x0 + ((y - y0) / (y1 - y0)) * (x1 - x0));
+      xs.sort((a, b) => a - b);
+      for (let k = 0; k + 1 < xs.length; k += 2) {
+        boxes.push({ center: [(xs[k] + xs[k + 1]) / 2, y], size: [xs[k + 1] - xs[k], height] });
+      }
+    }
+  }
+  return boxes;
+}
@@ -0,0 +1,156 @@
+/**
+ * Convert coordinates in some CRS to WGS84 [longitude, latitude, height in meters].
+ */
+export type CrsConverter = (coordinates: [number, number, number]) => [number, number, number];
+
+/**
+ * The parts of the proj4 library used to resolve CRS codes it knows about.
+ */
+export interface Proj4Like {
+  (fromProjection: string, toProjection: string, coordinates: number[]): number[];
+  defs(code: string): unknown;
+}
+
+// WGS84 ellipsoid
+const A = 6378137;
+const F = 1 / 298.257223563;
+const E2 = F * (2 - F);
+
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+/**
+ * Convert Earth-centered, Earth-fixed coordinates (EPSG:4978) to geodetic WGS84.
+ */
+export function ecefToWgs84([x, y, z]: [number, number, number]): [number, number, number] {
+  const p = Math.hypot(x, y);
+  const lng = Math.atan2(y, x);
+  let lat = Math.atan2(z, p * (1 - E2));
+  let height = 0;
+  for (let i = 0; i < 6; i++) {
+    const sinLat = Math.sin(lat);
+    const n = A / Math.sqrt(1 - E2 * sinLat * sinLat);
+    // Near the poles p / cos(lat) is unstable, so measure the height along z instead
+    height = Math.abs(Math.cos(lat)) > 1e-6 ? p / Math.cos(lat) - n : Math.abs(z) - n * (1 - E2);
+    lat = Math.atan2(z, p * (1 - (E2 * n) / (n + height)));
+  }
+  return [toDegrees(lng), toDegrees(lat), height];
+}
+
+/**
+ * Convert Web Mercator (EPSG:3857) meters to WGS84.
+ */
+function webMercatorToWgs84([x, y, z]: [number, number, number]): [number, number, number] {
+  return [toDegrees(x / A), toDegrees(2 * Math.atan(Math.exp(y / A)) - Math.PI / 2), z];
+}
+
+/**
+ * Create a converter for a WGS84 UTM zone, using the Krüger series (sub-millimeter within the zone).
+ */
+function createUtmConverter(zone: number, south: boolean): CrsConverter {
+  const n = F / (2 - F);
+  const n2 = n * n;
+  const n3 = n2 * n;
+  const rectifyingRadius = (A / (1 + n)) * (1 + n2 / 4 + (n2 * n2) / 64);
+  const beta = [n / 2 - (2 * n2) / 3 + (37 * n3) / 96, n2 / 48 + n3 / 15, (17 * n3) / 480];
+  const delta = [2 * n - (2 * n2) / 3 - 2 * n3, (7 * n2) / 3 - (8 * n3) / 5, (56 * n3) / 15];
+  const k0 = 0.9996;
+  const centralMeridian = zone * 6 - 183;
+
+  return ([easting, northing, height]) => {
+    const xi = (northing - (south ? 10000000 : 0)) / (k0 * rectifyingRadius);
+    const eta = (easting - 500000) / (k0 * rectifyingRadius);
+    let xiPrime = xi;
+    let etaPrime = eta;
+    for (let j = 1; j <= 3; j++) {
+      xiPrime -= beta[j - 1] * Math.sin(2 * j * xi) * Math.cosh(2 * j * eta);
+      etaPrime -= beta[j - 1] * Math.cos(2 * j * xi) * Math.sinh(2 * j * eta);
+    }
+    const chi = Math.asin(Math.sin(xiPrime) / Math.cosh(etaPrime));
+    let lat = chi;
+    for (let j = 1; j <= 3; j++) lat += delta[j - 1] * Math.sin(2 * j * chi);
+    const lng = centralMeridian + toDegrees(Math.atan2(Math.sinh(etaPrime), Math.cos(xiPrime)));
+    return [lng, toDegrees(lat), height];
+  };
+}
+
+/**
+ * CRSs registered with registerCrs().
+ */
+const registry = new Map<string, CrsConverter>();
+
+let proj4Instance: Proj4Like | null = null;
+
+/**
+ * Normalize a CRS code such as "epsg:32633" or "urn:ogc:def:crs:EPSG::32633" to "EPSG:32633".
+ */
+function normalizeCode(code: string): string {
+  const urn = /^urn:ogc:def:crs:([^:]+)::?(.+)$/i.exec(code.trim());
+  const normalized = urn ? `${urn[1]}:${urn[2]}` : code.trim();
+  return normalized.replace(/^epsg:/i, 'EPSG:');
+}
+
+/**
+ * Converter for a CRS built into the library, or null if it is not one of them.
+ */
+function getBuiltinConverter(code: string): CrsConverter | null {
+  if (code === 'EPSG:4326' || code === 'EPSG:4979') return (c) => [...c];
+  if (code === 'EPSG:4978') return ecefToWgs84;
+  if (code === 'EPSG:3857' || code === 'EPSG:900913') return webMercatorToWgs84;
+
+  // WGS84 / UTM zones: EPSG:326xx (north) and EPSG:327xx (south)
+  const utm = /^EPSG:32([67])(\d{2})$/.exec(code);
+  if (utm) {
+    const zone = Number(utm[2]);
+    if (zone >= 1 && zone <= 60) return createUtmConverter(zone, utm[1] === '7');
+  }
+  return null;
+}
+
+/**
+ * Register a converter for a CRS code, e.g. a state plane or national grid.
+ * Registered converters take precedence over the built-in ones.
+ *
+ * @example
+ * ```typescript
+ * registerCrs('EPSG:2227', ([x, y, z]) => {
+ *   const [lng, lat] = proj4('EPSG:2227', 'EPSG:4326', [x, y]);
+ *   return [lng, lat, z * 0.3048006]; // US survey feet to meters
+ * });
+ * ```
+ */
+export function registerCrs(code: string, toWgs84: CrsConverter): void {
+  registry.set(normalizeCode(code), toWgs84);
+}
+
+/**
+ * Resolve CRS codes through proj4 when they are not registered or built in.
+ * Any definition added with `proj4.defs()` then works as a layer origin.
+ */
+export function registerProj4(proj4: Proj4Like | null): void {
+  proj4Instance = proj4;
+}
+
+/**
+ * Convert coordinates in a CRS to WGS84 [longitude, latitude, height].
+ * Built in: EPSG:4326/4979 (lng/lat), EPSG:4978 (ECEF), EPSG:3857 (Web Mercator) and
+ * the WGS84 UTM zones (EPSG:32601-32660, 32701-32760).
+ *
+ * @throws If the CRS is not registered, built in or known to proj4.
+ */
+export function toWgs84(
+  crs: string,
+  coordinates: [number, number] | [number, number, number]
+): [number, number, number] {
+  const code = normalizeCode(crs);
+  const point: [number, number, number] = [coordinates[0], coordinates[1], coordinates[2] ?? 0];
+
+  const converter = registry.get(code) ?? getBuiltinConverter(code);
+  if (converter) return converter(point);
+
+  if (proj4Instance?.defs(code)) {
+    const [lng, lat] = proj4Instance(code, 'EPSG:4326', [point[0], point[1]]);
+    return [lng, lat, point[2]];
+  }
+
+  throw new Error(`Unknown CRS "${crs}". Register it with registerCrs() or registerProj4().`);
+}
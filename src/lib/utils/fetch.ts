@@ -0,0 +1,80 @@
+import { getFilenameFromContentDisposition } from './assets';
+
+/**
+ * Bytes of a fetched asset along with the response metadata needed to load it.
+ */
+export interface FetchedAsset {
+  data: ArrayBuffer;
+  contentType: string | null;
+  /** File name from the Content-Disposition header, if the server sent one. */
+  filename: string | null;
+}
+
+/**
+ * Fetch an asset as an ArrayBuffer, reporting download progress.
+ * `total` is 0 when the server does not send a usable Content-Length.
+ */
+export async function fetchAsset(
+  url: string,
+  options: {
+    signal?: AbortSignal;
+    /** Extra request options such as headers and credentials. */
+    init?: Omit<RequestInit, 'signal'>;
+    onProgress?: (loaded: number, total: number) => void;
+  } = {}
+): Promise<FetchedAsset> {
+  const { signal, init, onProgress } = options;
+  const response = await fetch(url, { ...init, signal });
+  if (!response.ok) {
+    throw new Error(`HTTP ${response.status}${response.statusText ? ` ${response.statusText}` : ''}`);
+  }
+
+  const contentType = response.headers.get('content-type');
+  const filename = getFilenameFromContentDisposition(response.headers.get('content-disposition'));
+  const total = Number(response.headers.get('content-length')) || 0;
+
+  if (!response.body) {
+    const data = await response.arrayBuffer();
+    onProgress?.(data.byteLength, data.byteLength);
+    return { data, contentType, filename };
+  }
+
+  const reader = response.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let loaded = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    chunks.push(value);
+    loaded += value.byteLength;
+    // Content-Length is the encoded size for compressed responses; treat it as unknown once exceeded
+    onProgress?.(loaded, total >= loaded ? total : 0);
+  }
+
+  const bytes = new Uint8Array(loaded);
+  let offset = 0;
+  for (const chunk of chunks) {
+    bytes.set(chunk, offset);
+    offset += chunk.byteLength;
+  }
+  return { data: bytes.buffer, contentType, filename };
+}
+
+/**
+ * Create an AbortController that also aborts when the given signal does.
+ */
+export function createLinkedAbortController(signal?: AbortSignal): AbortController {
+  const controller = new AbortController();
+  if (signal) {
+    if (signal.aborted) controller.abort(signal.reason);
+    else signal.addEventListener('abort', () => controller.abort(signal.reason), { once: true });
+  }
+  return controller;
+}
+
+/**
+ * Check whether an error was caused by aborting a request.
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
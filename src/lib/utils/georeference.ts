@@ -0,0 +1,222 @@
+/**
+ * A 3D vector as [x, y, z].
+ */
+export type Vec3 = [number, number, number];
+
+/**
+ * Result of fitting a similarity transform `target = scale * R * source + translation`.
+ */
+export interface SimilarityTransform {
+  /** Uniform scale factor. */
+  scale: number;
+  /** Row-major 3x3 rotation matrix. */
+  rotation: [Vec3, Vec3, Vec3];
+  /** Translation applied after rotation and scale. */
+  translation: Vec3;
+  /** Distance between each transformed source point and its target. */
+  residuals: number[];
+  /** Root mean square of the residuals. */
+  rmse: number;
+}
+
+/**
+ * Mean Earth radius used for the local tangent plane approximation, in meters.
+ */
+const EARTH_RADIUS = 6371008.8;
+
+const sub = (a: Vec3, b: Vec3): Vec3 => [a[0] - b[0], a[1] - b[1], a[2] - b[2]];
+const dot = (a: Vec3, b: Vec3): number => a[0] * b[0] + a[1] * b[1] + a[2] * b[2];
+const mulMat = (m: [Vec3, Vec3, Vec3], v: Vec3): Vec3 => [dot(m[0], v), dot(m[1], v), dot(m[2], v)];
+
+function centroid(points: Vec3[]): Vec3 {
+  const sum: Vec3 = [0, 0, 0];
+  for (const p of points) {
+    sum[0] += p[0];
+    sum[1] += p[1];
+    sum[2] += p[2];
+  }
+  return [sum[0] / points.length, sum[1] / points.length, sum[2] / points.length];
+}
+
+/**
+ * Eigenvalues and eigenvectors of a symmetric matrix (Jacobi rotation method).
+ * `vectors[i]` belongs to `values[i]`.
+ */
+function symmetricEigen(matrix: number[][]): { values: number[]; vectors: number[][] } {
+  const n = matrix.length;
+  const a = matrix.map((row) => [...row]);
+  const v = matrix.map((_, i) => matrix.map((__, j): number => (i === j ? 1 : 0)));
+  for (let sweep = 0; sweep < 50; sweep++) {
+    let offDiagonal = 0;
+    for (let p = 0; p < n - 1; p++) for (let q = p + 1; q < n; q++) offDiagonal += a[p][q] * a[p][q];
+    if (offDiagonal < 1e-20) break;
+
+    for (let p = 0; p < n - 1; p++) {
+      for (let q = p + 1; q < n; q++) {
+        if (Math.abs(a[p][q]) < 1e-30) continue;
+        const theta = (a[q][q] - a[p][p]) / (2 * a[p][q]);
+        const t = Math.sign(theta || 1) / (Math.abs(theta) + Math.sqrt(theta * theta + 1));
+        const c = 1 / Math.sqrt(t * t + 1);
+        const s = t * c;
+        for (let k = 0; k < n; k++) {
+          const akp = a[k][p];
+          const akq = a[k][q];
+          a[k][p] = c * akp - s * akq;
+          a[k][q] = s * akp + c * akq;
+        }
+        for (let k = 0; k < n; k++) {
+          const apk = a[p][k];
+          const aqk = a[q][k];
+          a[p][k] = c * apk - s * aqk;
+          a[q][k] = s * apk + c * aqk;
+        }
+        for (let k = 0; k < n; k++) {
+          const vkp = v[k][p];
+          const vkq = v[k][q];
+          v[k][p] = c * vkp - s * vkq;
+          v[k][q] = s * vkp + c * vkq;
+        }
+      }
+    }
+  }
+
+  return { values: a.map((row, i) => row[i]), vectors: a.map((_, i) => v.map((row) => row[i])) };
+}
+
+/**
+ * Eigenvector of the largest eigenvalue of a symmetric matrix.
+ */
+function largestEigenvector(matrix: number[][]): number[] {
+  const { values, vectors } = symmetricEigen(matrix);
+  return vectors[values.indexOf(Math.max(...values))];
+}
+
+/**
+ * Fit the similarity transform (rotation, uniform scale, translation) that best maps
+ * `source` points onto `target` points in the least-squares sense, using Horn's
+ * closed-form quaternion method.
+ *
+ * @throws If fewer than three point pairs are given or the source points are degenerate.
+ */
+export function solveSimilarityTransform(source: Vec3[], target: Vec3[]): SimilarityTransform {
+  if (source.length !== target.length) {
+    throw new Error('Source and target must have the same number of points');
+  }
+  if (source.length < 3) {
+    throw new Error('At least three control points are required');
+  }
+
+  const sourceCenter = centroid(source);
+  const targetCenter = centroid(target);
+  const a = source.map((p) => sub(p, sourceCenter));
+  const b = target.map((p) => sub(p, targetCenter));
+
+  // Cross-covariance sums S[i][j] = sum(a_i * b_j)
+  const S = [
+    [0, 0, 0],
+    [0, 0, 0],
+    [0, 0, 0],
+  ];
+  let sourceSpread = 0;
+  for (let k = 0; k < a.length; k++) {
+    for (let i = 0; i < 3; i++) for (let j = 0; j < 3; j++) S[i][j] += a[k][i] * b[k][j];
+    sourceSpread += dot(a[k], a[k]);
+  }
+  if (sourceSpread < 1e-12) {
+    throw new Error('Control points on the layer must not all be at the same position');
+  }
+  // Points along one line leave the rotation about it undetermined: the source scatter then
+  // has a single eigenvalue well above zero
+  const scatter = [0, 1, 2].map((i) => [0, 1, 2].map((j) => a.reduce((sum, p) => sum + p[i] * p[j], 0)));
+  const [, second] = symmetricEigen(scatter).values.sort((x, y) => y - x);
+  if (second < 1e-6 * sourceSpread) {
+    throw new Error('Control points on the layer must not all lie on one line');
+  }
+
+  const [[xx, xy, xz], [yx, yy, yz], [zx, zy, zz]] = S;
+  const N = [
+    [xx + yy + zz, yz - zy, zx - xz, xy - yx],
+    [yz - zy, xx - yy - zz, xy + yx, zx + xz],
+    [zx - xz, xy + yx, -xx + yy - zz, yz + zy],
+    [xy - yx, zx + xz, yz + zy, -xx - yy + zz],
+  ];
+  const [w, x, y, z] = largestEigenvector(N);
+  const rotation: [Vec3, Vec3, Vec3] = [
+    [w * w + x * x - y * y - z * z, 2 * (x * y - w * z), 2 * (x * z + w * y)],
+    [2 * (x * y + w * z), w * w - x * x + y * y - z * z, 2 * (y * z - w * x)],
+    [2 * (x * z - w * y), 2 * (y * z + w * x), w * w - x * x - y * y + z * z],
+  ];
+
+  let projected = 0;
+  for (let k = 0; k < a.length; k++) projected += dot(b[k], mulMat(rotation, a[k]));
+  const scale = projected / sourceSpread;
+  if (!(scale > 0)) {
+    throw new Error('Control points could not be matched; check that the point pairs correspond');
+  }
+
+  const rotatedCenter = mulMat(rotation, sourceCenter);
+  const translation: Vec3 = [
+    targetCenter[0] - scale * rotatedCenter[0],
+    targetCenter[1] - scale * rotatedCenter[1],
+    targetCenter[2] - scale * rotatedCenter[2],
+  ];
+
+  const residuals = source.map((p, i) => {
+    const r = mulMat(rotation, p);
+    const mapped: Vec3 = [
+      scale * r[0] + translation[0],
+      scale * r[1] + translation[1],
+      scale * r[2] + translation[2],
+    ];
+    const d = sub(mapped, target[i]);
+    return Math.sqrt(dot(d, d));
+  });
+  const rmse = Math.sqrt(residuals.reduce((sum, r) => sum + r * r, 0) / residuals.length);
+
+  return { scale, rotation, translation, residuals, rmse };
+}
+
+/**
+ * Convert [lng, lat, alt] to east/north/up meters around a reference [lng, lat].
+ * Uses a local tangent plane, accurate for sites up to a few kilometers across.
+ */
+export function lngLatAltToEnu(reference: [number, number], lngLatAlt: Vec3): Vec3 {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS;
+  const cosLat = Math.cos((reference[1] * Math.PI) / 180);
+  return [
+    (lngLatAlt[0] - reference[0]) * metersPerDegree * cosLat,
+    (lngLatAlt[1] - reference[1]) * metersPerDegree,
+    lngLatAlt[2],
+  ];
+}
+
+/**
+ * Turn a vector half way about the vertical, negating east and north. This converts
+ * between east/north/up and the frame MTP places RTC groups in, which has east = -x,
+ * north = -y and up = +z, in either direction.
+ */
+export function flipEastNorth(vector: Vec3): Vec3 {
+  return [-vector[0], -vector[1], vector[2]];
+}
+
+/**
+ * Convert east/north/up meters around a reference [lng, lat] back to [lng, lat, alt].
+ */
+export function enuToLngLatAlt(reference: [number, number], enu: Vec3): Vec3 {
+  const metersPerDegree = (Math.PI / 180) * EARTH_RADIUS;
+  const cosLat = Math.cos((reference[1] * Math.PI) / 180);
+  return [reference[0] + enu[0] / (metersPerDegree * cosLat), reference[1] + enu[1] / metersPerDegree, enu[2]];
+}
+
+/**
+ * Convert a row-major rotation matrix to Euler angles in degrees, in the 'XYZ' order used by three.js.
+ */
+export function rotationMatrixToEuler(m: [Vec3, Vec3, Vec3]): Vec3 {
+  const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+  const y = Math.asin(Math.min(Math.max(m[0][2], -1), 1));
+  if (Math.abs(m[0][2]) < 0.9999999) {
+    return [toDegrees(Math.atan2(-m[1][2], m[2][2])), toDegrees(y), toDegrees(Math.atan2(-m[0][1], m[0][0]))];
+  }
+  // Gimbal lock: only the sum of the x and z rotations is defined
+  return [toDegrees(Math.atan2(m[2][1], m[1][1])), toDegrees(y), 0];
+}
@@ -0,0 +1,35 @@
+const GLB_MAGIC = 0x46546c67; // "glTF"
+const GLB_CHUNK_JSON = 0x4e4f534a; // "JSON"
+
+/**
+ * Read the JSON document of a glTF or GLB file, or null if it cannot be parsed.
+ */
+function readGltfJson(data: ArrayBuffer): { buffers?: { uri?: string }[]; images?: { uri?: string }[] } | null {
+  const view = new DataView(data);
+  let text: string;
+  if (data.byteLength >= 20 && view.getUint32(0, true) === GLB_MAGIC) {
+    const chunkLength = view.getUint32(12, true);
+    if (view.getUint32(16, true) !== GLB_CHUNK_JSON) return null;
+    text = new TextDecoder().decode(new Uint8Array(data, 20, Math.min(chunkLength, data.byteLength - 20)));
+  } else {
+    text = new TextDecoder().decode(data);
+  }
+  try {
+    return JSON.parse(text);
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * List the external resources (buffers and images) referenced by a glTF or GLB file.
+ * Embedded data URIs are skipped. URIs are returned as written in the file.
+ */
+export function getExternalGltfUris(data: ArrayBuffer): string[] {
+  const json = readGltfJson(data);
+  if (!json) return [];
+  const uris = [...(json.buffers ?? []), ...(json.images ?? [])]
+    .map((entry) => entry.uri)
+    .filter((uri): uri is string => !!uri && !/^(data|blob):/i.test(uri));
+  return Array.from(new Set(uris));
+}
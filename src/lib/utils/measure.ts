@@ -0,0 +1,75 @@
+import type { Measurement, MeasurementMode, MeasurementUnits } from '../core/types';
+import { lngLatAltToEnu, type Vec3 } from './georeference';
+
+const METERS_PER_FOOT = 0.3048;
+
+/**
+ * Measure points given as [lng, lat, alt]: the length of the path through them or the
+ * height between the first and last in meters, or the area of the polygon they outline in
+ * square meters. The polygon may be tilted, e.g. drawn on a façade.
+ */
+export function measurePoints(mode: MeasurementMode, points: Vec3[]): number {
+  if (points.length < 2) return 0;
+  if (mode === 'height') return Math.abs(points[points.length - 1][2] - points[0][2]);
+
+  const enu = points.map((p) => lngLatAltToEnu([points[0][0], points[0][1]], p));
+  if (mode === 'distance') {
+    let length = 0;
+    for (let i = 1; i < enu.length; i++) length += Math.hypot(...enu[i].map((v, axis) => v - enu[i - 1][axis]));
+    return length;
+  }
+
+  // Newell's method: the cross products of the edges sum to twice the area along the normal
+  const normal: Vec3 = [0, 0, 0];
+  for (let i = 0; i < enu.length; i++) {
+    const [x0, y0, z0] = enu[i];
+    const [x1, y1, z1] = enu[(i + 1) % enu.length];
+    normal[0] += (y0 - y1) * (z0 + z1);
+    normal[1] += (z0 - z1) * (x0 + x1);
+    normal[2] += (x0 - x1) * (y0 + y1);
+  }
+  return Math.hypot(...normal) / 2;
+}
+
+/**
+ * Format a length or height in meters, or an area in square meters, e.g. '3.42 m' or '1,250 ft²'.
+ */
+export function formatMeasurement(value: number, mode: MeasurementMode, units: MeasurementUnits): string {
+  const area = mode === 'area';
+  const factor = units === 'imperial' ? (area ? METERS_PER_FOOT ** 2 : METERS_PER_FOOT) : 1;
+  const converted = value / factor;
+  const unit = units === 'imperial' ? 'ft' : 'm';
+  // Centimeter-level detail for small values, less clutter for large ones
+  const digits = converted < 10 ? 2 : converted < 1000 ? 1 : 0;
+  const text = converted.toLocaleString('en-US', { minimumFractionDigits: digits, maximumFractionDigits: digits });
+  return `${text} ${unit}${area ? '²' : ''}`;
+}
+
+/**
+ * Measurements as GeoJSON with altitudes as Z: lines for distances and heights, polygons for areas.
+ */
+export function measurementsToGeoJSON(
+  measurements: Measurement[],
+  units: MeasurementUnits
+): GeoJSON.FeatureCollection {
+  return {
+    type: 'FeatureCollection',
+    features: measurements.map((measurement): GeoJSON.Feature => {
+      const coordinates = measurement.points.map((p) => [...p]);
+      return {
+        type: 'Feature',
+        id: measurement.id,
+        properties: {
+          mode: measurement.mode,
+          value: measurement.value,
+          unit: measurement.mode === 'area' ? 'm²' : 'm',
+          label: formatMeasurement(measurement.value, measurement.mode, units),
+        },
+        geometry:
+          measurement.mode === 'area'
+            ? { type: 'Polygon', coordinates: [[...coordinates, coordinates[0]]] }
+            : { type: 'LineString', coordinates },
+      };
+    }),
+  };
+}
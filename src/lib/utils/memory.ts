@@ -0,0 +1,92 @@
+import * as THREE from 'three';
+
+/**
+ * A GPU resource of a model: a geometry, a material or a texture.
+ */
+export type GpuResource = THREE.BufferGeometry | THREE.Material | THREE.Texture;
+
+/**
+ * Estimated sizes in bytes of data uploaded to the GPU and of data kept in JavaScript memory.
+ */
+export interface ByteEstimate {
+  gpu: number;
+  cpu: number;
+}
+
+/**
+ * The geometries and materials of an object and its descendants, and the textures the
+ * materials use.
+ */
+export function collectResources(object: THREE.Object3D): Set<GpuResource> {
+  const resources = new Set<GpuResource>();
+  object.traverse((child) => {
+    const { geometry, material } = child as THREE.Mesh;
+    if (geometry?.isBufferGeometry) resources.add(geometry);
+    const materials = Array.isArray(material) ? material : material ? [material] : [];
+    for (const m of materials) {
+      resources.add(m);
+      for (const texture of materialTextures(m)) resources.add(texture);
+    }
+  });
+  return resources;
+}
+
+/**
+ * Textures a material samples: its maps, and the uniforms of shader materials.
+ */
+function materialTextures(material: THREE.Material): THREE.Texture[] {
+  const values: unknown[] = Object.values(material);
+  const uniforms = (material as THREE.ShaderMaterial).uniforms;
+  if (uniforms) values.push(...Object.values(uniforms).map((uniform) => uniform?.value));
+  return values.filter((value): value is THREE.Texture => (value as THREE.Texture | null)?.isTexture === true);
+}
+
+/**
+ * Estimate the memory held by a resource. Geometry buffers are kept in JavaScript memory
+ * after upload; decoded images are counted at 4 bytes per pixel, plus a third for mipmaps.
+ */
+export function resourceBytes(resource: GpuResource): ByteEstimate {
+  if ((resource as THREE.BufferGeometry).isBufferGeometry) {
+    const geometry = resource as THREE.BufferGeometry;
+    // Interleaved attributes share one array
+    const arrays = new Set<THREE.TypedArray>();
+    if (geometry.index) arrays.add(geometry.index.array);
+    for (const attribute of Object.values(geometry.attributes)) arrays.add(attribute.array);
+    let bytes = 0;
+    for (const array of arrays) bytes += array.byteLength;
+    return { gpu: bytes, cpu: bytes };
+  }
+  if ((resource as THREE.Texture).isTexture) return textureBytes(resource as THREE.Texture);
+  return { gpu: 0, cpu: 0 };
+}
+
+function textureBytes(texture: THREE.Texture): ByteEstimate {
+  const mipmaps = texture.mipmaps as { data?: ArrayBufferView }[] | undefined;
+  if ((texture as THREE.CompressedTexture).isCompressedTexture && mipmaps?.length) {
+    const bytes = mipmaps.reduce((sum, mipmap) => sum + (mipmap.data?.byteLength ?? 0), 0);
+    return { gpu: bytes, cpu: bytes };
+  }
+  const image = texture.image as { width?: number; height?: number; data?: ArrayBufferView } | null;
+  if (!image) return { gpu: 0, cpu: 0 };
+  const mipmapFactor = texture.generateMipmaps ? 4 / 3 : 1;
+  if (image.data) {
+    return { gpu: Math.round(image.data.byteLength * mipmapFactor), cpu: image.data.byteLength };
+  }
+  const pixels = (image.width ?? 0) * (image.height ?? 0);
+  return { gpu: Math.round(pixels * 4 * mipmapFactor), cpu: pixels * 4 };
+}
+
+/**
+ * Estimate the memory held by packed splats: the packed array and any spherical harmonics
+ * arrays, each mirrored by a texture on the GPU.
+ */
+export function packedSplatsBytes(packedSplats: {
+  packedArray: Uint32Array | null;
+  extra: Record<string, unknown>;
+}): ByteEstimate {
+  let bytes = packedSplats.packedArray?.byteLength ?? 0;
+  for (const value of Object.values(packedSplats.extra ?? {})) {
+    if (ArrayBuffer.isView(value)) bytes += value.byteLength;
+  }
+  return { gpu: bytes, cpu: bytes };
+}
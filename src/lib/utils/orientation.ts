@@ -0,0 +1,81 @@
+import type { UpAxis } from '../core/types';
+import { rotationMatrixToEuler, type Vec3 } from './georeference';
+
+type Matrix3 = [Vec3, Vec3, Vec3];
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+
+function multiply(a: Matrix3, b: Matrix3): Matrix3 {
+  const row = (i: number): Vec3 => [
+    a[i][0] * b[0][0] + a[i][1] * b[1][0] + a[i][2] * b[2][0],
+    a[i][0] * b[0][1] + a[i][1] * b[1][1] + a[i][2] * b[2][1],
+    a[i][0] * b[0][2] + a[i][1] * b[1][2] + a[i][2] * b[2][2],
+  ];
+  return [row(0), row(1), row(2)];
+}
+
+function rotationX(deg: number): Matrix3 {
+  const c = Math.cos(toRadians(deg));
+  const s = Math.sin(toRadians(deg));
+  return [
+    [1, 0, 0],
+    [0, c, -s],
+    [0, s, c],
+  ];
+}
+
+function rotationY(deg: number): Matrix3 {
+  const c = Math.cos(toRadians(deg));
+  const s = Math.sin(toRadians(deg));
+  return [
+    [c, 0, s],
+    [0, 1, 0],
+    [-s, 0, c],
+  ];
+}
+
+function rotationZ(deg: number): Matrix3 {
+  const c = Math.cos(toRadians(deg));
+  const s = Math.sin(toRadians(deg));
+  return [
+    [c, -s, 0],
+    [s, c, 0],
+    [0, 0, 1],
+  ];
+}
+
+/**
+ * Rotation taking an asset's axes to east/north/up. At heading 0 the asset's
+ * +Y (Z-up), -Z (Y-up) or +Z (-Y-up) axis points north.
+ */
+const UP_AXIS_BASIS: Record<UpAxis, Matrix3> = {
+  'Z-up': rotationX(0),
+  'Y-up': rotationX(90),
+  '-Y-up': rotationX(-90),
+};
+
+/**
+ * Convert a geographic orientation to the Euler XYZ rotation (degrees) of a layer's RTC group.
+ *
+ * Heading turns clockwise from true north about the up axis, then pitch raises the
+ * north-facing side, then roll lowers the east-facing side.
+ *
+ * @param mirroredY - Whether the asset is mirrored in y before the rotation, as GLTF models are.
+ */
+export function orientationToRotation(
+  orientation: { heading: number; pitch: number; roll: number },
+  upAxis: UpAxis,
+  mirroredY = false
+): Vec3 {
+  let basis = UP_AXIS_BASIS[upAxis];
+  // A half turn about z after the y mirror restores the asset's up and forward axes;
+  // only its x axis stays mirrored
+  if (mirroredY) basis = multiply(basis, rotationZ(180));
+
+  const enu = multiply(
+    multiply(multiply(rotationZ(-orientation.heading), rotationX(orientation.pitch)), rotationY(orientation.roll)),
+    basis
+  );
+  // The RTC group's parent frame is a half turn about z from east/north/up
+  return rotationMatrixToEuler(multiply(rotationZ(180), enu));
+}
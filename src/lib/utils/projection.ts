@@ -0,0 +1,27 @@
+import * as THREE from 'three';
+
+/**
+ * Camera matrices as set by MTP each frame.
+ */
+export interface CameraMatrices {
+  projectionMatrix: THREE.Matrix4;
+  matrixWorld: THREE.Matrix4;
+}
+
+/**
+ * Project a world position to pixels from the top left of a canvas, or null if it is behind
+ * the camera. MTP sets the camera matrices directly, so the view matrix is taken from the
+ * inverse of its world matrix rather than `matrixWorldInverse`, which may be stale.
+ */
+export function worldToScreen(
+  position: THREE.Vector3,
+  camera: CameraMatrices,
+  width: number,
+  height: number
+): { x: number; y: number } | null {
+  const clip = new THREE.Vector4(position.x, position.y, position.z, 1)
+    .applyMatrix4(camera.matrixWorld.clone().invert())
+    .applyMatrix4(camera.projectionMatrix);
+  if (clip.w <= 0) return null;
+  return { x: ((clip.x / clip.w + 1) / 2) * width, y: ((1 - clip.y / clip.w) / 2) * height };
+}
@@ -0,0 +1,54 @@
+import type { Vec3 } from './georeference';
+
+const toRadians = (deg: number) => (deg * Math.PI) / 180;
+const toDegrees = (rad: number) => (rad * 180) / Math.PI;
+
+const DAY_MS = 86400000;
+/** Julian day of the J2000 epoch. */
+const J2000 = 2451545;
+/** Julian day of the Unix epoch. */
+const J1970 = 2440588;
+/** Obliquity of the ecliptic. */
+const OBLIQUITY = toRadians(23.4397);
+
+/**
+ * Position of the sun in the sky at a time and place: `azimuth` in degrees clockwise from
+ * north and `elevation` in degrees above the horizon, negative at night. Follows the
+ * approximations of https://aa.quae.nl/en/reken/zonpositie.html, good to about a degree.
+ */
+export function sunPosition(date: Date, longitude: number, latitude: number): { azimuth: number; elevation: number } {
+  const days = date.getTime() / DAY_MS - 0.5 + J1970 - J2000;
+
+  // Ecliptic longitude from the mean anomaly and the equation of center
+  const anomaly = toRadians(357.5291 + 0.98560028 * days);
+  const center = toRadians(1.9148 * Math.sin(anomaly) + 0.02 * Math.sin(2 * anomaly) + 0.0003 * Math.sin(3 * anomaly));
+  const eclipticLongitude = anomaly + center + toRadians(102.9372) + Math.PI;
+  const declination = Math.asin(Math.sin(eclipticLongitude) * Math.sin(OBLIQUITY));
+  const rightAscension = Math.atan2(Math.sin(eclipticLongitude) * Math.cos(OBLIQUITY), Math.cos(eclipticLongitude));
+
+  const phi = toRadians(latitude);
+  const siderealTime = toRadians(280.16 + 360.9856235 * days + longitude);
+  const hourAngle = siderealTime - rightAscension;
+  // Azimuth from the south towards the west, as the formulas give it
+  const fromSouth = Math.atan2(
+    Math.sin(hourAngle),
+    Math.cos(hourAngle) * Math.sin(phi) - Math.tan(declination) * Math.cos(phi)
+  );
+  const elevation = Math.asin(
+    Math.sin(phi) * Math.sin(declination) + Math.cos(phi) * Math.cos(declination) * Math.cos(hourAngle)
+  );
+  return { azimuth: (toDegrees(fromSouth) + 540) % 360, elevation: toDegrees(elevation) };
+}
+
+/**
+ * Unit east/north/up vector pointing at a direction in the sky given as an azimuth in degrees
+ * clockwise from north and an elevation in degrees above the horizon.
+ */
+export function skyDirection(azimuth: number, elevation: number): Vec3 {
+  const level = Math.cos(toRadians(elevation));
+  return [
+    level * Math.sin(toRadians(azimuth)),
+    level * Math.cos(toRadians(azimuth)),
+    Math.sin(toRadians(elevation)),
+  ];
+}
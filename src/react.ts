@@ -4,8 +4,50 @@ export { useGaussianSplat } from './lib/hooks/useGaussianSplat';
 
 // Re-export types
 export type {
+  AltitudeMode,
+  Annotation,
+  AnnotationOptions,
+  AssetFormat,
+  AssetRequestKind,
+  AssetRequestParameters,
+  AssetSource,
+  AssetTransformRequestFunction,
+  CaptureCamera,
+  ColorAdjustments,
+  CompareOptions,
+  CompareOrientation,
+  ControlPoint,
+  CropBox,
+  CropPolygon,
+  DirectionalLightOptions,
   GaussianSplatControlOptions,
+  GaussianSplatLoadOptions,
+  GeoreferenceSolution,
+  LayerBounds,
+  LayerCompare,
+  LayerCrop,
+  LayerMemoryStats,
+  LayerOrientation,
+  LayerOrigin,
+  LayerPick,
+  LayerProxy,
+  LayerTransform,
+  LightingOptions,
+  Measurement,
+  MeasurementMode,
+  MeasurementUnits,
+  MemoryStats,
+  ModelAnimation,
+  ModelAnimationOptions,
+  SplatLayerStats,
+  SplatSequenceFrame,
+  SplatSequenceOptions,
+  SplatSequenceState,
+  SplatStats,
+  SunLightOptions,
   GaussianSplatControlState,
   GaussianSplatEvent,
   GaussianSplatEventHandler,
+  UpAxis,
+  ZoomToLayerOptions,
 } from './lib/core/types';